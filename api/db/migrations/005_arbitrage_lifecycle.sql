@@ -0,0 +1,15 @@
+-- Arbitrage lifecycle tracking
+-- One row per lifecycle: the same opportunity coming back later gets a new row
+ALTER TABLE arbitrage_history DROP CONSTRAINT IF EXISTS arbitrage_history_arb_id_key;
+CREATE INDEX IF NOT EXISTS idx_arb_history_arb_id ON arbitrage_history(arb_id);
+
+ALTER TABLE arbitrage_history ADD COLUMN IF NOT EXISTS books VARCHAR(255);          -- Sorted unique books, e.g. 'draftkings/fanduel'
+ALTER TABLE arbitrage_history ADD COLUMN IF NOT EXISTS legs JSONB;                  -- Every leg (book1/book2 only hold the first two)
+ALTER TABLE arbitrage_history ADD COLUMN IF NOT EXISTS is_live BOOLEAN DEFAULT false;
+ALTER TABLE arbitrage_history ADD COLUMN IF NOT EXISTS max_profit DECIMAL(5,2);     -- Best profit seen (EV for middles)
+ALTER TABLE arbitrage_history ADD COLUMN IF NOT EXISTS last_profit DECIMAL(5,2);    -- Profit on the last poll it qualified
+ALTER TABLE arbitrage_history ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP;
+ALTER TABLE arbitrage_history ADD COLUMN IF NOT EXISTS expire_reason VARCHAR(20);   -- 'gone' or 'below_threshold'
+
+CREATE INDEX IF NOT EXISTS idx_arb_history_books ON arbitrage_history(sport, books);
+CREATE INDEX IF NOT EXISTS idx_arb_history_expired ON arbitrage_history(expired_at DESC);
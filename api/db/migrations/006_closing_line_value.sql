@@ -0,0 +1,52 @@
+-- Closing line value
+-- The last pregame price of every game market, and every bet and signal graded against it
+
+-- ============================================
+-- CLOSING LINES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS closing_lines (
+  id SERIAL PRIMARY KEY,
+  game_id VARCHAR(255) NOT NULL,
+  sport VARCHAR(20) NOT NULL,
+  market VARCHAR(20) NOT NULL,     -- 'moneyline', 'spread', 'total'
+  line DECIMAL(6,1),               -- Home spread or total line
+  bet VARCHAR(255) NOT NULL,       -- Same labels as arbs and EV bets, e.g. 'Over 47.5'
+  bookmaker VARCHAR(50) NOT NULL,  -- 'consensus' for the weighted no-vig line
+  odds INTEGER NOT NULL,           -- American; fair odds on the consensus row
+  fair_probability DECIMAL(5,2),   -- % consensus row only
+  start_time TIMESTAMP,
+  captured_at TIMESTAMP NOT NULL,  -- Poll the price was last seen on
+  UNIQUE(game_id, bet, bookmaker)
+);
+
+CREATE INDEX IF NOT EXISTS idx_closing_lines_game ON closing_lines(game_id);
+
+-- ============================================
+-- TRACKED PRICES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS tracked_prices (
+  id SERIAL PRIMARY KEY,
+  kind VARCHAR(10) NOT NULL,       -- 'bet' (logged by a user) or 'signal'
+  signal_id VARCHAR(255),
+  signal_type VARCHAR(20),         -- 'steam', 'arb', 'ev'
+  node_id VARCHAR(255),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+
+  game_id VARCHAR(255) NOT NULL,
+  sport VARCHAR(20) NOT NULL,
+  selections JSONB NOT NULL,       -- [{ bet, book, odds, weight }]
+  stake DECIMAL(10,2),
+  taken_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Grading, once the game starts
+  closing JSONB,                   -- Per selection: closing fair and book prices, CLV
+  clv DECIMAL(6,2),                -- % EV at the closing fair line, weighted across selections
+  book_clv DECIMAL(6,2),           -- % better than the same books' closing prices
+  graded_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracked_prices_ungraded ON tracked_prices(game_id) WHERE graded_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tracked_prices_node ON tracked_prices(node_id, taken_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tracked_prices_user ON tracked_prices(user_id, taken_at DESC);
@@ -0,0 +1,233 @@
+/**
+ * Arbitrage Lifecycle
+ *
+ * Follows each opportunity (by its stable id) across ingestion polls:
+ * 1. First qualifying poll opens an arbitrage_history row
+ * 2. Every poll it still qualifies updates last seen and max profit
+ * 3. When it disappears, or is still priced but under the profit threshold,
+ *    the row is closed with its lifespan and the caller emits the expiry
+ *
+ * Rows left open by a restart never get an expired_at and are left out of
+ * the survival stats.
+ */
+
+import { db } from '../db/index.js'
+import type { ArbitrageOpportunity } from './arbitrage-engine.js'
+
+export type ExpireReason = 'gone' | 'below_threshold'
+
+interface TrackedArb {
+  arb: ArbitrageOpportunity
+  historyId: number | null  // null when the row couldn't be written
+  firstSeen: number
+  lastSeen: number
+  maxProfit: number
+}
+
+export interface ExpiredArb {
+  arb: ArbitrageOpportunity   // Last qualifying version
+  firstSeen: number
+  expiredAt: number
+  lifespanMs: number
+  maxProfit: number
+  reason: ExpireReason
+}
+
+export interface SurvivalStats {
+  sport: string
+  books: string
+  arbs: number
+  avgLifespanMs: number
+  medianLifespanMs: number
+  p90LifespanMs: number
+  avgMaxProfit: number
+  belowThresholdPct: number   // Share that expired by shrinking rather than vanishing
+}
+
+// State
+const active = new Map<string, TrackedArb>()
+
+/**
+ * Key for a set of books, the same whichever order the legs are in
+ */
+export function bookPairKey(books: string[]): string {
+  return Array.from(new Set(books.map(book => book.toLowerCase()))).sort().join('/')
+}
+
+// Middles carry their worst case as profit, so they're measured on EV
+function profitOf(arb: ArbitrageOpportunity): number {
+  return arb.middle ? arb.middle.expectedValue : arb.profit
+}
+
+async function openHistory(arb: ArbitrageOpportunity, now: number): Promise<number | null> {
+  const [leg1, leg2] = arb.legs
+  try {
+    const result = await db.query(`
+      INSERT INTO arbitrage_history
+      (arb_id, game_id, game, sport, arb_type, profit,
+       book1_name, book1_bet, book1_odds, book1_stake,
+       book2_name, book2_bet, book2_odds, book2_stake,
+       total_implied, detected_at, books, legs, is_live, max_profit, last_profit, last_seen_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, to_timestamp($16 / 1000.0),
+              $17, $18, $19, $20, $20, to_timestamp($16 / 1000.0))
+      RETURNING id
+    `, [
+      arb.id,
+      arb.gameId,
+      arb.game,
+      arb.sport,
+      arb.type,
+      arb.profit,
+      leg1.book,
+      leg1.bet,
+      Math.round(leg1.odds),
+      leg1.stake,
+      leg2.book,
+      leg2.bet,
+      Math.round(leg2.odds),
+      leg2.stake,
+      arb.totalImplied,
+      now,
+      bookPairKey(arb.legs.map(leg => leg.book)),
+      JSON.stringify(arb.legs),
+      arb.isLive,
+      profitOf(arb)
+    ])
+    return result.rows[0]?.id ?? null
+  } catch (err) {
+    // Table might not be migrated yet, log but don't crash
+    console.error('[LIFECYCLE] Failed to record arbitrage:', err)
+    return null
+  }
+}
+
+async function closeHistory(tracked: TrackedArb, expired: ExpiredArb): Promise<void> {
+  if (tracked.historyId === null) return
+  try {
+    await db.query(`
+      UPDATE arbitrage_history
+      SET expired_at = to_timestamp($2 / 1000.0),
+          lifespan_ms = $3,
+          max_profit = $4,
+          last_profit = $5,
+          last_seen_at = to_timestamp($6 / 1000.0),
+          expire_reason = $7
+      WHERE id = $1
+    `, [
+      tracked.historyId,
+      expired.expiredAt,
+      expired.lifespanMs,
+      expired.maxProfit,
+      profitOf(tracked.arb),
+      tracked.lastSeen,
+      expired.reason
+    ])
+  } catch (err) {
+    console.error('[LIFECYCLE] Failed to close arbitrage:', err)
+  }
+}
+
+/**
+ * Update lifecycles from one poll.
+ * `qualifying` are the arbs over the threshold, `scanned` every arb the scan
+ * priced (including sub-threshold ones) so a shrinking arb can be told apart
+ * from one that vanished. Returns the arbs that expired on this poll.
+ */
+export async function trackArbitrages(
+  qualifying: ArbitrageOpportunity[],
+  scanned: ArbitrageOpportunity[],
+  now = Date.now(),
+  persist = true
+): Promise<ExpiredArb[]> {
+  const current = new Set(qualifying.map(arb => arb.id))
+  const priced = new Set(scanned.map(arb => arb.id))
+
+  for (const arb of qualifying) {
+    const tracked = active.get(arb.id)
+    if (tracked) {
+      tracked.arb = arb
+      tracked.lastSeen = now
+      tracked.maxProfit = Math.max(tracked.maxProfit, profitOf(arb))
+      continue
+    }
+
+    // Claim the id before the insert so an overlapping poll can't open it twice
+    const opened: TrackedArb = { arb, historyId: null, firstSeen: now, lastSeen: now, maxProfit: profitOf(arb) }
+    active.set(arb.id, opened)
+    if (persist) opened.historyId = await openHistory(arb, now)
+  }
+
+  const expired: ExpiredArb[] = []
+  for (const [id, tracked] of active) {
+    if (current.has(id)) continue
+    active.delete(id)
+
+    const lifecycle: ExpiredArb = {
+      arb: tracked.arb,
+      firstSeen: tracked.firstSeen,
+      expiredAt: now,
+      lifespanMs: now - tracked.firstSeen,
+      maxProfit: tracked.maxProfit,
+      reason: priced.has(id) ? 'below_threshold' : 'gone'
+    }
+    expired.push(lifecycle)
+    if (persist) await closeHistory(tracked, lifecycle)
+  }
+
+  return expired
+}
+
+export function getActiveLifecycleCount(): number {
+  return active.size
+}
+
+/**
+ * How long closed arbs survived, per sport and book pair
+ */
+export async function getSurvivalStats(options: {
+  sport?: string
+  books?: string[]
+  days?: number
+} = {}): Promise<SurvivalStats[]> {
+  const { sport, books, days = 30 } = options
+  try {
+    const result = await db.query(`
+      SELECT sport, books,
+             COUNT(*) AS arbs,
+             AVG(lifespan_ms) AS avg_lifespan_ms,
+             percentile_cont(0.5) WITHIN GROUP (ORDER BY lifespan_ms) AS median_lifespan_ms,
+             percentile_cont(0.9) WITHIN GROUP (ORDER BY lifespan_ms) AS p90_lifespan_ms,
+             AVG(max_profit) AS avg_max_profit,
+             AVG(CASE WHEN expire_reason = 'below_threshold' THEN 100 ELSE 0 END) AS below_threshold_pct
+      FROM arbitrage_history
+      WHERE expired_at IS NOT NULL
+        AND books IS NOT NULL
+        AND detected_at > NOW() - make_interval(days => $1)
+        AND ($2::text IS NULL OR sport = $2)
+        AND ($3::text IS NULL OR books = $3)
+      GROUP BY sport, books
+      ORDER BY COUNT(*) DESC
+    `, [days, sport || null, books?.length ? bookPairKey(books) : null])
+
+    return result.rows.map(row => ({
+      sport: row.sport,
+      books: row.books,
+      arbs: Number(row.arbs),
+      avgLifespanMs: Math.round(Number(row.avg_lifespan_ms)),
+      medianLifespanMs: Math.round(Number(row.median_lifespan_ms)),
+      p90LifespanMs: Math.round(Number(row.p90_lifespan_ms)),
+      avgMaxProfit: Math.round(Number(row.avg_max_profit) * 100) / 100,
+      belowThresholdPct: Math.round(Number(row.below_threshold_pct) * 10) / 10
+    }))
+  } catch (err) {
+    console.error('[LIFECYCLE] Failed to query survival stats:', err)
+    return []
+  }
+}
+
+export default {
+  bookPairKey,
+  trackArbitrages,
+  getActiveLifecycleCount,
+  getSurvivalStats
+}
@@ -5,10 +5,29 @@
  * Detects arbitrage opportunities within milliseconds of receiving new odds
  */
 
+import {
+  outcomeProbabilities,
+  propOutcomeProbabilities,
+  getDistribution,
+  getPropDistribution,
+  type DistributionMarket
+} from './outcome-distribution.js'
+
+// Outcome price fields on a quote
+export type PriceField =
+  | 'homeOdds'
+  | 'awayOdds'
+  | 'drawOdds'
+  | 'spreadHomeOdds'
+  | 'spreadAwayOdds'
+  | 'overOdds'
+  | 'underOdds'
+
 export interface BookOdds {
   bookmaker: string
   homeOdds: number      // American odds for home team
   awayOdds: number      // American odds for away team
+  drawOdds?: number     // Three-way moneyline only (soccer 1X2, hockey regulation)
   homeSpread?: number
   awaySpread?: number
   spreadHomeOdds?: number
@@ -16,7 +35,15 @@ export interface BookOdds {
   totalLine?: number
   overOdds?: number
   underOdds?: number
-  timestamp: number     // When these odds were captured
+  timestamp: number     // When the book last changed these prices (provider last_update)
+  fetchedAt?: number    // When we last fetched them (snapshots keep the original)
+  updated?: Partial<Record<GameMarket, number>>      // Per-market last_update, when the provider gives one
+  source?: string       // Provider that supplied the quote
+  stale?: boolean       // Served from a snapshot while the provider is down
+  // Exchanges only
+  lay?: Partial<Record<PriceField, number>>          // Lay price per outcome (American)
+  available?: Partial<Record<PriceField, number>>    // $ that can be backed at the quoted price
+  layAvailable?: Partial<Record<PriceField, number>> // Backer's stake $ that can be laid at the lay price
 }
 
 export interface NormalizedOdds {
@@ -27,34 +54,249 @@ export interface NormalizedOdds {
   sport: string
   startTime: string
   books: BookOdds[]
+  isLive?: boolean      // Event has started - in-play prices
+  stale?: boolean       // Every book served from a snapshot
+}
+
+// One book's over/under on a player prop line
+export interface PropBookOdds {
+  bookmaker: string
+  line: number
+  overOdds?: number
+  underOdds?: number
+  timestamp: number     // Provider last_update
+  fetchedAt?: number    // When we last fetched it
+  source?: string
+}
+
+// One player's market on a game, every book's lines
+export interface NormalizedProp {
+  propId: string        // Stable: game, market and normalized player
+  gameId: string
+  game: string
+  homeTeam: string
+  awayTeam: string
+  sport: string
+  startTime: string
+  player: string        // Display name as first quoted
+  playerKey: string     // Normalized name the books were matched on
+  market: string        // Provider market key, e.g. player_points
+  books: PropBookOdds[] // One per book and line
+  isLive?: boolean
+}
+
+// Futures / outright market: one price per runner per book
+export interface OutrightBook {
+  bookmaker: string
+  prices: Record<string, number>   // Runner -> American odds
+  timestamp: number
+}
+
+export interface OutrightMarket {
+  marketId: string
+  sport: string
+  name: string          // e.g. "NBA Championship Winner"
+  books: OutrightBook[]
+}
+
+// One bet of an arbitrage - one per mutually exclusive outcome
+export interface ArbLeg {
+  book: string
+  bet: string
+  odds: number          // American odds as quoted (the lay price for lay legs)
+  stake: number         // Percentage of total stake (liability for lay legs)
+  decimalOdds: number   // Effective: net of commission, lay legs as their back equivalent
+  side?: 'lay'          // Laying the other outcome on an exchange covers this one
+  layStake?: number     // Lay legs: backer's stake to enter, % of total stake
+  commission?: number   // Rate charged on net winnings, when the book charges one
+  maxStake?: number     // $ the quoted size lets you stake on this leg
+}
+
+// Opposite sides at different lines - both win if the result lands between them
+export interface MiddleDetails {
+  market: 'spread' | 'total' | 'prop'
+  window: { from: number; to: number }  // Whole-point results that beat the worst case (home margin, total or stat)
+  label: string         // e.g. "Celtics by 4 to Celtics by 6", "Total 222-223"
+  worstCase: number     // % of total stake when only one side wins
+  bestCase: number      // % of total stake when both sides win
+  hitProbability: number // % chance the result lands in the window
+  expectedValue: number // % of total stake under the sport's outcome distribution
+  mean: number          // Market-implied centre of the distribution
+  stdDev: number
+}
+
+// Player prop an arb or middle is on
+export interface PropDetails {
+  player: string
+  market: string        // e.g. player_points
+  line: number          // Over line on a middle
+  underLine?: number    // Middles only
 }
 
 export interface ArbitrageOpportunity {
   id: string
-  type: 'moneyline' | 'spread' | 'total' | 'prop'
+  type: 'moneyline' | 'spread' | 'total' | 'prop' | 'outright' | 'middle'
   game: string
   gameId: string
   sport: string
   profit: number        // Percentage profit (e.g., 2.5 = 2.5%)
-  book1: {
-    name: string
-    bet: string
-    odds: number
-    stake: number       // Percentage of total stake
-    decimalOdds: number
-  }
-  book2: {
-    name: string
-    bet: string
-    odds: number
-    stake: number
-    decimalOdds: number
-  }
+  margin: number        // 1 - combined implied probability (%)
+  legs: ArbLeg[]        // Two for two-way markets, three for 1X2, N for outrights
+  middle?: MiddleDetails // Only on type 'middle'; profit is then the worst case
+  prop?: PropDetails    // Type 'prop', and middles on a player prop
   totalImplied: number  // Combined implied probability
+  quoteAgeMs: number    // Age of the oldest quote in the arb
+  quoteConfidence: number // 0-100, decays as quotes approach their max age
+  staleBooks: string[]  // Books past max age (only non-empty in 'flag' mode)
+  isLive: boolean       // Found on in-play prices
+  liquidity?: number    // Largest total stake ($) the quoted sizes absorb, when any leg is sized
   detectedAt: number    // Timestamp of detection
   expiresAt: number     // Estimated expiry (odds likely to change)
 }
 
+// How long an arb is assumed to survive before the prices move
+const PREGAME_ARB_TTL = 30000
+const LIVE_ARB_TTL = 5000
+
+/**
+ * Stable id: the same market, line and books get the same id every poll,
+ * so dedupe and clients can follow one opportunity over time
+ */
+function arbId(key: string, legs: ArbLeg[]): string {
+  const books = Array.from(new Set(legs.map(leg => leg.book)))
+  return `${key}-${books.join('-')}`
+}
+
+// Detection time is the scan's `now`, so replays stamp recorded time
+function arbTiming(
+  game: Pick<NormalizedOdds, 'isLive'>,
+  now: number
+): Pick<ArbitrageOpportunity, 'isLive' | 'detectedAt' | 'expiresAt'> {
+  return {
+    isLive: !!game.isLive,
+    detectedAt: now,
+    expiresAt: now + (game.isLive ? LIVE_ARB_TTL : PREGAME_ARB_TTL)
+  }
+}
+
+// ============================================
+// STALE QUOTE DETECTION
+// ============================================
+
+export type QuoteMarket = 'moneyline' | 'spread' | 'total' | 'prop'
+export type GameMarket = Exclude<QuoteMarket, 'prop'>
+
+// Fields each game market reads off a quote, and the price fields among them
+export const GAME_MARKET_FIELDS: Record<GameMarket, (keyof BookOdds)[]> = {
+  moneyline: ['homeOdds', 'awayOdds', 'drawOdds'],
+  spread: ['homeSpread', 'awaySpread', 'spreadHomeOdds', 'spreadAwayOdds'],
+  total: ['totalLine', 'overOdds', 'underOdds']
+}
+
+export const GAME_MARKET_PRICES: Record<GameMarket, PriceField[]> = {
+  moneyline: ['homeOdds', 'awayOdds', 'drawOdds'],
+  spread: ['spreadHomeOdds', 'spreadAwayOdds'],
+  total: ['overOdds', 'underOdds']
+}
+
+// Max quote age (ms) per sport and market before a book is considered frozen
+const DEFAULT_MAX_QUOTE_AGE = 60000
+// Props are polled far less often than game lines
+const PROP_MAX_QUOTE_AGE = parseInt(process.env.PROP_MAX_QUOTE_AGE_MS || '900000')
+// In-play prices move in seconds regardless of sport
+const LIVE_MAX_QUOTE_AGE = parseInt(process.env.LIVE_MAX_QUOTE_AGE_MS || '10000')
+const MAX_QUOTE_AGE: Record<string, Partial<Record<QuoteMarket, number>>> = {
+  nfl: { moneyline: 120000, spread: 90000, total: 90000 },
+  nba: { moneyline: 60000, spread: 45000, total: 45000 },
+  mlb: { moneyline: 90000, spread: 120000, total: 90000 },
+  nhl: { moneyline: 90000, spread: 120000, total: 90000 }
+}
+
+// Bumped by every detection setter, so cached results know to re-solve
+let settingsVersion = 0
+
+export function getSettingsVersion(): number {
+  return settingsVersion
+}
+
+// 'exclude' drops stale quotes before detection, 'flag' keeps them and marks the arb
+let staleQuoteMode: 'exclude' | 'flag' = process.env.STALE_QUOTE_MODE === 'flag' ? 'flag' : 'exclude'
+
+export function getMaxQuoteAge(sport: string, market: QuoteMarket, live = false): number {
+  const pregame = MAX_QUOTE_AGE[sport]?.[market] ?? (market === 'prop' ? PROP_MAX_QUOTE_AGE : DEFAULT_MAX_QUOTE_AGE)
+  return live ? Math.min(pregame, LIVE_MAX_QUOTE_AGE) : pregame
+}
+
+export function setMaxQuoteAge(sport: string, market: QuoteMarket, maxAgeMs: number): void {
+  MAX_QUOTE_AGE[sport] = { ...MAX_QUOTE_AGE[sport], [market]: maxAgeMs }
+  settingsVersion++
+}
+
+export function setStaleQuoteMode(mode: 'exclude' | 'flag'): void {
+  staleQuoteMode = mode
+  settingsVersion++
+}
+
+type AgedQuote = Pick<BookOdds, 'timestamp' | 'fetchedAt' | 'updated'>
+
+/**
+ * How old a quote is: since the book last moved the market (its own update
+ * time when the provider gives one), or since we fetched it if that is
+ * longer ago - a snapshot served while the provider is down keeps ageing.
+ */
+export function quoteAge(book: AgedQuote, now = Date.now(), market?: QuoteMarket): number {
+  const updated = market && market !== 'prop' ? book.updated?.[market] ?? book.timestamp : book.timestamp
+  const fetched = book.fetchedAt !== undefined ? now - book.fetchedAt : 0
+  return Math.max(0, now - updated, fetched)
+}
+
+export function isStaleQuote(
+  book: AgedQuote,
+  sport: string,
+  market: QuoteMarket,
+  now = Date.now(),
+  live = false
+): boolean {
+  return quoteAge(book, now, market) > getMaxQuoteAge(sport, market, live)
+}
+
+/**
+ * Books eligible for detection in a market
+ */
+export function usableBooks(game: NormalizedOdds, market: QuoteMarket, now: number): BookOdds[] {
+  if (staleQuoteMode === 'flag') return game.books
+  return game.books.filter(book => !isStaleQuote(book, game.sport, market, now, game.isLive))
+}
+
+/**
+ * Confidence (0-100) in a quote this old: 100 when fresh, falling
+ * linearly to 0 at max age
+ */
+export function quoteConfidence(ageMs: number, maxAgeMs: number): number {
+  return Math.round(Math.max(0, 1 - ageMs / maxAgeMs) * 100)
+}
+
+/**
+ * Quote-age confidence for the books behind an arb.
+ * The arb is only as trustworthy as its oldest leg.
+ */
+function scoreQuotes(
+  books: (AgedQuote & Pick<BookOdds, 'bookmaker'>)[],
+  game: Pick<NormalizedOdds, 'sport' | 'isLive'>,
+  market: QuoteMarket,
+  now: number
+): Pick<ArbitrageOpportunity, 'quoteAgeMs' | 'quoteConfidence' | 'staleBooks'> {
+  const maxAge = getMaxQuoteAge(game.sport, market, game.isLive)
+  const ages = books.map(book => quoteAge(book, now, market))
+  const oldest = Math.max(...ages)
+
+  return {
+    quoteAgeMs: oldest,
+    quoteConfidence: quoteConfidence(oldest, maxAge),
+    staleBooks: books.filter((_, i) => ages[i] > maxAge).map(book => book.bookmaker)
+  }
+}
+
 // Convert American odds to decimal
 export function americanToDecimal(odds: number): number {
   if (odds > 0) {
@@ -68,6 +310,69 @@ export function impliedProbability(decimal: number): number {
   return 1 / decimal
 }
 
+// ============================================
+// EXCHANGE COMMISSION
+// ============================================
+
+// Commission on net winnings per book (0.05 = 5%). Sportsbooks charge none.
+// Override with BOOK_COMMISSIONS, e.g. {"betfair_ex_uk":0.02,"prophetx":0.01}
+const BOOK_COMMISSION: Record<string, number> = {
+  betfair_ex_uk: 0.05,
+  betfair_ex_eu: 0.05,
+  betfair_ex_au: 0.05,
+  matchbook: 0.02,
+  smarkets: 0.02
+}
+
+try {
+  Object.assign(BOOK_COMMISSION, JSON.parse(process.env.BOOK_COMMISSIONS || '{}'))
+} catch (err: any) {
+  console.error('[ARB ENGINE] Invalid BOOK_COMMISSIONS, using defaults:', err.message)
+}
+
+export function getCommission(book: string): number {
+  return BOOK_COMMISSION[book] ?? 0
+}
+
+export function setCommission(book: string, rate: number): void {
+  BOOK_COMMISSION[book] = rate
+  settingsVersion++
+}
+
+// Decimal odds after commission is taken from the winnings
+export function netDecimal(odds: number, commission = 0): number {
+  return 1 + (americanToDecimal(odds) - 1) * (1 - commission)
+}
+
+// Laying at `odds` risks (decimal - 1) per $1 of backer's stake and wins that
+// $1 less commission when the selection loses - a back bet on "not it"
+export function layToBackDecimal(odds: number, commission = 0): number {
+  return 1 + (1 - commission) / (americanToDecimal(odds) - 1)
+}
+
+// Solve an N-outcome market from the best decimal price on each outcome.
+// Staking each leg in proportion to its implied probability pays the same
+// on every outcome; the book is beaten when the implied total is under 1.
+export function solveArbitrage(decimals: number[]): {
+  isArbitrage: boolean
+  profit: number        // Guaranteed return on total stake (%)
+  margin: number        // 1 - total implied probability (%)
+  stakes: number[]      // Percentage of total stake per leg
+  totalImplied: number  // Combined implied probability (%)
+} {
+  const implied = decimals.map(impliedProbability)
+  const totalImplied = implied.reduce((sum, p) => sum + p, 0)
+  const isArbitrage = decimals.length >= 2 && totalImplied < 1
+
+  return {
+    isArbitrage,
+    profit: isArbitrage ? Math.round(((1 / totalImplied) - 1) * 10000) / 100 : 0,
+    margin: Math.round((1 - totalImplied) * 10000) / 100,
+    stakes: isArbitrage ? implied.map(p => Math.round((p / totalImplied) * 10000) / 100) : implied.map(() => 0),
+    totalImplied: Math.round(totalImplied * 10000) / 100
+  }
+}
+
 // Calculate arbitrage from two decimal odds
 export function calculateArbitrage(decimal1: number, decimal2: number): {
   isArbitrage: boolean
@@ -76,27 +381,164 @@ export function calculateArbitrage(decimal1: number, decimal2: number): {
   stake2Pct: number
   totalImplied: number
 } {
-  const imp1 = impliedProbability(decimal1)
-  const imp2 = impliedProbability(decimal2)
-  const totalImplied = imp1 + imp2
+  const result = solveArbitrage([decimal1, decimal2])
+  return {
+    isArbitrage: result.isArbitrage,
+    profit: result.profit,
+    stake1Pct: result.stakes[0],
+    stake2Pct: result.stakes[1],
+    totalImplied: result.totalImplied
+  }
+}
 
-  if (totalImplied < 1) {
-    const profit = ((1 / totalImplied) - 1) * 100
-    return {
-      isArbitrage: true,
-      profit: Math.round(profit * 100) / 100,
-      stake1Pct: Math.round((imp1 / totalImplied) * 10000) / 100,
-      stake2Pct: Math.round((imp2 / totalImplied) * 10000) / 100,
-      totalImplied: Math.round(totalImplied * 10000) / 100
+/**
+ * One mutually exclusive outcome and how to read its price off a quote
+ */
+interface OutcomeSpec<Q> {
+  bet: string
+  price: (quote: Q) => number | undefined
+  size?: (quote: Q) => number | undefined       // $ available at the back price
+  // Two-way markets: laying the other outcome on an exchange covers this one
+  lay?: { bet: string; price: (quote: Q) => number | undefined; size?: (quote: Q) => number | undefined }
+}
+
+interface BestPrice<Q> {
+  bet: string
+  book: string
+  american: number
+  decimal: number       // Effective (net of commission)
+  side?: 'lay'
+  commission: number
+  maxStake?: number     // $ of this leg's stake the quoted size allows
+  quote: Q
+}
+
+/**
+ * Spec for an outcome priced on a BookOdds field, coverable by laying `opposite`
+ */
+function quoteOutcome(
+  bet: string,
+  field: PriceField,
+  opposite?: { bet: string; field: PriceField }
+): OutcomeSpec<BookOdds> {
+  return {
+    bet,
+    price: b => b[field],
+    size: b => b.available?.[field],
+    lay: opposite && {
+      bet: `Lay ${opposite.bet}`,
+      price: b => b.lay?.[opposite.field],
+      size: b => b.layAvailable?.[opposite.field]
     }
   }
+}
+
+/**
+ * O(n * k) best effective price per outcome across books, backs and lays.
+ * Returns null when any outcome has no price, or every leg is the same book.
+ */
+function findBestPrices<Q extends { bookmaker: string }>(
+  quotes: Q[],
+  outcomes: OutcomeSpec<Q>[]
+): BestPrice<Q>[] | null {
+  const best: (BestPrice<Q> | null)[] = outcomes.map(() => null)
+
+  const consider = (i: number, candidate: BestPrice<Q>) => {
+    if (!best[i] || candidate.decimal > best[i]!.decimal) best[i] = candidate
+  }
+
+  for (const quote of quotes) {
+    const commission = getCommission(quote.bookmaker)
+
+    outcomes.forEach((outcome, i) => {
+      const american = outcome.price(quote)
+      if (american) {
+        consider(i, {
+          bet: outcome.bet,
+          book: quote.bookmaker,
+          american,
+          decimal: netDecimal(american, commission),
+          commission,
+          maxStake: outcome.size?.(quote),
+          quote
+        })
+      }
+
+      const layOdds = outcome.lay?.price(quote)
+      if (layOdds) {
+        // Size is quoted in backer's stake; what we stake is the liability
+        const laySize = outcome.lay!.size?.(quote)
+        consider(i, {
+          bet: outcome.lay!.bet,
+          book: quote.bookmaker,
+          american: layOdds,
+          decimal: layToBackDecimal(layOdds, commission),
+          side: 'lay',
+          commission,
+          maxStake: laySize !== undefined ? laySize * (americanToDecimal(layOdds) - 1) : undefined,
+          quote
+        })
+      }
+    })
+  }
+
+  if (best.some(b => b === null)) return null
+
+  const legs = best as BestPrice<Q>[]
+  if (legs.every(leg => leg.book === legs[0].book)) return null // One book can't be arbed against itself
+  return legs
+}
+
+/**
+ * Largest total stake every sized leg can take at its share
+ */
+function legLiquidity(legs: Pick<ArbLeg, 'stake' | 'maxStake'>[]): number | undefined {
+  const caps = legs
+    .filter(leg => leg.maxStake !== undefined && leg.stake > 0)
+    .map(leg => leg.maxStake! / (leg.stake / 100))
+  return caps.length > 0 ? Math.floor(Math.min(...caps) * 100) / 100 : undefined
+}
+
+/**
+ * Leg as reported on an opportunity, with the exchange-only fields when they apply
+ */
+function toArbLeg(
+  price: Pick<BestPrice<unknown>, 'book' | 'bet' | 'american' | 'decimal' | 'side' | 'commission' | 'maxStake'>,
+  stake: number
+): ArbLeg {
+  const leg: ArbLeg = {
+    book: price.book,
+    bet: price.bet,
+    odds: price.american,
+    stake,
+    decimalOdds: price.decimal
+  }
+  if (price.side === 'lay') {
+    leg.side = 'lay'
+    leg.layStake = Math.round((stake / (americanToDecimal(price.american) - 1)) * 100) / 100
+  }
+  if (price.commission > 0) leg.commission = price.commission
+  if (price.maxStake !== undefined) leg.maxStake = price.maxStake
+  return leg
+}
 
+/**
+ * Solve best prices into an opportunity (without quote scoring and timing)
+ */
+function solveLegs<Q>(
+  legs: BestPrice<Q>[],
+  minProfit: number
+): Pick<ArbitrageOpportunity, 'profit' | 'margin' | 'legs' | 'totalImplied' | 'liquidity'> | null {
+  const result = solveArbitrage(legs.map(leg => leg.decimal))
+  if (!result.isArbitrage || result.profit < minProfit) return null
+
+  const arbLegs = legs.map((leg, i) => toArbLeg(leg, result.stakes[i]))
   return {
-    isArbitrage: false,
-    profit: 0,
-    stake1Pct: 0,
-    stake2Pct: 0,
-    totalImplied: Math.round(totalImplied * 10000) / 100
+    profit: result.profit,
+    margin: result.margin,
+    legs: arbLegs,
+    totalImplied: result.totalImplied,
+    liquidity: legLiquidity(arbLegs)
   }
 }
 
@@ -104,95 +546,79 @@ export function calculateArbitrage(decimal1: number, decimal2: number): {
  * O(n) Arbitrage Detection
  *
  * Instead of comparing every book pair (O(n²)), we:
- * 1. Track the best home odds and best away odds in single pass
- * 2. Only check if best home + best away creates arbitrage
+ * 1. Track the best price for each outcome in a single pass
+ * 2. Only check if the best prices together create arbitrage
  *
- * This reduces comparisons from n*(n-1) to just 2n
+ * This reduces comparisons from n*(n-1) to just n per outcome.
+ * Books quoting a draw are solved as a three-way market, never mixed
+ * with two-way prices.
  */
 export function detectMoneylineArbitrage(
   game: NormalizedOdds,
-  minProfit = 0
-): ArbitrageOpportunity | null {
-  if (game.books.length < 2) return null
-
-  // Track best odds for each side
-  let bestHome = { book: '', odds: -Infinity, decimal: 0, american: 0 }
-  let bestAway = { book: '', odds: -Infinity, decimal: 0, american: 0 }
-
-  // Single pass O(n)
-  for (const book of game.books) {
-    if (!book.homeOdds || !book.awayOdds) continue
-
-    const homeDecimal = americanToDecimal(book.homeOdds)
-    const awayDecimal = americanToDecimal(book.awayOdds)
+  minProfit = 0,
+  now = Date.now()
+): ArbitrageOpportunity[] {
+  const books = usableBooks(game, 'moneyline', now)
+  const homeBet = `${game.homeTeam} ML`
+  const awayBet = `${game.awayTeam} ML`
 
-    if (homeDecimal > bestHome.decimal) {
-      bestHome = {
-        book: book.bookmaker,
-        odds: homeDecimal,
-        decimal: homeDecimal,
-        american: book.homeOdds
-      }
+  // Lays only cover the other side of a two-way market
+  const markets = [
+    {
+      suffix: 'ml',
+      quotes: books.filter(b => !b.drawOdds),
+      outcomes: [
+        quoteOutcome(homeBet, 'homeOdds', { bet: awayBet, field: 'awayOdds' }),
+        quoteOutcome(awayBet, 'awayOdds', { bet: homeBet, field: 'homeOdds' })
+      ]
+    },
+    {
+      suffix: 'ml3',
+      quotes: books.filter(b => !!b.drawOdds),
+      outcomes: [
+        quoteOutcome(homeBet, 'homeOdds'),
+        quoteOutcome('Draw', 'drawOdds'),
+        quoteOutcome(awayBet, 'awayOdds')
+      ]
     }
+  ]
 
-    if (awayDecimal > bestAway.decimal) {
-      bestAway = {
-        book: book.bookmaker,
-        odds: awayDecimal,
-        decimal: awayDecimal,
-        american: book.awayOdds
-      }
-    }
-  }
+  const opportunities: ArbitrageOpportunity[] = []
 
-  // Check for arbitrage
-  if (bestHome.book === bestAway.book) return null // Same book, no arb
-  if (bestHome.decimal === 0 || bestAway.decimal === 0) return null
+  for (const market of markets) {
+    if (market.quotes.length < 2) continue
 
-  const result = calculateArbitrage(bestHome.decimal, bestAway.decimal)
+    const prices = findBestPrices(market.quotes, market.outcomes)
+    const solved = prices && solveLegs(prices, minProfit)
+    if (!solved) continue
 
-  if (result.isArbitrage && result.profit >= minProfit) {
-    return {
-      id: `${game.gameId}-ml-${Date.now()}`,
+    opportunities.push({
+      id: arbId(`${game.gameId}-${market.suffix}`, solved.legs),
       type: 'moneyline',
       game: game.game,
       gameId: game.gameId,
       sport: game.sport,
-      profit: result.profit,
-      book1: {
-        name: bestHome.book,
-        bet: `${game.homeTeam} ML`,
-        odds: bestHome.american,
-        stake: result.stake1Pct,
-        decimalOdds: bestHome.decimal
-      },
-      book2: {
-        name: bestAway.book,
-        bet: `${game.awayTeam} ML`,
-        odds: bestAway.american,
-        stake: result.stake2Pct,
-        decimalOdds: bestAway.decimal
-      },
-      totalImplied: result.totalImplied,
-      detectedAt: Date.now(),
-      expiresAt: Date.now() + 30000 // Assume 30s validity
-    }
+      ...solved,
+      ...scoreQuotes(prices!.map(p => p.quote), game, 'moneyline', now),
+      ...arbTiming(game, now)
+    })
   }
 
-  return null
+  return opportunities
 }
 
 /**
- * Detect spread arbitrage (same spread, different odds)
+ * Detect spread arbitrage (same spread, different odds) - one per line
  */
 export function detectSpreadArbitrage(
   game: NormalizedOdds,
-  minProfit = 0
-): ArbitrageOpportunity | null {
+  minProfit = 0,
+  now = Date.now()
+): ArbitrageOpportunity[] {
   // Group books by spread line
   const spreadGroups = new Map<number, BookOdds[]>()
 
-  for (const book of game.books) {
+  for (const book of usableBooks(game, 'spread', now)) {
     if (book.homeSpread === undefined || !book.spreadHomeOdds || !book.spreadAwayOdds) continue
 
     const spread = book.homeSpread
@@ -202,72 +628,49 @@ export function detectSpreadArbitrage(
     spreadGroups.get(spread)!.push(book)
   }
 
+  const opportunities: ArbitrageOpportunity[] = []
+
   // Check each spread group for arbitrage
   for (const [spread, books] of spreadGroups) {
     if (books.length < 2) continue
 
-    let bestHomeSpread = { book: '', decimal: 0, american: 0 }
-    let bestAwaySpread = { book: '', decimal: 0, american: 0 }
-
-    for (const book of books) {
-      const homeDecimal = americanToDecimal(book.spreadHomeOdds!)
-      const awayDecimal = americanToDecimal(book.spreadAwayOdds!)
-
-      if (homeDecimal > bestHomeSpread.decimal) {
-        bestHomeSpread = { book: book.bookmaker, decimal: homeDecimal, american: book.spreadHomeOdds! }
-      }
-      if (awayDecimal > bestAwaySpread.decimal) {
-        bestAwaySpread = { book: book.bookmaker, decimal: awayDecimal, american: book.spreadAwayOdds! }
-      }
-    }
+    const homeBet = `${game.homeTeam} ${spread > 0 ? '+' : ''}${spread}`
+    const awayBet = `${game.awayTeam} ${-spread > 0 ? '+' : ''}${-spread}`
+    const prices = findBestPrices(books, [
+      quoteOutcome(homeBet, 'spreadHomeOdds', { bet: awayBet, field: 'spreadAwayOdds' }),
+      quoteOutcome(awayBet, 'spreadAwayOdds', { bet: homeBet, field: 'spreadHomeOdds' })
+    ])
+    const solved = prices && solveLegs(prices, minProfit)
 
-    if (bestHomeSpread.book === bestAwaySpread.book) continue
-
-    const result = calculateArbitrage(bestHomeSpread.decimal, bestAwaySpread.decimal)
-
-    if (result.isArbitrage && result.profit >= minProfit) {
-      return {
-        id: `${game.gameId}-spread-${spread}-${Date.now()}`,
+    if (solved) {
+      opportunities.push({
+        id: arbId(`${game.gameId}-spread-${spread}`, solved.legs),
         type: 'spread',
         game: game.game,
         gameId: game.gameId,
         sport: game.sport,
-        profit: result.profit,
-        book1: {
-          name: bestHomeSpread.book,
-          bet: `${game.homeTeam} ${spread > 0 ? '+' : ''}${spread}`,
-          odds: bestHomeSpread.american,
-          stake: result.stake1Pct,
-          decimalOdds: bestHomeSpread.decimal
-        },
-        book2: {
-          name: bestAwaySpread.book,
-          bet: `${game.awayTeam} ${-spread > 0 ? '+' : ''}${-spread}`,
-          odds: bestAwaySpread.american,
-          stake: result.stake2Pct,
-          decimalOdds: bestAwaySpread.decimal
-        },
-        totalImplied: result.totalImplied,
-        detectedAt: Date.now(),
-        expiresAt: Date.now() + 30000
-      }
+        ...solved,
+        ...scoreQuotes(prices!.map(p => p.quote), game, 'spread', now),
+        ...arbTiming(game, now)
+      })
     }
   }
 
-  return null
+  return opportunities
 }
 
 /**
- * Detect totals (over/under) arbitrage
+ * Detect totals (over/under) arbitrage - one per line
  */
 export function detectTotalsArbitrage(
   game: NormalizedOdds,
-  minProfit = 0
-): ArbitrageOpportunity | null {
+  minProfit = 0,
+  now = Date.now()
+): ArbitrageOpportunity[] {
   // Group books by total line
   const totalGroups = new Map<number, BookOdds[]>()
 
-  for (const book of game.books) {
+  for (const book of usableBooks(game, 'total', now)) {
     if (book.totalLine === undefined || !book.overOdds || !book.underOdds) continue
 
     const total = book.totalLine
@@ -277,86 +680,449 @@ export function detectTotalsArbitrage(
     totalGroups.get(total)!.push(book)
   }
 
+  const opportunities: ArbitrageOpportunity[] = []
+
   for (const [total, books] of totalGroups) {
     if (books.length < 2) continue
 
-    let bestOver = { book: '', decimal: 0, american: 0 }
-    let bestUnder = { book: '', decimal: 0, american: 0 }
+    const prices = findBestPrices(books, [
+      quoteOutcome(`Over ${total}`, 'overOdds', { bet: `Under ${total}`, field: 'underOdds' }),
+      quoteOutcome(`Under ${total}`, 'underOdds', { bet: `Over ${total}`, field: 'overOdds' })
+    ])
+    const solved = prices && solveLegs(prices, minProfit)
+
+    if (solved) {
+      opportunities.push({
+        id: arbId(`${game.gameId}-total-${total}`, solved.legs),
+        type: 'total',
+        game: game.game,
+        gameId: game.gameId,
+        sport: game.sport,
+        ...solved,
+        ...scoreQuotes(prices!.map(p => p.quote), game, 'total', now),
+        ...arbTiming(game, now)
+      })
+    }
+  }
 
-    for (const book of books) {
-      const overDecimal = americanToDecimal(book.overOdds!)
-      const underDecimal = americanToDecimal(book.underOdds!)
+  return opportunities
+}
 
-      if (overDecimal > bestOver.decimal) {
-        bestOver = { book: book.bookmaker, decimal: overDecimal, american: book.overOdds! }
-      }
-      if (underDecimal > bestUnder.decimal) {
-        bestUnder = { book: book.bookmaker, decimal: underDecimal, american: book.underOdds! }
-      }
+/**
+ * Detect arbitrage on a futures / outright market (N runners).
+ * Every runner quoted anywhere must be covered, so a runner no usable book
+ * prices means no arb.
+ */
+export function detectOutrightArbitrage(
+  market: OutrightMarket,
+  minProfit = 0,
+  now = Date.now()
+): ArbitrageOpportunity | null {
+  const maxAge = getMaxQuoteAge(market.sport, 'moneyline')
+  const books = staleQuoteMode === 'flag'
+    ? market.books
+    : market.books.filter(book => now - book.timestamp <= maxAge)
+  if (books.length < 2) return null
+
+  const runners = new Set<string>()
+  for (const book of market.books) {
+    for (const runner of Object.keys(book.prices)) runners.add(runner)
+  }
+
+  const prices = findBestPrices(books, Array.from(runners).map(runner => ({
+    bet: runner,
+    price: (book: OutrightBook) => book.prices[runner]
+  })))
+  const solved = prices && solveLegs(prices, minProfit)
+  if (!solved) return null
+
+  return {
+    id: arbId(`${market.marketId}-outright`, solved.legs),
+    type: 'outright',
+    game: market.name,
+    gameId: market.marketId,
+    sport: market.sport,
+    ...solved,
+    ...scoreQuotes(prices!.map(p => p.quote), { sport: market.sport }, 'moneyline', now),
+    ...arbTiming({ isLive: false }, now)
+  }
+}
+
+// ============================================
+// MIDDLES
+// ============================================
+
+// Middles are kept on expected value, as long as the worst case stays bounded
+const MIDDLE_MIN_EV = parseFloat(process.env.MIDDLE_MIN_EV || '0.5')
+const MIDDLE_MAX_LOSS = parseFloat(process.env.MIDDLE_MAX_LOSS || '5')
+
+/**
+ * One side of a middle: wins when the result is above (home / over) or
+ * below (away / under) its threshold, pushes on it
+ */
+interface MiddleSide {
+  quote: AgedQuote & Pick<BookOdds, 'bookmaker'>
+  bet: string
+  threshold: number
+  american: number
+  size?: number         // $ available (exchanges)
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/**
+ * Price a pair staked to pay the same when only one side wins.
+ * Outside the window exactly one side wins, so the worst case is fixed and
+ * EV only needs the window's probabilities.
+ */
+function evaluateMiddle(
+  above: MiddleSide,
+  below: MiddleSide,
+  probabilities: Map<number, number>
+): Omit<MiddleDetails, 'market' | 'label' | 'mean' | 'stdDev'> & { decimals: number[]; stakes: number[]; totalImplied: number } {
+  const decimals = [above, below].map(side => netDecimal(side.american, getCommission(side.quote.bookmaker)))
+  const implied = decimals.map(impliedProbability)
+  const totalImplied = implied[0] + implied[1]
+  const stakes = implied.map(p => p / totalImplied)
+
+  const payoff = (x: number) => {
+    const aboveReturn = x > above.threshold ? decimals[0] : x === above.threshold ? 1 : 0
+    const belowReturn = x < below.threshold ? decimals[1] : x === below.threshold ? 1 : 0
+    return stakes[0] * aboveReturn + stakes[1] * belowReturn - 1
+  }
+
+  const worstCase = 1 / totalImplied - 1
+  const from = Math.ceil(above.threshold)
+  const to = Math.floor(below.threshold)
+
+  let bestCase = worstCase
+  let hitProbability = 0
+  let expectedValue = worstCase
+  for (let x = from; x <= to; x++) {
+    const p = probabilities.get(x) ?? 0
+    bestCase = Math.max(bestCase, payoff(x))
+    hitProbability += p
+    expectedValue += p * (payoff(x) - worstCase)
+  }
+
+  return {
+    window: { from, to },
+    worstCase: round2(worstCase * 100),
+    bestCase: round2(bestCase * 100),
+    hitProbability: round2(hitProbability * 100),
+    expectedValue: round2(expectedValue * 100),
+    decimals,
+    stakes: stakes.map(st => round2(st * 100)),
+    totalImplied: round2(totalImplied * 100)
+  }
+}
+
+// Where results are expected to land, and how likely each one is
+interface MiddlePricing {
+  probabilities: Map<number, number>
+  mean: number
+  stdDev: number
+}
+
+function gameMiddlePricing(sport: string, market: DistributionMarket, mean: number): MiddlePricing {
+  return {
+    probabilities: outcomeProbabilities(sport, market, mean),
+    mean,
+    stdDev: getDistribution(sport, market).stdDev
+  }
+}
+
+/**
+ * Pair every "above" side with every "below" side from another book whose
+ * threshold leaves a gap. Each pair of lines is one middle, priced at
+ * whichever books give it the best EV. `decorate` adds market-specific
+ * fields to each middle.
+ */
+function findMiddles(
+  game: Pick<NormalizedOdds, 'gameId' | 'game' | 'sport' | 'isLive'>,
+  market: MiddleDetails['market'],
+  key: string,
+  aboveSides: MiddleSide[],
+  belowSides: MiddleSide[],
+  { probabilities, mean, stdDev }: MiddlePricing,
+  describe: (window: MiddleDetails['window']) => string,
+  now: number,
+  decorate?: (above: MiddleSide, below: MiddleSide) => Partial<ArbitrageOpportunity>
+): ArbitrageOpportunity[] {
+  const best = new Map<string, { above: MiddleSide; below: MiddleSide; result: ReturnType<typeof evaluateMiddle> }>()
+
+  for (const above of aboveSides) {
+    for (const below of belowSides) {
+      if (above.quote.bookmaker === below.quote.bookmaker) continue
+      if (above.threshold >= below.threshold) continue
+
+      const result = evaluateMiddle(above, below, probabilities)
+      if (result.window.from > result.window.to) continue
+      if (result.expectedValue < MIDDLE_MIN_EV || result.worstCase < -MIDDLE_MAX_LOSS) continue
+
+      const lines = `${above.threshold}-${below.threshold}`
+      const current = best.get(lines)
+      if (!current || result.expectedValue > current.result.expectedValue) best.set(lines, { above, below, result })
     }
+  }
 
-    if (bestOver.book === bestUnder.book) continue
+  return Array.from(best, ([lines, { above, below, result }]): ArbitrageOpportunity => {
+    const legs = [above, below].map((side, i) => toArbLeg({
+      book: side.quote.bookmaker,
+      bet: side.bet,
+      american: side.american,
+      decimal: result.decimals[i],
+      commission: getCommission(side.quote.bookmaker),
+      maxStake: side.size
+    }, result.stakes[i]))
 
-    const result = calculateArbitrage(bestOver.decimal, bestUnder.decimal)
+    return {
+      id: arbId(`${key}-${lines}`, legs),
+      type: 'middle',
+      game: game.game,
+      gameId: game.gameId,
+      sport: game.sport,
+      profit: result.worstCase,
+      margin: round2(100 - result.totalImplied),
+      legs,
+      middle: {
+        market,
+        window: result.window,
+        label: describe(result.window),
+        worstCase: result.worstCase,
+        bestCase: result.bestCase,
+        hitProbability: result.hitProbability,
+        expectedValue: result.expectedValue,
+        mean: round2(mean),
+        stdDev
+      },
+      totalImplied: result.totalImplied,
+      liquidity: legLiquidity(legs),
+      ...scoreQuotes([above.quote, below.quote], game, market, now),
+      ...arbTiming(game, now),
+      ...decorate?.(above, below)
+    }
+  })
+}
 
-    if (result.isArbitrage && result.profit >= minProfit) {
-      return {
-        id: `${game.gameId}-total-${total}-${Date.now()}`,
-        type: 'total',
-        game: game.game,
-        gameId: game.gameId,
-        sport: game.sport,
-        profit: result.profit,
-        book1: {
-          name: bestOver.book,
-          bet: `Over ${total}`,
-          odds: bestOver.american,
-          stake: result.stake1Pct,
-          decimalOdds: bestOver.decimal
-        },
-        book2: {
-          name: bestUnder.book,
-          bet: `Under ${total}`,
-          odds: bestUnder.american,
-          stake: result.stake2Pct,
-          decimalOdds: bestUnder.decimal
-        },
-        totalImplied: result.totalImplied,
-        detectedAt: Date.now(),
-        expiresAt: Date.now() + 30000
-      }
+const formatLine = (line: number) => `${line > 0 ? '+' : ''}${line}`
+
+/**
+ * Spread middle: home side at one number, away side at a better number
+ * elsewhere (e.g. Home -3 / Away +7 wins both on a 4-6 point home win)
+ */
+export function detectSpreadMiddles(game: NormalizedOdds, now = Date.now()): ArbitrageOpportunity[] {
+  const books = usableBooks(game, 'spread', now).filter(book =>
+    book.homeSpread !== undefined && book.awaySpread !== undefined && book.spreadHomeOdds && book.spreadAwayOdds
+  )
+  if (books.length < 2) return []
+
+  // Home margin M: home covers when M > -homeSpread, away when M < awaySpread
+  const home = books.map(book => ({
+    quote: book,
+    bet: `${game.homeTeam} ${formatLine(book.homeSpread!)}`,
+    threshold: -book.homeSpread!,
+    american: book.spreadHomeOdds!,
+    size: book.available?.spreadHomeOdds
+  }))
+  const away = books.map(book => ({
+    quote: book,
+    bet: `${game.awayTeam} ${formatLine(book.awaySpread!)}`,
+    threshold: book.awaySpread!,
+    american: book.spreadAwayOdds!,
+    size: book.available?.spreadAwayOdds
+  }))
+
+  const describeMargin = (m: number) =>
+    m > 0 ? `${game.homeTeam} by ${m}` : m < 0 ? `${game.awayTeam} by ${-m}` : 'Tie'
+  const describe = ({ from, to }: MiddleDetails['window']) =>
+    from === to ? describeMargin(from) : `${describeMargin(from)} to ${describeMargin(to)}`
+
+  const mean = -median(books.map(book => book.homeSpread!))
+  const pricing = gameMiddlePricing(game.sport, 'margin', mean)
+  return findMiddles(game, 'spread', `${game.gameId}-middle-spread`, home, away, pricing, describe, now)
+}
+
+/**
+ * Totals middle: Over a low total at one book, Under a higher total at another
+ */
+export function detectTotalsMiddles(game: NormalizedOdds, now = Date.now()): ArbitrageOpportunity[] {
+  const books = usableBooks(game, 'total', now).filter(book =>
+    book.totalLine !== undefined && book.overOdds && book.underOdds
+  )
+  if (books.length < 2) return []
+
+  const over = books.map(book => ({
+    quote: book,
+    bet: `Over ${book.totalLine}`,
+    threshold: book.totalLine!,
+    american: book.overOdds!,
+    size: book.available?.overOdds
+  }))
+  const under = books.map(book => ({
+    quote: book,
+    bet: `Under ${book.totalLine}`,
+    threshold: book.totalLine!,
+    american: book.underOdds!,
+    size: book.available?.underOdds
+  }))
+
+  const describe = ({ from, to }: MiddleDetails['window']) =>
+    from === to ? `Total ${from}` : `Total ${from}-${to}`
+
+  const mean = median(books.map(book => book.totalLine!))
+  const pricing = gameMiddlePricing(game.sport, 'total', mean)
+  return findMiddles(game, 'total', `${game.gameId}-middle-total`, over, under, pricing, describe, now)
+}
+
+// ============================================
+// PLAYER PROPS
+// ============================================
+
+/**
+ * "player_points" -> "Points", "batter_total_bases" -> "Total Bases"
+ */
+export function propMarketLabel(market: string): string {
+  return market
+    .replace(/^(player|batter|pitcher)_/, '')
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Prop quotes eligible for detection
+ */
+export function usablePropBooks(prop: NormalizedProp, now: number): PropBookOdds[] {
+  if (staleQuoteMode === 'flag') return prop.books
+  return prop.books.filter(book => !isStaleQuote(book, prop.sport, 'prop', now, prop.isLive))
+}
+
+/**
+ * Over/under arbitrage on a player prop - one per line
+ */
+export function detectPropArbitrage(
+  prop: NormalizedProp,
+  minProfit = 0,
+  now = Date.now()
+): ArbitrageOpportunity[] {
+  const lineGroups = new Map<number, PropBookOdds[]>()
+
+  for (const book of usablePropBooks(prop, now)) {
+    if (!book.overOdds && !book.underOdds) continue
+    if (!lineGroups.has(book.line)) {
+      lineGroups.set(book.line, [])
+    }
+    lineGroups.get(book.line)!.push(book)
+  }
+
+  const label = propMarketLabel(prop.market)
+  const opportunities: ArbitrageOpportunity[] = []
+
+  for (const [line, books] of lineGroups) {
+    if (books.length < 2) continue
+
+    const prices = findBestPrices<PropBookOdds>(books, [
+      { bet: `${prop.player} Over ${line} ${label}`, price: b => b.overOdds },
+      { bet: `${prop.player} Under ${line} ${label}`, price: b => b.underOdds }
+    ])
+    const solved = prices && solveLegs(prices, minProfit)
+
+    if (solved) {
+      opportunities.push({
+        id: arbId(`${prop.propId}-${line}`, solved.legs),
+        type: 'prop',
+        game: prop.game,
+        gameId: prop.gameId,
+        sport: prop.sport,
+        ...solved,
+        prop: { player: prop.player, market: prop.market, line },
+        ...scoreQuotes(prices!.map(p => p.quote), prop, 'prop', now),
+        ...arbTiming(prop, now)
+      })
     }
   }
 
-  return null
+  return opportunities
+}
+
+/**
+ * Prop middle: Over a low line at one book, Under a higher line at another
+ * (e.g. Over 24.5 / Under 27.5 points wins both on 25-27)
+ */
+export function detectPropMiddles(prop: NormalizedProp, now = Date.now()): ArbitrageOpportunity[] {
+  const books = usablePropBooks(prop, now)
+  if (new Set(books.map(book => book.line)).size < 2) return []
+
+  const label = propMarketLabel(prop.market)
+  const over = books.filter(book => book.overOdds).map(book => ({
+    quote: book,
+    bet: `${prop.player} Over ${book.line} ${label}`,
+    threshold: book.line,
+    american: book.overOdds!
+  }))
+  const under = books.filter(book => book.underOdds).map(book => ({
+    quote: book,
+    bet: `${prop.player} Under ${book.line} ${label}`,
+    threshold: book.line,
+    american: book.underOdds!
+  }))
+
+  const describe = ({ from, to }: MiddleDetails['window']) =>
+    `${prop.player} ${from === to ? from : `${from}-${to}`} ${label}`
+
+  const mean = median(books.map(book => book.line))
+  const pricing: MiddlePricing = {
+    probabilities: propOutcomeProbabilities(prop.sport, prop.market, mean),
+    mean,
+    stdDev: getPropDistribution(prop.sport, prop.market).stdDev
+  }
+
+  return findMiddles(prop, 'prop', `${prop.propId}-middle`, over, under, pricing, describe, now, (above, below) => ({
+    prop: { player: prop.player, market: prop.market, line: above.threshold, underLine: below.threshold }
+  }))
 }
 
 /**
- * Main arbitrage scanner - scans all market types
+ * Main arbitrage scanner - scans all market types, plus any player props
  */
 export function scanForArbitrage(
   games: NormalizedOdds[],
-  minProfit = 0
+  minProfit = 0,
+  now = Date.now(),
+  props: NormalizedProp[] = []
 ): ArbitrageOpportunity[] {
   const opportunities: ArbitrageOpportunity[] = []
   const startTime = performance.now()
 
   for (const game of games) {
-    // Check moneyline
-    const mlArb = detectMoneylineArbitrage(game, minProfit)
-    if (mlArb) opportunities.push(mlArb)
-
-    // Check spreads
-    const spreadArb = detectSpreadArbitrage(game, minProfit)
-    if (spreadArb) opportunities.push(spreadArb)
+    // Every qualifying line per market, not just the first
+    opportunities.push(
+      ...detectMoneylineArbitrage(game, minProfit, now),
+      ...detectSpreadArbitrage(game, minProfit, now),
+      ...detectTotalsArbitrage(game, minProfit, now),
+      // Middles across different lines (gated on EV, not minProfit)
+      ...detectSpreadMiddles(game, now),
+      ...detectTotalsMiddles(game, now)
+    )
+  }
 
-    // Check totals
-    const totalsArb = detectTotalsArbitrage(game, minProfit)
-    if (totalsArb) opportunities.push(totalsArb)
+  for (const prop of props) {
+    opportunities.push(
+      ...detectPropArbitrage(prop, minProfit, now),
+      ...detectPropMiddles(prop, now)
+    )
   }
 
   const elapsed = performance.now() - startTime
-  console.log(`[ARB ENGINE] Scanned ${games.length} games, found ${opportunities.length} arbs in ${elapsed.toFixed(2)}ms`)
+  const propNote = props.length > 0 ? ` and ${props.length} props` : ''
+  console.log(`[ARB ENGINE] Scanned ${games.length} games${propNote}, found ${opportunities.length} arbs in ${elapsed.toFixed(2)}ms`)
 
   // Sort by profit descending
   return opportunities.sort((a, b) => b.profit - a.profit)
@@ -365,23 +1131,23 @@ export function scanForArbitrage(
 /**
  * Deduplicate arbitrage opportunities
  * Prevents sending duplicate alerts for same opportunity
+ * (`now` is overridable so replays dedupe on recorded time)
  */
 const recentArbs = new Map<string, number>()
 const ARB_DEDUP_WINDOW = 60000 // 1 minute
 
-export function deduplicateArbitrage(arb: ArbitrageOpportunity): boolean {
-  const key = `${arb.gameId}-${arb.type}-${arb.book1.name}-${arb.book2.name}`
-  const lastSeen = recentArbs.get(key)
+export function deduplicateArbitrage(arb: ArbitrageOpportunity, now = Date.now()): boolean {
+  const lastSeen = recentArbs.get(arb.id)
 
-  if (lastSeen && Date.now() - lastSeen < ARB_DEDUP_WINDOW) {
+  if (lastSeen && now - lastSeen < ARB_DEDUP_WINDOW) {
     return false // Already sent recently
   }
 
-  recentArbs.set(key, Date.now())
+  recentArbs.set(arb.id, now)
 
   // Cleanup old entries
   for (const [k, v] of recentArbs) {
-    if (Date.now() - v > ARB_DEDUP_WINDOW) {
+    if (now - v > ARB_DEDUP_WINDOW) {
       recentArbs.delete(k)
     }
   }
@@ -389,13 +1155,41 @@ export function deduplicateArbitrage(arb: ArbitrageOpportunity): boolean {
   return true
 }
 
+/**
+ * Forget a sent arb so it alerts again if it comes back after expiring
+ */
+export function releaseArbitrage(arbId: string): void {
+  recentArbs.delete(arbId)
+}
+
 export default {
   americanToDecimal,
   impliedProbability,
+  getCommission,
+  setCommission,
+  netDecimal,
+  layToBackDecimal,
+  solveArbitrage,
   calculateArbitrage,
+  getMaxQuoteAge,
+  getSettingsVersion,
+  setMaxQuoteAge,
+  setStaleQuoteMode,
+  quoteAge,
+  isStaleQuote,
+  quoteConfidence,
+  usableBooks,
+  usablePropBooks,
   detectMoneylineArbitrage,
   detectSpreadArbitrage,
   detectTotalsArbitrage,
+  detectOutrightArbitrage,
+  detectSpreadMiddles,
+  detectTotalsMiddles,
+  propMarketLabel,
+  detectPropArbitrage,
+  detectPropMiddles,
   scanForArbitrage,
-  deduplicateArbitrage
+  deduplicateArbitrage,
+  releaseArbitrage
 }
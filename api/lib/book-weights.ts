@@ -0,0 +1,73 @@
+/**
+ * Book Weights
+ *
+ * How much each book's price counts toward a consensus "true price".
+ * Market makers take sharp action and move first; recreational books copy
+ * them and shade toward the public:
+ * 1. A default weight per book - unlisted books count 1, 0 leaves a book out
+ * 2. Per-sport, per-market overrides where a book is sharper or softer
+ * 3. BOOK_WEIGHTS overrides both as JSON, e.g.
+ *    {"default":{"pinnacle":6},"nba":{"total":{"circasports":5}}}
+ */
+
+import type { QuoteMarket } from './arbitrage-engine.js'
+
+const UNLISTED_WEIGHT = 1
+
+const DEFAULT_WEIGHTS: Record<string, number> = {
+  pinnacle: 5,
+  circasports: 4,
+  betfair_ex_uk: 3,
+  betfair_ex_eu: 3,
+  betfair_ex_au: 3,
+  matchbook: 2,
+  smarkets: 2,
+  lowvig: 2,
+  betonlineag: 2,
+  bovada: 0.5,
+  mybookieag: 0.5
+}
+
+const SPORT_WEIGHTS: Record<string, Partial<Record<QuoteMarket, Record<string, number>>>> = {
+  nfl: { total: { circasports: 5 } },
+  mlb: { moneyline: { pinnacle: 6 } },
+  nba: { prop: { pinnacle: 3 } }
+}
+
+try {
+  const { default: defaults, ...sports } = JSON.parse(process.env.BOOK_WEIGHTS || '{}')
+  Object.assign(DEFAULT_WEIGHTS, defaults)
+  for (const [sport, markets] of Object.entries(sports) as [string, Partial<Record<QuoteMarket, Record<string, number>>>][]) {
+    for (const [market, weights] of Object.entries(markets) as [QuoteMarket, Record<string, number>][]) {
+      SPORT_WEIGHTS[sport] = { ...SPORT_WEIGHTS[sport], [market]: { ...SPORT_WEIGHTS[sport]?.[market], ...weights } }
+    }
+  }
+} catch (err: any) {
+  console.error('[BOOK WEIGHTS] Invalid BOOK_WEIGHTS, using defaults:', err.message)
+}
+
+export function getBookWeight(book: string, sport?: string, market?: QuoteMarket): number {
+  const override = sport && market ? SPORT_WEIGHTS[sport]?.[market]?.[book] : undefined
+  return override ?? DEFAULT_WEIGHTS[book] ?? UNLISTED_WEIGHT
+}
+
+export function setBookWeight(book: string, weight: number, sport?: string, market?: QuoteMarket): void {
+  if (sport && market) {
+    SPORT_WEIGHTS[sport] = { ...SPORT_WEIGHTS[sport], [market]: { ...SPORT_WEIGHTS[sport]?.[market], [book]: weight } }
+  } else {
+    DEFAULT_WEIGHTS[book] = weight
+  }
+}
+
+/**
+ * Combined weight of a set of books - how much of the sharp market agrees
+ */
+export function totalBookWeight(books: string[], sport?: string, market?: QuoteMarket): number {
+  return books.reduce((total, book) => total + getBookWeight(book, sport, market), 0)
+}
+
+export default {
+  getBookWeight,
+  setBookWeight,
+  totalBookWeight
+}
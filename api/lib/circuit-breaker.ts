@@ -0,0 +1,132 @@
+/**
+ * Circuit Breaker
+ *
+ * Per-upstream guard so a failing provider isn't hammered every poll:
+ * 1. closed    - requests flow; consecutive failures are counted
+ * 2. open      - requests are skipped until retryAt (exponential backoff + jitter)
+ * 3. half-open - a single trial request; success closes, failure re-opens with a longer backoff
+ *
+ * Rate limits (429) and auth errors open the circuit immediately.
+ */
+
+const FAILURE_THRESHOLD = parseInt(process.env.PROVIDER_FAILURE_THRESHOLD || '2')
+const BACKOFF_BASE_MS = parseInt(process.env.PROVIDER_BACKOFF_BASE_MS || '5000')
+const BACKOFF_MAX_MS = parseInt(process.env.PROVIDER_BACKOFF_MAX_MS || String(10 * 60 * 1000))
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitStatus {
+  name: string
+  state: CircuitState
+  consecutiveFailures: number
+  trips: number               // Times opened since the last success
+  retryAt: number | null
+  lastError: string | null
+  lastFailure: number | null
+  lastSuccess: number | null
+}
+
+export interface CircuitBreaker {
+  canRequest(now?: number): boolean
+  recordSuccess(now?: number): void
+  recordFailure(err: any, now?: number): void
+  getStatus(now?: number): CircuitStatus
+}
+
+/**
+ * Backoff for the nth trip: base * 2^(n-1), capped, with +/-25% jitter
+ * so instances don't retry in lockstep
+ */
+export function getBackoffDelay(trips: number, random = Math.random): number {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * Math.pow(2, Math.max(0, trips - 1)))
+  return Math.round(exponential * (0.75 + random() * 0.5))
+}
+
+/**
+ * Retry-After header (seconds or HTTP date) in ms
+ */
+function parseRetryAfter(err: any, now: number): number | null {
+  const header = err?.response?.headers?.['retry-after']
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!isNaN(seconds)) return seconds * 1000
+
+  const date = Date.parse(header)
+  return isNaN(date) ? null : Math.max(0, date - now)
+}
+
+function isFatal(err: any): boolean {
+  const status = err?.response?.status
+  return status === 429 || status === 401 || status === 403
+}
+
+export function createCircuitBreaker(name: string): CircuitBreaker {
+  const status: CircuitStatus = {
+    name,
+    state: 'closed',
+    consecutiveFailures: 0,
+    trips: 0,
+    retryAt: null,
+    lastError: null,
+    lastFailure: null,
+    lastSuccess: null
+  }
+  let trialInFlight = false
+
+  const currentState = (now: number): CircuitState =>
+    status.state === 'open' && status.retryAt !== null && now >= status.retryAt ? 'half-open' : status.state
+
+  return {
+    canRequest(now = Date.now()) {
+      const state = currentState(now)
+      if (state === 'open') return false
+      if (state === 'half-open') {
+        if (trialInFlight) return false
+        status.state = 'half-open'
+        trialInFlight = true
+      }
+      return true
+    },
+
+    recordSuccess(now = Date.now()) {
+      if (status.state !== 'closed') {
+        console.log(`[CIRCUIT] ${name} closed after ${status.trips} trip(s)`)
+      }
+      trialInFlight = false
+      status.state = 'closed'
+      status.consecutiveFailures = 0
+      status.trips = 0
+      status.retryAt = null
+      status.lastSuccess = now
+    },
+
+    recordFailure(err: any, now = Date.now()) {
+      trialInFlight = false
+      status.consecutiveFailures++
+      status.lastError = err?.response?.status ? `HTTP ${err.response.status}: ${err.message}` : err?.message || String(err)
+      status.lastFailure = now
+
+      const shouldOpen = status.state === 'half-open' ||
+        isFatal(err) ||
+        status.consecutiveFailures >= FAILURE_THRESHOLD
+      if (!shouldOpen) return
+
+      status.trips++
+      const delay = Math.max(getBackoffDelay(status.trips), parseRetryAfter(err, now) ?? 0)
+      status.state = 'open'
+      status.retryAt = now + delay
+
+      console.warn(`[CIRCUIT] ${name} open for ${Math.round(delay / 1000)}s (trip ${status.trips}): ${status.lastError}`)
+    },
+
+    getStatus(now = Date.now()) {
+      return { ...status, state: currentState(now) }
+    }
+  }
+}
+
+export default {
+  createCircuitBreaker,
+  getBackoffDelay
+}
@@ -0,0 +1,574 @@
+/**
+ * Closing Line Value
+ *
+ * Grades bets and signals against the price the market closed at:
+ * 1. Every ingestion poll snapshots each pregame game market - every book's
+ *    price and the sharp-weighted no-vig consensus
+ * 2. When the game starts, its last snapshot is stored as the closing line
+ * 3. Bets logged by users and signals published by nodes (steam, arb, EV)
+ *    on that game are graded against it
+ *
+ * CLV is the EV a price still had at the close: closing fair probability x
+ * decimal odds taken (net of commission) - 1. Book CLV compares it with the
+ * same book's closing price instead. Positions with several legs (arbs) are
+ * weighted by stake.
+ *
+ * Only game markets close here: player props and lay legs stay ungraded,
+ * as do prices taken in-play and games that start while the worker is down
+ * (snapshots live in memory).
+ */
+
+import { db } from '../db/index.js'
+import { resolveGameId } from './event-registry.js'
+import {
+  americanToDecimal,
+  getCommission,
+  netDecimal,
+  type ArbitrageOpportunity,
+  type NormalizedOdds,
+  type QuoteMarket
+} from './arbitrage-engine.js'
+import { calculateFairLines, gameMarkets, type EVBet } from './fair-odds.js'
+import type { Signal } from './signal-bus.js'
+
+export type TrackedKind = 'bet' | 'signal'
+
+export interface ClvSelection {
+  bet: string           // Same labels as arbs and EV bets, e.g. 'Over 221.5'
+  book: string
+  odds: number          // American, as taken
+  weight?: number       // Share of the position (arb stake %), equal by default
+}
+
+export interface TrackedPrice {
+  kind: TrackedKind
+  signalId?: string
+  signalType?: string
+  nodeId?: string
+  userId?: string
+  gameId: string
+  sport: string
+  selections: ClvSelection[]
+  stake?: number
+  takenAt?: number
+}
+
+export interface ClosingOutcome {
+  bet: string
+  market: QuoteMarket
+  line?: number
+  fairProbability?: number      // % weighted no-vig consensus
+  fairOdds?: number             // American
+  books: Record<string, number> // American odds per book
+  capturedAt: number
+}
+
+export interface GradedSelection extends ClvSelection {
+  fairOdds: number | null
+  closingOdds: number | null    // Same book at the close
+  clv: number | null
+  bookClv: number | null
+}
+
+export interface ClvGrade {
+  clv: number | null            // % EV at the closing fair line
+  bookClv: number | null        // % better than the books' closing prices
+  selections: GradedSelection[]
+}
+
+export interface ClvSummary {
+  tracked: number
+  graded: number
+  avgClv: number | null
+  avgBookClv: number | null
+  beatClosePct: number | null   // Share of graded prices with positive CLV
+}
+
+export interface ClvStats extends ClvSummary {
+  byType: Record<string, ClvSummary> // 'bet', 'steam', 'arb', 'ev'
+}
+
+interface GameSnapshot {
+  gameId: string
+  sport: string
+  startTime: string
+  outcomes: Map<string, ClosingOutcome>
+}
+
+// State
+const snapshots = new Map<string, GameSnapshot>()
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0)
+
+function formatLine(line: number): string {
+  return `${line > 0 ? '+' : ''}${line}`
+}
+
+function findGame(games: NormalizedOdds[], gameId: string): NormalizedOdds | undefined {
+  const canonical = resolveGameId(gameId)
+  return games.find(game => game.gameId === canonical || game.gameId === gameId)
+}
+
+// ============================================
+// CLOSING LINES
+// ============================================
+
+// Every outcome on the game's markets, priced per book and by the consensus
+function priceOutcomes(game: NormalizedOdds, now: number): Map<string, ClosingOutcome> {
+  const fairLines = new Map(calculateFairLines(game, {}, now).map(line => [line.id, line]))
+  const outcomes = new Map<string, ClosingOutcome>()
+
+  for (const market of gameMarkets(game, now)) {
+    const fair = fairLines.get(`${game.gameId}-${market.key}`)
+
+    market.bets.forEach((bet, i) => {
+      const books: Record<string, number> = {}
+      for (const quote of market.quotes) {
+        const odds = quote[market.fields[i]]
+        if (odds) books[quote.bookmaker] = odds
+      }
+
+      // Two- and three-way moneylines share team labels; the deeper market stands
+      const existing = outcomes.get(bet)
+      if (existing && Object.keys(existing.books).length >= Object.keys(books).length) return
+
+      outcomes.set(bet, {
+        bet,
+        market: market.market,
+        line: market.line,
+        fairProbability: fair?.outcomes[i].probability,
+        fairOdds: fair?.outcomes[i].fairOdds,
+        books,
+        capturedAt: now
+      })
+    })
+  }
+
+  return outcomes
+}
+
+async function saveClosingLines(snapshot: GameSnapshot): Promise<void> {
+  const rows = Array.from(snapshot.outcomes.values()).flatMap(outcome => {
+    const row = { market: outcome.market, line: outcome.line ?? null, bet: outcome.bet, captured_at: outcome.capturedAt }
+    return [
+      ...(outcome.fairOdds !== undefined
+        ? [{ ...row, bookmaker: 'consensus', odds: outcome.fairOdds, fair_probability: outcome.fairProbability }]
+        : []),
+      ...Object.entries(outcome.books).map(([bookmaker, odds]) => ({
+        ...row,
+        bookmaker,
+        odds: Math.round(odds),
+        fair_probability: null
+      }))
+    ]
+  })
+  if (rows.length === 0) return
+
+  try {
+    await db.query(`
+      INSERT INTO closing_lines
+      (game_id, sport, market, line, bet, bookmaker, odds, fair_probability, start_time, captured_at)
+      SELECT $1, $2, r.market, r.line, r.bet, r.bookmaker, r.odds, r.fair_probability,
+             $3::timestamptz, to_timestamp(r.captured_at / 1000.0)
+      FROM jsonb_to_recordset($4::jsonb)
+        AS r(market text, line numeric, bet text, bookmaker text, odds integer, fair_probability numeric, captured_at bigint)
+      ON CONFLICT (game_id, bet, bookmaker) DO UPDATE SET
+        odds = EXCLUDED.odds,
+        fair_probability = EXCLUDED.fair_probability,
+        captured_at = EXCLUDED.captured_at
+    `, [snapshot.gameId, snapshot.sport, snapshot.startTime, JSON.stringify(rows)])
+  } catch (err) {
+    // Table might not be migrated yet, log but don't crash
+    console.error('[CLV] Failed to save closing lines:', err)
+  }
+}
+
+/**
+ * Grade selections against a game's closing outcomes
+ */
+export function gradeSelections(outcomes: Map<string, ClosingOutcome>, selections: ClvSelection[]): ClvGrade {
+  const graded: GradedSelection[] = selections.map(selection => {
+    const outcome = outcomes.get(selection.bet)
+    const commission = getCommission(selection.book)
+    const decimal = netDecimal(selection.odds, commission)
+    const closingOdds = outcome?.books[selection.book] ?? null
+
+    return {
+      ...selection,
+      fairOdds: outcome?.fairOdds ?? null,
+      closingOdds,
+      clv: outcome?.fairProbability ? round2((outcome.fairProbability / 100 * decimal - 1) * 100) : null,
+      bookClv: closingOdds ? round2((decimal / netDecimal(closingOdds, commission) - 1) * 100) : null
+    }
+  })
+
+  // Weighted across the selections that have a closing price
+  const weighted = (value: (selection: GradedSelection) => number | null): number | null => {
+    const priced = graded.filter(selection => value(selection) !== null)
+    const weight = sum(priced.map(selection => selection.weight ?? 1))
+    if (priced.length === 0 || weight <= 0) return null
+    return round2(sum(priced.map(selection => value(selection)! * (selection.weight ?? 1))) / weight)
+  }
+
+  return {
+    clv: weighted(selection => selection.clv),
+    bookClv: weighted(selection => selection.bookClv),
+    selections: graded
+  }
+}
+
+// Grade the prices tracked on a game before it started
+async function gradeGame(snapshot: GameSnapshot): Promise<number> {
+  try {
+    const result = await db.query(`
+      SELECT id, selections FROM tracked_prices
+      WHERE game_id = $1 AND graded_at IS NULL AND taken_at <= $2::timestamptz
+    `, [snapshot.gameId, snapshot.startTime])
+
+    for (const row of result.rows) {
+      const grade = gradeSelections(snapshot.outcomes, row.selections)
+      await db.query(`
+        UPDATE tracked_prices
+        SET closing = $2, clv = $3, book_clv = $4, graded_at = NOW()
+        WHERE id = $1
+      `, [row.id, JSON.stringify(grade.selections), grade.clv, grade.bookClv])
+    }
+
+    return result.rows.length
+  } catch (err) {
+    console.error('[CLV] Failed to grade game:', err)
+    return 0
+  }
+}
+
+/**
+ * Snapshot the pregame prices of every game, and close out the games that
+ * have started: their last snapshot is saved as the closing line and the
+ * prices tracked on them are graded. Pass persist = false to keep the
+ * snapshots in memory only (replays).
+ */
+export async function recordPregamePrices(
+  games: NormalizedOdds[],
+  now = Date.now(),
+  persist = true
+): Promise<number> {
+  const started = new Set<string>()
+
+  for (const game of games) {
+    if (game.isLive || Date.parse(game.startTime) <= now) {
+      started.add(game.gameId)
+      continue
+    }
+
+    const outcomes = priceOutcomes(game, now)
+    if (outcomes.size === 0) continue
+
+    // Markets pulled shortly before the start keep their last price
+    const snapshot = snapshots.get(game.gameId)
+    snapshots.set(game.gameId, {
+      gameId: game.gameId,
+      sport: game.sport,
+      startTime: game.startTime,
+      outcomes: snapshot ? new Map([...snapshot.outcomes, ...outcomes]) : outcomes
+    })
+  }
+
+  let graded = 0
+  let closed = 0
+  for (const snapshot of Array.from(snapshots.values())) {
+    if (!started.has(snapshot.gameId) && Date.parse(snapshot.startTime) > now) continue
+
+    snapshots.delete(snapshot.gameId)
+    closed++
+    if (!persist) continue
+
+    await saveClosingLines(snapshot)
+    graded += await gradeGame(snapshot)
+  }
+
+  if (closed > 0) console.log(`[CLV] Closed ${closed} games, graded ${graded} bets and signals`)
+  return closed
+}
+
+/**
+ * Stored closing line of a game, by bet and book
+ */
+export async function getClosingLines(gameId: string): Promise<Array<{
+  market: string
+  line: number | null
+  bet: string
+  bookmaker: string
+  odds: number
+  fairProbability: number | null
+  capturedAt: string
+}>> {
+  try {
+    const result = await db.query(`
+      SELECT market, line, bet, bookmaker, odds, fair_probability, captured_at
+      FROM closing_lines
+      WHERE game_id = $1
+      ORDER BY market, bet, bookmaker
+    `, [resolveGameId(gameId)])
+
+    return result.rows.map(row => ({
+      market: row.market,
+      line: row.line === null ? null : parseFloat(row.line),
+      bet: row.bet,
+      bookmaker: row.bookmaker,
+      odds: row.odds,
+      fairProbability: row.fair_probability === null ? null : parseFloat(row.fair_probability),
+      capturedAt: row.captured_at
+    }))
+  } catch (err) {
+    return []
+  }
+}
+
+export function getSnapshotCount(): number {
+  return snapshots.size
+}
+
+// ============================================
+// TRACKING
+// ============================================
+
+/**
+ * Track a price to be graded when its game closes. Returns the row id,
+ * or null when there's nothing to track or it couldn't be saved.
+ */
+export async function trackPrice(price: TrackedPrice): Promise<number | null> {
+  if (price.selections.length === 0) return null
+
+  try {
+    const result = await db.query(`
+      INSERT INTO tracked_prices
+      (kind, signal_id, signal_type, node_id, user_id, game_id, sport, selections, stake, taken_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, to_timestamp($10 / 1000.0))
+      RETURNING id
+    `, [
+      price.kind,
+      price.signalId || null,
+      price.signalType || null,
+      price.nodeId || null,
+      price.userId || null,
+      resolveGameId(price.gameId),
+      price.sport,
+      JSON.stringify(price.selections),
+      price.stake ?? null,
+      price.takenAt ?? Date.now()
+    ])
+    return result.rows[0]?.id ?? null
+  } catch (err) {
+    console.error('[CLV] Failed to track price:', err)
+    return null
+  }
+}
+
+/**
+ * Log a user's bet
+ */
+export async function logBet(
+  userId: string,
+  bet: { gameId: string; sport: string; bet: string; book: string; odds: number; stake?: number }
+): Promise<number | null> {
+  return trackPrice({
+    kind: 'bet',
+    userId,
+    gameId: bet.gameId,
+    sport: bet.sport,
+    selections: [{ bet: bet.bet, book: bet.book, odds: bet.odds }],
+    stake: bet.stake
+  })
+}
+
+export async function trackEvSignal(signal: Signal, bet: EVBet): Promise<number | null> {
+  return trackPrice({
+    kind: 'signal',
+    signalId: signal.id,
+    signalType: 'ev',
+    nodeId: signal.source.nodeId,
+    gameId: bet.gameId,
+    sport: bet.sport,
+    selections: [{ bet: bet.bet, book: bet.book, odds: bet.odds }]
+  })
+}
+
+/**
+ * An arb signal is graded on its back legs, weighted by stake
+ */
+export async function trackArbSignal(signal: Signal, arb: ArbitrageOpportunity): Promise<number | null> {
+  return trackPrice({
+    kind: 'signal',
+    signalId: signal.id,
+    signalType: 'arb',
+    nodeId: signal.source.nodeId,
+    gameId: arb.gameId,
+    sport: arb.sport,
+    selections: arb.legs
+      .filter(leg => leg.side !== 'lay')
+      .map(leg => ({ bet: leg.bet, book: leg.book, odds: leg.odds, weight: leg.stake }))
+  })
+}
+
+/**
+ * The side a steam move is on. Lines are the home moneyline price, or the
+ * home spread when they're points: the price shortening or the spread
+ * growing more negative means money came in on the home team.
+ */
+export function steamBet(game: NormalizedOdds, oldLine: number, newLine: number): string | null {
+  if (oldLine === newLine) return null
+
+  if (Math.abs(oldLine) >= 100 && Math.abs(newLine) >= 100) {
+    return americanToDecimal(newLine) < americanToDecimal(oldLine) ? `${game.homeTeam} ML` : `${game.awayTeam} ML`
+  }
+
+  return newLine < oldLine
+    ? `${game.homeTeam} ${formatLine(newLine)}`
+    : `${game.awayTeam} ${formatLine(-newLine)}`
+}
+
+/**
+ * A steam signal is graded on the steamed side at the steaming books'
+ * current prices. `bet` names the side when the node knows it.
+ */
+export async function trackSteamSignal(
+  signal: Signal,
+  games: NormalizedOdds[],
+  bet?: string,
+  now = Date.now()
+): Promise<number | null> {
+  const game = findGame(games, signal.payload.gameId)
+  const { books, oldLine, newLine } = signal.evidence
+  if (!game) return null
+
+  const side = bet || (oldLine !== undefined && newLine !== undefined ? steamBet(game, oldLine, newLine) : null)
+  if (!side) return null
+
+  const selections: ClvSelection[] = []
+  for (const market of gameMarkets(game, now)) {
+    const i = market.bets.indexOf(side)
+    if (i < 0) continue
+
+    for (const quote of market.quotes) {
+      const odds = quote[market.fields[i]]
+      if (!odds || !books.includes(quote.bookmaker) || selections.some(s => s.book === quote.bookmaker)) continue
+      selections.push({ bet: side, book: quote.bookmaker, odds })
+    }
+  }
+
+  return trackPrice({
+    kind: 'signal',
+    signalId: signal.id,
+    signalType: 'steam',
+    nodeId: signal.source.nodeId,
+    gameId: game.gameId,
+    sport: game.sport,
+    selections
+  })
+}
+
+// ============================================
+// STATS
+// ============================================
+
+/**
+ * CLV of a node's signals or a user's bets, overall and by type
+ */
+export async function getClvStats(
+  filter: { nodeId?: string; userId?: string; days?: number }
+): Promise<ClvStats> {
+  const empty: ClvSummary = { tracked: 0, graded: 0, avgClv: null, avgBookClv: null, beatClosePct: null }
+
+  try {
+    const result = await db.query(`
+      SELECT
+        COALESCE(signal_type, kind) AS type,
+        COUNT(*) AS tracked,
+        COUNT(clv) AS graded,
+        SUM(clv) AS total_clv,
+        SUM(book_clv) AS total_book_clv,
+        COUNT(book_clv) AS book_graded,
+        COUNT(*) FILTER (WHERE clv > 0) AS beat_close
+      FROM tracked_prices
+      WHERE ($1::varchar IS NULL OR node_id = $1)
+        AND ($2::uuid IS NULL OR user_id = $2)
+        AND taken_at > NOW() - make_interval(days => $3)
+      GROUP BY 1
+    `, [filter.nodeId || null, filter.userId || null, filter.days ?? 30])
+
+    const summarize = (rows: any[]): ClvSummary => {
+      const tracked = sum(rows.map(row => parseInt(row.tracked)))
+      const graded = sum(rows.map(row => parseInt(row.graded)))
+      const bookGraded = sum(rows.map(row => parseInt(row.book_graded)))
+      return {
+        tracked,
+        graded,
+        avgClv: graded > 0 ? round2(sum(rows.map(row => parseFloat(row.total_clv || 0))) / graded) : null,
+        avgBookClv: bookGraded > 0 ? round2(sum(rows.map(row => parseFloat(row.total_book_clv || 0))) / bookGraded) : null,
+        beatClosePct: graded > 0 ? round2(sum(rows.map(row => parseInt(row.beat_close))) / graded * 100) : null
+      }
+    }
+
+    return {
+      ...summarize(result.rows),
+      byType: Object.fromEntries(result.rows.map(row => [row.type, summarize([row])]))
+    }
+  } catch (err) {
+    return { ...empty, byType: {} }
+  }
+}
+
+/**
+ * A user's logged bets, newest first, with their grades
+ */
+export async function getUserBets(userId: string, limit = 50): Promise<Array<{
+  id: number
+  gameId: string
+  sport: string
+  selections: ClvSelection[] | GradedSelection[]
+  stake: number | null
+  takenAt: string
+  clv: number | null
+  bookClv: number | null
+  gradedAt: string | null
+}>> {
+  try {
+    const result = await db.query(`
+      SELECT id, game_id, sport, selections, closing, stake, taken_at, clv, book_clv, graded_at
+      FROM tracked_prices
+      WHERE user_id = $1 AND kind = 'bet'
+      ORDER BY taken_at DESC
+      LIMIT $2
+    `, [userId, limit])
+
+    return result.rows.map(row => ({
+      id: row.id,
+      gameId: row.game_id,
+      sport: row.sport,
+      selections: row.closing || row.selections,
+      stake: row.stake === null ? null : parseFloat(row.stake),
+      takenAt: row.taken_at,
+      clv: row.clv === null ? null : parseFloat(row.clv),
+      bookClv: row.book_clv === null ? null : parseFloat(row.book_clv),
+      gradedAt: row.graded_at
+    }))
+  } catch (err) {
+    return []
+  }
+}
+
+export default {
+  recordPregamePrices,
+  gradeSelections,
+  getClosingLines,
+  getSnapshotCount,
+  trackPrice,
+  logBet,
+  trackEvSignal,
+  trackArbSignal,
+  trackSteamSignal,
+  steamBet,
+  getClvStats,
+  getUserBets
+}
@@ -5,10 +5,17 @@
  * - Line movement history
  * - Betting patterns (vectorized)
  * - Game context for pattern matching
- * - Signal outcomes for reputation
+ * - Signal outcomes for reputation, alongside closing line value
+ *
+ * Game ids are stored as canonical SportIntel ids (see event-registry), so
+ * history recorded from any provider lines up for the same game.
  */
 
 import { db } from '../db/index.js'
+import { resolveEvent, resolveGameId } from './event-registry.js'
+import { getBookWeight } from './book-weights.js'
+import { getClvStats, type ClvStats } from './clv-tracker.js'
+import type { QuoteMarket } from './arbitrage-engine.js'
 
 // ============================================
 // LINE MOVEMENT TRACKING
@@ -29,6 +36,17 @@ export interface LineMovement {
   timeToGame?: number
 }
 
+// Ledger markets are stored under the Odds API keys
+const LEDGER_MARKETS: Record<string, QuoteMarket> = {
+  h2h: 'moneyline',
+  spreads: 'spread',
+  totals: 'total'
+}
+
+// Combined book weight that confirms a steam move: three ordinary books,
+// or a single market maker
+const STEAM_MIN_WEIGHT = parseFloat(process.env.STEAM_MIN_WEIGHT || '3')
+
 export async function recordLineMovement(movement: LineMovement): Promise<void> {
   try {
     await db.query(`
@@ -36,7 +54,7 @@ export async function recordLineMovement(movement: LineMovement): Promise<void>
       (game_id, sport, bookmaker, market, side, old_line, new_line, old_odds, new_odds, delta, velocity, time_to_game)
       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
     `, [
-      movement.gameId,
+      resolveGameId(movement.gameId),
       movement.sport,
       movement.bookmaker,
       movement.market,
@@ -65,7 +83,7 @@ export async function getLineHistory(
       WHERE game_id = $1
       ORDER BY captured_at DESC
       LIMIT $2
-    `, [gameId, limit])
+    `, [resolveGameId(gameId), limit])
     return result.rows
   } catch (err) {
     return []
@@ -80,28 +98,41 @@ export async function detectSteamMove(
   books: string[]
   totalDelta: number
   velocity: number
+  sharpWeight: number
 } | null> {
   try {
     const result = await db.query(`
       SELECT
-        array_agg(DISTINCT bookmaker) as books,
-        SUM(ABS(delta)) as total_delta,
-        COUNT(*) as move_count
+        bookmaker,
+        sport,
+        market,
+        SUM(ABS(delta)) as total_delta
       FROM line_movements
       WHERE game_id = $1
         AND captured_at > NOW() - INTERVAL '${windowSeconds} seconds'
-    `, [gameId])
-
-    const row = result.rows[0]
-    if (!row || !row.books) return null
+      GROUP BY bookmaker, sport, market
+    `, [resolveGameId(gameId)])
+
+    if (result.rows.length === 0) return null
+
+    // Each book counts once, at its weight in the sharpest market it moved
+    const weights = new Map<string, number>()
+    let totalDelta = 0
+    for (const row of result.rows) {
+      const weight = getBookWeight(row.bookmaker, row.sport, LEDGER_MARKETS[row.market])
+      weights.set(row.bookmaker, Math.max(weights.get(row.bookmaker) ?? 0, weight))
+      totalDelta += parseFloat(row.total_delta)
+    }
 
-    const isSteam = row.books.length >= 3 && parseFloat(row.total_delta) >= 2
+    const sharpWeight = Array.from(weights.values()).reduce((sum, w) => sum + w, 0)
+    const isSteam = sharpWeight >= STEAM_MIN_WEIGHT && totalDelta >= 2
 
     return {
       isSteam,
-      books: row.books,
-      totalDelta: parseFloat(row.total_delta),
-      velocity: parseFloat(row.total_delta) / windowSeconds
+      books: Array.from(weights.keys()),
+      totalDelta,
+      velocity: totalDelta / windowSeconds,
+      sharpWeight
     }
   } catch (err) {
     return null
@@ -229,6 +260,26 @@ export interface GameContext {
 }
 
 export async function saveGameContext(context: GameContext): Promise<void> {
+  let gameId = resolveGameId(context.gameId)
+  let homeTeam = context.homeTeam
+  let awayTeam = context.awayTeam
+  const start = context.startTime ? new Date(context.startTime) : null
+
+  // Resolve by teams + start so context saved under a provider id still lands on the canonical game
+  if (context.sport && context.homeTeam && context.awayTeam && start && !isNaN(start.getTime())) {
+    const { event, swapped } = resolveEvent({
+      sport: context.sport,
+      homeTeam: context.homeTeam,
+      awayTeam: context.awayTeam,
+      commenceTime: start.toISOString(),
+      provider: 'context',
+      providerEventId: context.gameId
+    })
+    gameId = event.id
+    homeTeam = swapped ? event.awayTeam : event.homeTeam
+    awayTeam = swapped ? event.homeTeam : event.awayTeam
+  }
+
   try {
     await db.query(`
       INSERT INTO game_context
@@ -242,10 +293,10 @@ export async function saveGameContext(context: GameContext): Promise<void> {
         weather = EXCLUDED.weather,
         updated_at = CURRENT_TIMESTAMP
     `, [
-      context.gameId,
+      gameId,
       context.sport,
-      context.homeTeam,
-      context.awayTeam,
+      homeTeam,
+      awayTeam,
       context.startTime,
       context.venue,
       JSON.stringify(context.weather || {}),
@@ -265,7 +316,7 @@ export async function getGameContext(gameId: string): Promise<GameContext | null
   try {
     const result = await db.query(
       'SELECT * FROM game_context WHERE game_id = $1',
-      [gameId]
+      [resolveGameId(gameId)]
     )
     if (!result.rows[0]) return null
 
@@ -336,7 +387,7 @@ export async function recordSignalOutcome(outcome: SignalOutcome): Promise<numbe
       outcome.signalId,
       outcome.signalType,
       outcome.nodeId,
-      outcome.gameId,
+      outcome.gameId && resolveGameId(outcome.gameId),
       outcome.sport,
       outcome.prediction,
       outcome.confidence,
@@ -364,28 +415,35 @@ export async function recordSignalOutcome(outcome: SignalOutcome): Promise<numbe
   }
 }
 
+/**
+ * A node's reputation and win/loss record, with the closing line value of
+ * its signals. Nodes not in the table still have CLV when their signals
+ * were tracked.
+ */
 export async function getNodeStats(nodeId: string): Promise<{
   reputation: number
   signalsPublished: number
   signalsCorrect: number
   signalsIncorrect: number
   accuracy: number
+  clv: ClvStats
 } | null> {
   try {
-    const result = await db.query(
-      'SELECT * FROM network_nodes WHERE id = $1',
-      [nodeId]
-    )
-    if (!result.rows[0]) return null
+    const [result, clv] = await Promise.all([
+      db.query('SELECT * FROM network_nodes WHERE id = $1', [nodeId]),
+      getClvStats({ nodeId })
+    ])
+    if (!result.rows[0] && clv.tracked === 0) return null
 
-    const row = result.rows[0]
+    const row = result.rows[0] || { reputation: 50, signals_published: 0, signals_correct: 0, signals_incorrect: 0 }
     const total = row.signals_correct + row.signals_incorrect
     return {
       reputation: row.reputation,
       signalsPublished: row.signals_published,
       signalsCorrect: row.signals_correct,
       signalsIncorrect: row.signals_incorrect,
-      accuracy: total > 0 ? row.signals_correct / total : 0
+      accuracy: total > 0 ? row.signals_correct / total : 0,
+      clv
     }
   } catch (err) {
     return null
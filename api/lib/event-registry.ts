@@ -0,0 +1,401 @@
+/**
+ * Event Registry
+ *
+ * Resolves the same game quoted by different providers to one canonical
+ * event with a stable SportIntel game id:
+ * 1. Team names are mapped to a canonical name via per-sport alias tables,
+ *    falling back to fuzzy token matching
+ * 2. Events match on canonical teams (either orientation) with commence
+ *    times within COMMENCE_WINDOW_MS of each other
+ * 3. Ids are derived from sport, commence date and teams, so they survive
+ *    restarts: nba-20250114-bos-lal (doubleheaders get a -2 suffix)
+ */
+
+import type { NormalizedOdds, PriceField } from './arbitrage-engine.js'
+import teamAliases from './team-aliases.json' with { type: 'json' }
+
+export interface CanonicalEvent {
+  id: string
+  sport: string
+  homeTeam: string
+  awayTeam: string
+  commenceTime: string
+  providerIds: Record<string, string>   // provider -> provider event id
+  lastSeen: number
+}
+
+export interface EventResolution {
+  event: CanonicalEvent
+  swapped: boolean        // Provider listed home/away the other way round
+}
+
+export interface EventInput {
+  sport: string
+  homeTeam: string
+  awayTeam: string
+  commenceTime?: string
+  provider?: string
+  providerEventId?: string
+}
+
+// Providers disagree on commence time by minutes, occasionally hours (TBD starts)
+const COMMENCE_WINDOW_MS = 3 * 60 * 60 * 1000
+const EVENT_RETENTION_MS = 2 * 24 * 60 * 60 * 1000
+// Minimum fuzzy score - one token unique to the team
+const MIN_FUZZY_SCORE = 1
+
+// Canonical name first, then abbreviation, then other aliases.
+// Shared with the MCP server's registry (src/services/event-registry).
+const TEAM_ALIASES: Record<string, string[][]> = teamAliases
+
+interface TeamIndex {
+  aliases: Map<string, string>          // normalized alias -> canonical
+  tokens: Map<string, Set<string>>      // token -> canonical names using it
+  teamTokens: Map<string, Set<string>>  // canonical -> tokens
+  abbreviations: Map<string, string>    // canonical -> abbreviation
+}
+
+// State
+const teamIndexes = new Map<string, TeamIndex>()
+const events = new Map<string, CanonicalEvent>()
+const providerIndex = new Map<string, string>()   // `${provider}:${id}` -> event id
+const rawIdIndex = new Map<string, string>()      // provider event id -> event id
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normalizeName(name: string): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Generational suffixes books include inconsistently
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v'])
+
+/**
+ * Key for matching a player across books: "Last, First" flipped, periods,
+ * apostrophes and spaced initials joined, trailing suffixes dropped -
+ * "P.J. Washington Jr." and "Washington, PJ" both give "pj washington"
+ */
+export function normalizePlayerName(name: string): string {
+  const raw = name || ''
+  const flipped = raw.includes(',') ? raw.split(',').map(part => part.trim()).reverse().join(' ') : raw
+  const tokens = normalizeName(flipped.replace(/[.'’]/g, '')).split(' ').filter(Boolean)
+
+  // Only a suffix when there's still a first and last name without it
+  while (tokens.length > 2 && NAME_SUFFIXES.has(tokens[tokens.length - 1])) tokens.pop()
+
+  return tokens.join(' ').replace(/\b([a-z]) (?=[a-z]\b)/g, '$1')
+}
+
+function getTeamIndex(sport: string): TeamIndex | null {
+  const key = sport.toLowerCase()
+  const table = TEAM_ALIASES[key]
+  if (!table) return null
+
+  let index = teamIndexes.get(key)
+  if (index) return index
+
+  index = { aliases: new Map(), tokens: new Map(), teamTokens: new Map(), abbreviations: new Map() }
+
+  for (const [canonical, abbreviation, ...others] of table) {
+    index.abbreviations.set(canonical, abbreviation.toLowerCase())
+
+    const tokens = new Set<string>()
+    for (const alias of [canonical, abbreviation, ...others]) {
+      const normalized = normalizeName(alias)
+      index.aliases.set(normalized, canonical)
+      // Abbreviations only count as exact matches
+      if (alias === abbreviation) continue
+      for (const token of normalized.split(' ')) tokens.add(token)
+    }
+
+    index.teamTokens.set(canonical, tokens)
+    for (const token of tokens) {
+      if (!index.tokens.has(token)) index.tokens.set(token, new Set())
+      index.tokens.get(token)!.add(canonical)
+    }
+  }
+
+  teamIndexes.set(key, index)
+  return index
+}
+
+/**
+ * True when a and b differ by at most one insertion, deletion or substitution
+ */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false
+
+  let i = 0
+  let j = 0
+  let edits = 0
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++
+      j++
+      continue
+    }
+    if (++edits > 1) return false
+    if (a.length > b.length) i++
+    else if (b.length > a.length) j++
+    else {
+      i++
+      j++
+    }
+  }
+
+  return edits + (a.length - i) + (b.length - j) <= 1
+}
+
+/**
+ * Fuzzy match: each input token scores 1 / (teams sharing it), with one typo
+ * allowed on longer tokens. The best team must be unique.
+ */
+function fuzzyMatchTeam(index: TeamIndex, normalized: string): string | null {
+  const scores = new Map<string, number>()
+
+  for (const token of normalized.split(' ')) {
+    let teams = index.tokens.get(token)
+
+    if (!teams && token.length >= 5) {
+      for (const [candidate, candidateTeams] of index.tokens) {
+        if (candidate.length >= 5 && withinOneEdit(token, candidate)) {
+          teams = candidateTeams
+          break
+        }
+      }
+    }
+    if (!teams) continue
+
+    for (const team of teams) {
+      scores.set(team, (scores.get(team) || 0) + 1 / teams.size)
+    }
+  }
+
+  let best: string | null = null
+  let bestScore = 0
+  let tied = false
+
+  for (const [team, score] of scores) {
+    if (score > bestScore) {
+      best = team
+      bestScore = score
+      tied = false
+    } else if (score === bestScore) {
+      tied = true
+    }
+  }
+
+  return best && !tied && bestScore >= MIN_FUZZY_SCORE ? best : null
+}
+
+/**
+ * Canonical team name for a sport. Unknown teams come back trimmed as-is.
+ */
+export function normalizeTeamName(sport: string, name: string): string {
+  const index = getTeamIndex(sport)
+  const normalized = normalizeName(name)
+  if (!index) return (name || '').trim()
+
+  return index.aliases.get(normalized) || fuzzyMatchTeam(index, normalized) || (name || '').trim()
+}
+
+function teamSlug(sport: string, canonical: string): string {
+  return getTeamIndex(sport)?.abbreviations.get(canonical) ||
+    normalizeName(canonical).replace(/ /g, '')
+}
+
+function dateStamp(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+function pruneEvents(now: number): void {
+  for (const [id, event] of events) {
+    const start = Date.parse(event.commenceTime)
+    const reference = isNaN(start) ? event.lastSeen : Math.max(start, event.lastSeen)
+    if (now - reference < EVENT_RETENTION_MS) continue
+
+    events.delete(id)
+    for (const [provider, providerEventId] of Object.entries(event.providerIds)) {
+      providerIndex.delete(`${provider}:${providerEventId}`)
+      rawIdIndex.delete(providerEventId)
+    }
+  }
+}
+
+function linkProviderId(event: CanonicalEvent, provider?: string, providerEventId?: string): void {
+  if (!providerEventId || providerEventId === event.id) return
+  const source = provider || 'unknown'
+  event.providerIds[source] = providerEventId
+  providerIndex.set(`${source}:${providerEventId}`, event.id)
+  rawIdIndex.set(providerEventId, event.id)
+}
+
+/**
+ * Find or create the canonical event for a provider's game
+ */
+export function resolveEvent(input: EventInput, now = Date.now()): EventResolution {
+  const sport = input.sport.toLowerCase()
+  const homeTeam = normalizeTeamName(sport, input.homeTeam)
+  const awayTeam = normalizeTeamName(sport, input.awayTeam)
+  const commence = Date.parse(input.commenceTime || '')
+
+  // Provider id seen before
+  if (input.providerEventId) {
+    const knownId = providerIndex.get(`${input.provider || 'unknown'}:${input.providerEventId}`)
+    const known = knownId ? events.get(knownId) : undefined
+    if (known) {
+      known.lastSeen = now
+      return { event: known, swapped: known.homeTeam === awayTeam && known.awayTeam === homeTeam }
+    }
+  }
+
+  // Same teams, commence within the window; closest start wins, same orientation first
+  let match: EventResolution | null = null
+  let matchDistance = Infinity
+
+  for (const event of events.values()) {
+    if (event.sport !== sport) continue
+
+    const straight = event.homeTeam === homeTeam && event.awayTeam === awayTeam
+    const swapped = event.homeTeam === awayTeam && event.awayTeam === homeTeam
+    if (!straight && !swapped) continue
+
+    const start = Date.parse(event.commenceTime)
+    const reference = isNaN(commence) ? now : commence
+    const distance = isNaN(start) ? COMMENCE_WINDOW_MS : Math.abs(start - reference)
+    if (!isNaN(commence) && distance > COMMENCE_WINDOW_MS) continue
+
+    const score = distance + (swapped ? 1 : 0)
+    if (score < matchDistance) {
+      match = { event, swapped: !straight }
+      matchDistance = score
+    }
+  }
+
+  if (match) {
+    match.event.lastSeen = now
+    if (isNaN(Date.parse(match.event.commenceTime)) && !isNaN(commence)) {
+      match.event.commenceTime = new Date(commence).toISOString()
+    }
+    linkProviderId(match.event, input.provider, input.providerEventId)
+    return match
+  }
+
+  pruneEvents(now)
+
+  const baseId = `${sport}-${dateStamp(isNaN(commence) ? now : commence)}-` +
+    `${teamSlug(sport, awayTeam)}-${teamSlug(sport, homeTeam)}`
+  let id = baseId
+  for (let n = 2; events.has(id); n++) {
+    id = `${baseId}-${n}`
+  }
+
+  const event: CanonicalEvent = {
+    id,
+    sport,
+    homeTeam,
+    awayTeam,
+    commenceTime: isNaN(commence) ? '' : new Date(commence).toISOString(),
+    providerIds: {},
+    lastSeen: now
+  }
+  events.set(id, event)
+  linkProviderId(event, input.provider, input.providerEventId)
+
+  return { event, swapped: false }
+}
+
+/**
+ * Canonical id for any known provider event id (or canonical id).
+ * Unknown ids are returned unchanged.
+ */
+export function resolveGameId(gameId: string): string {
+  if (!gameId || events.has(gameId)) return gameId
+  return rawIdIndex.get(gameId) || gameId
+}
+
+// Home/away entries of an exchange per-outcome map, flipped
+function swapSides(byField: Partial<Record<PriceField, number>>): Partial<Record<PriceField, number>> {
+  const swapped = { ...byField }
+  const pairs: [PriceField, PriceField][] = [['homeOdds', 'awayOdds'], ['spreadHomeOdds', 'spreadAwayOdds']]
+  for (const [home, away] of pairs) {
+    delete swapped[home]
+    delete swapped[away]
+    if (byField[away] !== undefined) swapped[home] = byField[away]
+    if (byField[home] !== undefined) swapped[away] = byField[home]
+  }
+  return swapped
+}
+
+/**
+ * Rewrite a provider's games onto canonical events: stable gameId, canonical
+ * team names, and home/away prices (exchange lay prices and sizes too) flipped
+ * when the provider listed them reversed.
+ */
+export function canonicalizeGames(provider: string, games: NormalizedOdds[], now = Date.now()): NormalizedOdds[] {
+  return games.map(game => {
+    const { event, swapped } = resolveEvent({
+      sport: game.sport,
+      homeTeam: game.homeTeam,
+      awayTeam: game.awayTeam,
+      commenceTime: game.startTime,
+      provider,
+      providerEventId: game.gameId
+    }, now)
+
+    const books = swapped
+      ? game.books.map(book => ({
+          ...book,
+          homeOdds: book.awayOdds,
+          awayOdds: book.homeOdds,
+          homeSpread: book.awaySpread,
+          awaySpread: book.homeSpread,
+          spreadHomeOdds: book.spreadAwayOdds,
+          spreadAwayOdds: book.spreadHomeOdds,
+          ...(book.lay && { lay: swapSides(book.lay) }),
+          ...(book.available && { available: swapSides(book.available) }),
+          ...(book.layAvailable && { layAvailable: swapSides(book.layAvailable) })
+        }))
+      : game.books
+
+    return {
+      ...game,
+      gameId: event.id,
+      game: `${event.awayTeam} @ ${event.homeTeam}`,
+      homeTeam: event.homeTeam,
+      awayTeam: event.awayTeam,
+      startTime: event.commenceTime || game.startTime,
+      books
+    }
+  })
+}
+
+export function getEvent(id: string): CanonicalEvent | undefined {
+  return events.get(resolveGameId(id))
+}
+
+export function getEvents(sport?: string): CanonicalEvent[] {
+  return Array.from(events.values())
+    .filter(e => !sport || e.sport === sport.toLowerCase())
+    .sort((a, b) => a.commenceTime.localeCompare(b.commenceTime))
+}
+
+export default {
+  normalizeName,
+  normalizePlayerName,
+  normalizeTeamName,
+  resolveEvent,
+  resolveGameId,
+  canonicalizeGames,
+  getEvent,
+  getEvents
+}
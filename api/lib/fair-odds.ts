@@ -0,0 +1,448 @@
+/**
+ * No-Vig Fair Odds Engine
+ *
+ * Prices every market without the bookmaker margin and finds +EV bets:
+ * 1. Each book's full market (two-way, or three-way moneylines) is devigged
+ *    into fair probabilities - multiplicative, additive, power or Shin
+ * 2. The books' fair probabilities are averaged into a consensus fair line,
+ *    each book weighted by how sharp it is for the sport and market
+ * 3. Each price is compared with the consensus of the *other* books, so a
+ *    soft book can't vouch for its own mistake
+ * 4. Prices that beat fair by the minimum edge are +EV bets
+ *
+ * Edge is expected profit per $1 staked, net of exchange commission:
+ * fair probability x decimal odds - 1.
+ */
+
+import {
+  getCommission,
+  getMaxQuoteAge,
+  netDecimal,
+  quoteAge,
+  quoteConfidence,
+  usableBooks,
+  type BookOdds,
+  type NormalizedOdds,
+  type PriceField,
+  type QuoteMarket
+} from './arbitrage-engine.js'
+import { byLine } from './market-hold.js'
+import { getBookWeight } from './book-weights.js'
+
+export type DevigMethod = 'multiplicative' | 'additive' | 'power' | 'shin'
+
+export const DEVIG_METHODS: DevigMethod[] = ['multiplicative', 'additive', 'power', 'shin']
+
+export interface FairOutcome {
+  bet: string
+  probability: number   // % with the vig removed
+  fairOdds: number      // American
+}
+
+export interface FairLine {
+  id: string
+  gameId: string
+  game: string
+  sport: string
+  market: QuoteMarket
+  line?: number         // Home spread or total line
+  method: DevigMethod
+  outcomes: FairOutcome[]
+  books: { book: string; weight: number }[] // Books in the consensus
+  weight: number        // Their combined weight
+  isLive: boolean
+  startTime: string
+}
+
+// A game's true price: the consensus on its moneyline and its most heavily
+// backed spread and total lines
+export interface GameConsensus {
+  gameId: string
+  method: DevigMethod
+  moneyline?: FairLine
+  spread?: FairLine
+  total?: FairLine
+}
+
+export interface EVBet {
+  id: string
+  gameId: string
+  game: string
+  sport: string
+  market: QuoteMarket
+  line?: number
+  bet: string
+  book: string
+  odds: number          // American, as offered
+  fairOdds: number      // American, consensus of the other books
+  fairProbability: number // %
+  edge: number          // % expected profit per $1 staked
+  method: DevigMethod
+  consensusBooks: number
+  consensusWeight: number
+  confidence: number    // 0-100: consensus weight and quote freshness
+  quoteAgeMs: number
+  isLive: boolean
+  startTime: string
+}
+
+export interface FairOddsOptions {
+  method?: DevigMethod
+  minBooks?: number     // Books needed in a consensus
+}
+
+// One market's outcomes and the quotes pricing it
+export interface FairMarket {
+  key: string
+  market: QuoteMarket
+  line?: number
+  bets: string[]
+  fields: PriceField[]
+  quotes: BookOdds[]
+}
+
+// One book's devigged market
+interface BookFair {
+  book: string
+  weight: number
+  probabilities: number[]
+}
+
+interface Consensus {
+  probabilities: number[]
+  books: { book: string; weight: number }[]
+  weight: number
+}
+
+// Consensus method and depth, and the edge a price needs to be flagged (%)
+const DEFAULT_METHOD: DevigMethod = DEVIG_METHODS.includes(process.env.FAIR_ODDS_METHOD as DevigMethod)
+  ? process.env.FAIR_ODDS_METHOD as DevigMethod
+  : 'power'
+const EV_MIN_BOOKS = parseInt(process.env.EV_MIN_BOOKS || '2')
+export const EV_MIN_EDGE = parseFloat(process.env.EV_MIN_EDGE || '2')
+
+if (process.env.FAIR_ODDS_METHOD && DEFAULT_METHOD !== process.env.FAIR_ODDS_METHOD) {
+  console.error(`[FAIR ODDS] Invalid FAIR_ODDS_METHOD, using ${DEFAULT_METHOD}. Use: ${DEVIG_METHODS.join(', ')}`)
+}
+
+// Consensus weight at which it's fully trusted: one market maker, or a
+// handful of ordinary books
+const FULL_CONFIDENCE_WEIGHT = 5
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// Convert decimal odds to American
+export function decimalToAmerican(decimal: number): number {
+  if (decimal >= 2) return Math.round((decimal - 1) * 100)
+  return Math.round(-100 / (decimal - 1))
+}
+
+// ============================================
+// DEVIG METHODS
+// ============================================
+
+// Root of a decreasing function on [lo, hi]
+function bisect(f: (x: number) => number, lo: number, hi: number): number {
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2
+    if (f(mid) > 0) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0)
+
+// Margin spread in proportion to each outcome's implied probability
+function multiplicative(implied: number[]): number[] {
+  const total = sum(implied)
+  return implied.map(p => p / total)
+}
+
+// Margin split equally between outcomes. Falls back to multiplicative
+// when a longshot would be pushed to zero or below.
+function additive(implied: number[]): number[] {
+  const share = (sum(implied) - 1) / implied.length
+  const fair = implied.map(p => p - share)
+  return fair.every(p => p > 0) ? fair : multiplicative(implied)
+}
+
+// p = q^k, with k solved so the probabilities sum to 1. Takes more margin
+// off longshots, matching the favourite-longshot bias.
+function power(implied: number[]): number[] {
+  const k = bisect(k => sum(implied.map(p => p ** k)) - 1, 1, 100)
+  return multiplicative(implied.map(p => p ** k))
+}
+
+// Shin's model: the margin protects the book against a share z of insider
+// money, solved so the probabilities sum to 1
+function shin(implied: number[]): number[] {
+  const total = sum(implied)
+  const probabilities = (z: number) => implied.map(p =>
+    (Math.sqrt(z * z + 4 * (1 - z) * p * p / total) - z) / (2 * (1 - z))
+  )
+  const z = bisect(z => sum(probabilities(z)) - 1, 0, 0.5)
+  return multiplicative(probabilities(z))
+}
+
+const DEVIG: Record<DevigMethod, (implied: number[]) => number[]> = {
+  multiplicative,
+  additive,
+  power,
+  shin
+}
+
+/**
+ * Fair probabilities (summing to 1) from a full market's decimal prices.
+ * A market with no margin (or an arb) is just normalised.
+ */
+export function devig(decimals: number[], method: DevigMethod = DEFAULT_METHOD): number[] {
+  const implied = decimals.map(d => 1 / d)
+  if (sum(implied) <= 1) return multiplicative(implied)
+  return DEVIG[method](implied)
+}
+
+// ============================================
+// CONSENSUS
+// ============================================
+
+// Moneyline (two- and three-way kept apart), and each spread and total line
+export function gameMarkets(game: NormalizedOdds, now: number): FairMarket[] {
+  const markets: FairMarket[] = []
+  const homeBet = `${game.homeTeam} ML`
+  const awayBet = `${game.awayTeam} ML`
+
+  const moneyline = usableBooks(game, 'moneyline', now)
+  markets.push(
+    {
+      key: 'ml',
+      market: 'moneyline',
+      bets: [homeBet, awayBet],
+      fields: ['homeOdds', 'awayOdds'],
+      quotes: moneyline.filter(b => !b.drawOdds)
+    },
+    {
+      key: 'ml3',
+      market: 'moneyline',
+      bets: [homeBet, 'Draw', awayBet],
+      fields: ['homeOdds', 'drawOdds', 'awayOdds'],
+      quotes: moneyline.filter(b => !!b.drawOdds)
+    }
+  )
+
+  for (const [spread, quotes] of byLine(usableBooks(game, 'spread', now), b => b.homeSpread)) {
+    markets.push({
+      key: `spread-${spread}`,
+      market: 'spread',
+      line: spread,
+      bets: [`${game.homeTeam} ${spread > 0 ? '+' : ''}${spread}`, `${game.awayTeam} ${-spread > 0 ? '+' : ''}${-spread}`],
+      fields: ['spreadHomeOdds', 'spreadAwayOdds'],
+      quotes
+    })
+  }
+
+  for (const [total, quotes] of byLine(usableBooks(game, 'total', now), b => b.totalLine)) {
+    markets.push({
+      key: `total-${total}`,
+      market: 'total',
+      line: total,
+      bets: [`Over ${total}`, `Under ${total}`],
+      fields: ['overOdds', 'underOdds'],
+      quotes
+    })
+  }
+
+  return markets.filter(m => m.quotes.length > 0)
+}
+
+// Devig every weighted book that quotes the whole market
+function bookFairs(market: FairMarket, sport: string, method: DevigMethod): BookFair[] {
+  const fairs: BookFair[] = []
+
+  for (const quote of market.quotes) {
+    const prices = market.fields.map(field => quote[field])
+    if (prices.some(odds => !odds)) continue
+
+    const weight = getBookWeight(quote.bookmaker, sport, market.market)
+    if (weight <= 0) continue
+
+    const commission = getCommission(quote.bookmaker)
+    fairs.push({
+      book: quote.bookmaker,
+      weight,
+      probabilities: devig(prices.map(odds => netDecimal(odds!, commission)), method)
+    })
+  }
+
+  return fairs
+}
+
+/**
+ * Consensus fair probabilities: the books' devigged probabilities averaged
+ * per outcome, weighted per book. Null when fewer than minBooks books are left.
+ */
+function consensus(fairs: BookFair[], minBooks: number, exclude?: string): Consensus | null {
+  const included = fairs.filter(fair => fair.book !== exclude)
+  if (included.length === 0 || included.length < minBooks) return null
+
+  const weight = sum(included.map(fair => fair.weight))
+  const probabilities = included[0].probabilities.map((_, i) =>
+    sum(included.map(fair => fair.probabilities[i] * fair.weight)) / weight
+  )
+  return {
+    probabilities,
+    books: included.map(({ book, weight }) => ({ book, weight })),
+    weight: round2(weight)
+  }
+}
+
+function toFairLine(game: NormalizedOdds, market: FairMarket, method: DevigMethod, fair: Consensus): FairLine {
+  return {
+    id: `${game.gameId}-${market.key}`,
+    gameId: game.gameId,
+    game: game.game,
+    sport: game.sport,
+    market: market.market,
+    line: market.line,
+    method,
+    outcomes: market.bets.map((bet, i) => ({
+      bet,
+      probability: round2(fair.probabilities[i] * 100),
+      fairOdds: decimalToAmerican(1 / fair.probabilities[i])
+    })),
+    books: fair.books,
+    weight: fair.weight,
+    isLive: !!game.isLive,
+    startTime: game.startTime
+  }
+}
+
+/**
+ * Consensus no-vig line on every market of a game
+ */
+export function calculateFairLines(
+  game: NormalizedOdds,
+  options: FairOddsOptions = {},
+  now = Date.now()
+): FairLine[] {
+  const { method = DEFAULT_METHOD, minBooks = 1 } = options
+  const lines: FairLine[] = []
+
+  for (const market of gameMarkets(game, now)) {
+    const fair = consensus(bookFairs(market, game.sport, method), minBooks)
+    if (fair) lines.push(toFairLine(game, market, method, fair))
+  }
+
+  return lines
+}
+
+/**
+ * A game's weighted consensus line. The moneyline carrying the most weight
+ * (two- or three-way) stands, as do the spread and total lines the sharpest
+ * books are hanging.
+ */
+export function calculateGameConsensus(
+  game: NormalizedOdds,
+  options: FairOddsOptions = {},
+  now = Date.now()
+): GameConsensus {
+  const method = options.method ?? DEFAULT_METHOD
+  const result: GameConsensus = { gameId: game.gameId, method }
+
+  for (const line of calculateFairLines(game, options, now)) {
+    const market = line.market as Exclude<QuoteMarket, 'prop'>
+    if (!result[market] || line.weight > result[market]!.weight) result[market] = line
+  }
+
+  return result
+}
+
+/**
+ * Prices on a game that beat the other books' consensus fair line by at
+ * least minEdge (%)
+ */
+export function detectEVBets(
+  game: NormalizedOdds,
+  options: FairOddsOptions & { minEdge?: number } = {},
+  now = Date.now()
+): EVBet[] {
+  const { method = DEFAULT_METHOD, minBooks = EV_MIN_BOOKS, minEdge = EV_MIN_EDGE } = options
+  const bets: EVBet[] = []
+
+  for (const market of gameMarkets(game, now)) {
+    const fairs = bookFairs(market, game.sport, method)
+    if (fairs.length < minBooks) continue
+
+    const maxAge = getMaxQuoteAge(game.sport, market.market, game.isLive)
+
+    for (const quote of market.quotes) {
+      const fair = consensus(fairs, minBooks, quote.bookmaker)
+      if (!fair) continue
+
+      const commission = getCommission(quote.bookmaker)
+      const quoteAgeMs = quoteAge(quote, now, market.market)
+
+      market.fields.forEach((field, i) => {
+        const odds = quote[field]
+        if (!odds) return
+
+        const probability = fair.probabilities[i]
+        const edge = (probability * netDecimal(odds, commission) - 1) * 100
+        if (edge < minEdge) return
+
+        const depth = Math.min(1, fair.weight / FULL_CONFIDENCE_WEIGHT)
+        bets.push({
+          id: `${game.gameId}-${market.key}-${i}-${quote.bookmaker}`,
+          gameId: game.gameId,
+          game: game.game,
+          sport: game.sport,
+          market: market.market,
+          line: market.line,
+          bet: market.bets[i],
+          book: quote.bookmaker,
+          odds,
+          fairOdds: decimalToAmerican(1 / probability),
+          fairProbability: round2(probability * 100),
+          edge: round2(edge),
+          method,
+          consensusBooks: fair.books.length,
+          consensusWeight: fair.weight,
+          confidence: Math.round(depth * quoteConfidence(quoteAgeMs, maxAge)),
+          quoteAgeMs,
+          isLive: !!game.isLive,
+          startTime: game.startTime
+        })
+      })
+    }
+  }
+
+  return bets
+}
+
+/**
+ * +EV bets across games, biggest edge first
+ */
+export function findEVBets(
+  games: NormalizedOdds[],
+  options: FairOddsOptions & { minEdge?: number; limit?: number } = {},
+  now = Date.now()
+): EVBet[] {
+  return games
+    .flatMap(game => detectEVBets(game, options, now))
+    .sort((a, b) => b.edge - a.edge)
+    .slice(0, options.limit ?? Infinity)
+}
+
+export function getDefaultMethod(): DevigMethod {
+  return DEFAULT_METHOD
+}
+
+export default {
+  devig,
+  decimalToAmerican,
+  calculateFairLines,
+  calculateGameConsensus,
+  detectEVBets,
+  findEVBets,
+  getDefaultMethod
+}
@@ -0,0 +1,259 @@
+/**
+ * Incremental Arbitrage Scanning
+ *
+ * Keeps the last detection result per game and market so a poll only
+ * re-solves markets whose quotes changed:
+ * 1. Each market (moneyline, spread, total per game; each player prop) is
+ *    fingerprinted from its usable quotes - prices, lines, sizes, update
+ *    times and whether each quote has gone stale
+ * 2. A matching fingerprint reuses the previous arbs, re-stamped to the
+ *    current scan with their quote age and confidence rolled forward
+ * 3. A changed fingerprint re-runs that market's detectors (its spread or
+ *    total middles included)
+ * 4. Markets that drop out of the feed are forgotten
+ *
+ * Timing is tracked per re-solved market to confirm detection stays well
+ * under a millisecond per update.
+ */
+
+import {
+  detectMoneylineArbitrage,
+  detectSpreadArbitrage,
+  detectTotalsArbitrage,
+  detectSpreadMiddles,
+  detectTotalsMiddles,
+  detectPropArbitrage,
+  detectPropMiddles,
+  getMaxQuoteAge,
+  getSettingsVersion,
+  GAME_MARKET_FIELDS,
+  GAME_MARKET_PRICES,
+  isStaleQuote,
+  quoteConfidence,
+  usableBooks,
+  usablePropBooks,
+  type ArbitrageOpportunity,
+  type GameMarket,
+  type NormalizedOdds,
+  type NormalizedProp,
+  type QuoteMarket
+} from './arbitrage-engine.js'
+import { getDistributionVersion } from './outcome-distribution.js'
+
+export interface ScanStats {
+  scans: number
+  marketsChecked: number      // Every market looked at, all scans
+  marketsEvaluated: number    // Markets re-solved because their quotes changed
+  lastScanMs: number
+  lastMarkets: number
+  lastEvaluated: number
+  avgEvaluateMs: number       // Mean time to re-solve one changed market
+  maxEvaluateMs: number
+  reuseRate: number           // % of markets served from the previous result
+  trackedMarkets: number
+}
+
+interface MarketState {
+  fingerprint: string
+  arbs: ArbitrageOpportunity[]
+  scannedAt: number
+}
+
+// Every game market's arbs, middles included
+const DETECTORS: Record<GameMarket, (game: NormalizedOdds, minProfit: number, now: number) => ArbitrageOpportunity[]> = {
+  moneyline: (game, minProfit, now) => detectMoneylineArbitrage(game, minProfit, now),
+  spread: (game, minProfit, now) => [...detectSpreadArbitrage(game, minProfit, now), ...detectSpreadMiddles(game, now)],
+  total: (game, minProfit, now) => [...detectTotalsArbitrage(game, minProfit, now), ...detectTotalsMiddles(game, now)]
+}
+
+// State
+const markets = new Map<string, MarketState>()
+let settingsKey = ''     // Detection settings the tracked results were solved under
+const stats = {
+  scans: 0,
+  marketsChecked: 0,
+  marketsEvaluated: 0,
+  evaluateMs: 0,
+  maxEvaluateMs: 0,
+  lastScanMs: 0,
+  lastMarkets: 0,
+  lastEvaluated: 0
+}
+
+function gameFingerprint(game: NormalizedOdds, market: GameMarket, minProfit: number, now: number): string {
+  const fields = GAME_MARKET_FIELDS[market]
+  const prices = GAME_MARKET_PRICES[market]
+
+  const quotes = usableBooks(game, market, now).map(book => [
+    book.bookmaker,
+    book.timestamp,
+    isStaleQuote(book, game.sport, market, now, game.isLive) ? 1 : 0,
+    ...fields.map(field => book[field]),
+    ...prices.map(field => book.lay?.[field]),
+    ...prices.map(field => book.available?.[field]),
+    ...prices.map(field => book.layAvailable?.[field])
+  ].join(','))
+
+  return `${minProfit}|${game.isLive ? 1 : 0}|${quotes.join('|')}`
+}
+
+function propFingerprint(prop: NormalizedProp, minProfit: number, now: number): string {
+  const quotes = usablePropBooks(prop, now).map(book => [
+    book.bookmaker,
+    book.line,
+    book.timestamp,
+    isStaleQuote(book, prop.sport, 'prop', now, prop.isLive) ? 1 : 0,
+    book.overOdds,
+    book.underOdds
+  ].join(','))
+
+  return `${minProfit}|${prop.isLive ? 1 : 0}|${quotes.join('|')}`
+}
+
+// Market whose max quote age applies to an arb
+function quoteMarketOf(arb: ArbitrageOpportunity): QuoteMarket {
+  if (arb.middle) return arb.middle.market
+  return arb.type === 'prop' ? 'prop' : arb.type as QuoteMarket
+}
+
+/**
+ * Carry unchanged arbs forward: same quotes, so the same arbs, seen again
+ * now. Timing moves up to this scan and the quotes are that much older.
+ */
+function carryArbs(arbs: ArbitrageOpportunity[], now: number): ArbitrageOpportunity[] {
+  return arbs.map(arb => {
+    const quoteAgeMs = arb.quoteAgeMs + (now - arb.detectedAt)
+    const maxAge = getMaxQuoteAge(arb.sport, quoteMarketOf(arb), arb.isLive)
+    return {
+      ...arb,
+      quoteAgeMs,
+      quoteConfidence: quoteConfidence(quoteAgeMs, maxAge),
+      detectedAt: now,
+      expiresAt: now + (arb.expiresAt - arb.detectedAt)
+    }
+  })
+}
+
+/**
+ * Arbs for one market: the previous result when the fingerprint matches,
+ * otherwise a fresh (timed) detection
+ */
+function scanMarket(
+  key: string,
+  fingerprint: string,
+  now: number,
+  seen: Set<string>,
+  detect: () => ArbitrageOpportunity[]
+): ArbitrageOpportunity[] {
+  seen.add(key)
+  stats.marketsChecked++
+
+  const previous = markets.get(key)
+  if (previous && previous.fingerprint === fingerprint) {
+    if (now > previous.scannedAt) previous.arbs = carryArbs(previous.arbs, now)
+    previous.scannedAt = now
+    return previous.arbs
+  }
+
+  const start = performance.now()
+  const arbs = detect()
+  const elapsed = performance.now() - start
+
+  stats.marketsEvaluated++
+  stats.lastEvaluated++
+  stats.evaluateMs += elapsed
+  stats.maxEvaluateMs = Math.max(stats.maxEvaluateMs, elapsed)
+
+  markets.set(key, { fingerprint, arbs, scannedAt: now })
+  return arbs
+}
+
+/**
+ * Drop-in for scanForArbitrage that only re-solves markets whose quotes
+ * changed since the last scan
+ */
+export function scanChangedMarkets(
+  games: NormalizedOdds[],
+  minProfit = 0,
+  now = Date.now(),
+  props: NormalizedProp[] = []
+): ArbitrageOpportunity[] {
+  const startTime = performance.now()
+  const opportunities: ArbitrageOpportunity[] = []
+  const seen = new Set<string>()
+  stats.lastEvaluated = 0
+
+  // Commission, max quote age, stale mode or distributions changed - re-solve everything
+  const currentSettings = `${getSettingsVersion()}:${getDistributionVersion()}`
+  if (currentSettings !== settingsKey) {
+    resetScanState()
+    settingsKey = currentSettings
+  }
+
+  for (const game of games) {
+    for (const market of Object.keys(DETECTORS) as GameMarket[]) {
+      opportunities.push(...scanMarket(
+        `${game.gameId}:${market}`,
+        gameFingerprint(game, market, minProfit, now),
+        now,
+        seen,
+        () => DETECTORS[market](game, minProfit, now)
+      ))
+    }
+  }
+
+  for (const prop of props) {
+    opportunities.push(...scanMarket(
+      prop.propId,
+      propFingerprint(prop, minProfit, now),
+      now,
+      seen,
+      () => [...detectPropArbitrage(prop, minProfit, now), ...detectPropMiddles(prop, now)]
+    ))
+  }
+
+  // Forget markets no longer on the board
+  for (const key of markets.keys()) {
+    if (!seen.has(key)) markets.delete(key)
+  }
+
+  stats.scans++
+  stats.lastMarkets = seen.size
+  stats.lastScanMs = performance.now() - startTime
+  console.log(`[ARB ENGINE] Scanned ${seen.size} markets (${stats.lastEvaluated} changed), found ${opportunities.length} arbs in ${stats.lastScanMs.toFixed(2)}ms`)
+
+  // Sort by profit descending
+  return opportunities.sort((a, b) => b.profit - a.profit)
+}
+
+export function getScanStats(): ScanStats {
+  const round3 = (n: number) => Math.round(n * 1000) / 1000
+  return {
+    scans: stats.scans,
+    marketsChecked: stats.marketsChecked,
+    marketsEvaluated: stats.marketsEvaluated,
+    lastScanMs: round3(stats.lastScanMs),
+    lastMarkets: stats.lastMarkets,
+    lastEvaluated: stats.lastEvaluated,
+    avgEvaluateMs: stats.marketsEvaluated > 0 ? round3(stats.evaluateMs / stats.marketsEvaluated) : 0,
+    maxEvaluateMs: round3(stats.maxEvaluateMs),
+    reuseRate: stats.marketsChecked > 0
+      ? Math.round((1 - stats.marketsEvaluated / stats.marketsChecked) * 1000) / 10
+      : 0,
+    trackedMarkets: markets.size
+  }
+}
+
+/**
+ * Forget every market so the next scan re-solves them all. Scans do this
+ * themselves when a detection setting changes.
+ */
+export function resetScanState(): void {
+  markets.clear()
+}
+
+export default {
+  scanChangedMarkets,
+  getScanStats,
+  resetScanState
+}
@@ -0,0 +1,240 @@
+/**
+ * Kelly Bet Sizing
+ *
+ * Sizes +EV bets from a fair win probability, the offered odds and a bankroll:
+ * 1. Full Kelly - the stake that maximises the bankroll's long-run growth
+ * 2. Fractional Kelly - a share of it, trading growth for far less variance
+ * 3. Capped stakes - per-bet and total limits as % of bankroll
+ *
+ * Several bets on the same game are sized together (simultaneous Kelly):
+ * stakes are solved jointly over every way the bets can land, so bets that
+ * win or lose together aren't each sized as if they were the only one.
+ */
+
+import { americanToDecimal, getCommission, netDecimal } from './arbitrage-engine.js'
+
+export interface KellyBetInput {
+  bet?: string
+  book?: string
+  odds: number          // American, as offered
+  probability?: number  // Fair win probability (0-1)
+  fairOdds?: number     // ...or the fair price, American
+  commission?: number   // Overrides the book's commission rate
+}
+
+// One way the bets can land: its probability and the bets that win
+export interface KellyScenario {
+  probability: number
+  wins: number[]        // Indexes into bets
+}
+
+export interface KellyInput {
+  bankroll: number
+  bets: KellyBetInput[]
+  fraction?: number         // 0.25 = quarter Kelly
+  maxStakePercent?: number  // Cap per bet, % of bankroll
+  maxTotalPercent?: number  // Cap across all bets, % of bankroll
+  correlation?: 'independent' | 'exclusive' // How bets relate without explicit scenarios
+  scenarios?: KellyScenario[]               // Joint outcomes of correlated bets
+}
+
+export interface KellyStake {
+  bet: string
+  book?: string
+  odds: number
+  probability: number   // % fair win probability
+  edge: number          // % expected profit per $1 staked
+  kellyPercent: number  // Full Kelly for this bet alone, % of bankroll
+  fullKelly: number     // $ full Kelly (solved jointly with the other bets)
+  fractionalKelly: number // $
+  stake: number         // $ after caps
+  capped: boolean
+}
+
+export interface KellyResult {
+  stakes: KellyStake[]
+  totalStake: number
+  fraction: number
+  simultaneous: boolean
+  expectedProfit: number  // $ at the final stakes
+  expectedGrowth: number  // % expected log growth of the bankroll
+}
+
+const DEFAULT_FRACTION = parseFloat(process.env.KELLY_FRACTION || '0.25')
+const DEFAULT_MAX_STAKE_PCT = parseFloat(process.env.KELLY_MAX_STAKE_PCT || '5')
+
+// Independent bets are expanded into every win/lose combination
+const MAX_INDEPENDENT_BETS = 10
+const MAX_SWEEPS = 500
+const TOLERANCE = 1e-10
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0)
+
+/**
+ * Full-Kelly fraction of bankroll for one bet at decimal odds.
+ * Zero when the bet has no edge.
+ */
+export function kellyFraction(probability: number, decimal: number): number {
+  return Math.max(0, (probability * decimal - 1) / (decimal - 1))
+}
+
+// Joint outcomes the stakes are solved over
+function buildScenarios(input: KellyInput, probabilities: number[]): KellyScenario[] {
+  const n = input.bets.length
+
+  if (input.scenarios?.length) {
+    const total = sum(input.scenarios.map(s => s.probability))
+    if (input.scenarios.some(s => !(s.probability >= 0) || s.wins.some(i => !(i >= 0 && i < n)))) {
+      throw new Error('Each scenario needs a probability and the indexes of the bets that win')
+    }
+    if (total > 1 + 1e-6) throw new Error('Scenario probabilities sum to more than 1')
+    // Whatever the scenarios leave out is every bet losing
+    return total < 1 ? [...input.scenarios, { probability: 1 - total, wins: [] }] : input.scenarios
+  }
+
+  if (input.correlation === 'exclusive') {
+    const total = sum(probabilities)
+    if (total > 1 + 1e-6) throw new Error('Exclusive bets can\'t have probabilities summing to more than 1')
+    return [
+      ...probabilities.map((probability, i) => ({ probability, wins: [i] })),
+      ...(total < 1 ? [{ probability: 1 - total, wins: [] }] : [])
+    ]
+  }
+
+  if (n > MAX_INDEPENDENT_BETS) throw new Error(`At most ${MAX_INDEPENDENT_BETS} bets can be sized together`)
+
+  const scenarios: KellyScenario[] = []
+  for (let mask = 0; mask < 1 << n; mask++) {
+    const wins = probabilities.map((_, i) => i).filter(i => mask & (1 << i))
+    const probability = probabilities.reduce((p, q, i) => p * (mask & (1 << i) ? q : 1 - q), 1)
+    if (probability > 0) scenarios.push({ probability, wins })
+  }
+  return scenarios
+}
+
+/**
+ * Simultaneous Kelly: the bankroll fractions maximising expected log wealth
+ * across the scenarios, by coordinate ascent. Growth is concave in each
+ * stake, so each coordinate's optimum is where its slope crosses zero.
+ */
+function solveSimultaneous(returns: number[][], probabilities: number[]): number[] {
+  const n = returns[0].length
+  const fractions = new Array(n).fill(0)
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let moved = 0
+
+    for (let i = 0; i < n; i++) {
+      // Wealth in each scenario from the other bets
+      const base = returns.map(r => 1 + sum(r.map((ri, j) => (j === i ? 0 : fractions[j] * ri))))
+      const slope = (x: number) => sum(returns.map((r, s) => probabilities[s] * r[i] / (base[s] + x * r[i])))
+
+      // Largest stake that keeps every scenario solvent and the total within bankroll
+      let upper = 1 - sum(fractions) + fractions[i]
+      returns.forEach((r, s) => {
+        if (r[i] < 0) upper = Math.min(upper, base[s] / -r[i])
+      })
+      upper = Math.max(0, upper * (1 - 1e-9))
+
+      let next: number
+      if (upper === 0 || slope(0) <= 0) {
+        next = 0
+      } else if (slope(upper) >= 0) {
+        next = upper
+      } else {
+        let lo = 0
+        let hi = upper
+        for (let k = 0; k < 60; k++) {
+          const mid = (lo + hi) / 2
+          if (slope(mid) > 0) lo = mid
+          else hi = mid
+        }
+        next = (lo + hi) / 2
+      }
+
+      moved = Math.max(moved, Math.abs(next - fractions[i]))
+      fractions[i] = next
+    }
+
+    if (moved < TOLERANCE) break
+  }
+
+  return fractions
+}
+
+/**
+ * Size one or more bets. Throws on input that can't be sized.
+ */
+export function sizeBets(input: KellyInput): KellyResult {
+  const { bankroll, bets } = input
+  const fraction = input.fraction ?? DEFAULT_FRACTION
+  const maxStakePercent = input.maxStakePercent ?? DEFAULT_MAX_STAKE_PCT
+  const maxTotalPercent = input.maxTotalPercent ?? 100
+
+  if (!(bankroll > 0)) throw new Error('Bankroll must be positive')
+  if (!Array.isArray(bets) || bets.length === 0) throw new Error('At least one bet required')
+  if (!(fraction > 0 && fraction <= 1)) throw new Error('Fraction must be between 0 and 1')
+  if (bets.some(bet => !bet.odds || Math.abs(bet.odds) < 100)) {
+    throw new Error('Each bet needs American odds (e.g. -110, +150)')
+  }
+
+  const decimals = bets.map(bet => netDecimal(bet.odds, bet.commission ?? (bet.book ? getCommission(bet.book) : 0)))
+
+  // Marginal win probabilities, from the scenarios when they're given
+  const probabilities = bets.map((bet, i) => {
+    if (input.scenarios?.length) {
+      return sum(input.scenarios.filter(s => s.wins.includes(i)).map(s => s.probability))
+    }
+    const probability = bet.probability ?? (bet.fairOdds ? 1 / americanToDecimal(bet.fairOdds) : undefined)
+    if (probability === undefined || !(probability > 0 && probability < 1)) {
+      throw new Error('Each bet needs a probability between 0 and 1, or fair odds')
+    }
+    return probability
+  })
+
+  const alone = probabilities.map((p, i) => kellyFraction(p, decimals[i]))
+  const simultaneous = bets.length > 1
+  const scenarios = simultaneous
+    ? buildScenarios(input, probabilities)
+    : [{ probability: probabilities[0], wins: [0] }, { probability: 1 - probabilities[0], wins: [] }]
+  const returns = scenarios.map(s => decimals.map((d, i) => (s.wins.includes(i) ? d - 1 : -1)))
+
+  const full = simultaneous ? solveSimultaneous(returns, scenarios.map(s => s.probability)) : alone
+
+  // Fractional Kelly, then the per-bet and total caps
+  const fractional = full.map(f => f * fraction)
+  let capped = fractional.map(f => Math.min(f, maxStakePercent / 100))
+  const total = sum(capped)
+  if (total > maxTotalPercent / 100) capped = capped.map(f => f * (maxTotalPercent / 100) / total)
+
+  const stakes: KellyStake[] = bets.map((bet, i) => ({
+    bet: bet.bet ?? `Bet ${i + 1}`,
+    book: bet.book,
+    odds: bet.odds,
+    probability: round2(probabilities[i] * 100),
+    edge: round2((probabilities[i] * decimals[i] - 1) * 100),
+    kellyPercent: round2(alone[i] * 100),
+    fullKelly: round2(full[i] * bankroll),
+    fractionalKelly: round2(fractional[i] * bankroll),
+    stake: round2(capped[i] * bankroll),
+    capped: capped[i] < fractional[i] - 1e-12
+  }))
+
+  // Growth at the final stakes, over the same outcomes the stakes were solved for
+  const growth = sum(scenarios.map((s, k) => s.probability * Math.log(1 + sum(capped.map((f, i) => f * returns[k][i])))))
+
+  return {
+    stakes,
+    totalStake: round2(sum(stakes.map(s => s.stake))),
+    fraction,
+    simultaneous,
+    expectedProfit: round2(sum(capped.map((f, i) => f * bankroll * (probabilities[i] * decimals[i] - 1)))),
+    expectedGrowth: Math.round(growth * 100 * 10000) / 10000
+  }
+}
+
+export default {
+  kellyFraction,
+  sizeBets
+}
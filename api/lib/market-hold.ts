@@ -0,0 +1,232 @@
+/**
+ * Market Hold Calculator
+ *
+ * Measures the vig left in each market once prices are combined:
+ * 1. Every book's own hold on every market it fully quotes
+ * 2. The best achievable hold taking the best price on each outcome
+ *    across books - what a hedge or promo conversion costs
+ * 3. Each book's average hold per market type, to spot the soft books
+ *
+ * Hold is 1 - 1 / total implied probability: the share of the handle a
+ * book keeps from balanced action. A negative best hold is an arb.
+ */
+
+import {
+  getCommission,
+  netDecimal,
+  usableBooks,
+  type BookOdds,
+  type NormalizedOdds,
+  type PriceField,
+  type QuoteMarket
+} from './arbitrage-engine.js'
+
+export interface HoldPrice {
+  bet: string
+  book: string
+  odds: number          // American
+}
+
+export interface BookHold {
+  book: string
+  hold: number          // %
+  prices: HoldPrice[]
+}
+
+export interface MarketHold {
+  id: string
+  gameId: string
+  game: string
+  sport: string
+  market: QuoteMarket
+  line?: number         // Home spread or total line
+  outcomes: number      // 2, or 3 for moneylines with a draw
+  bestHold: number      // % using the best price on each outcome
+  totalImplied: number  // % behind bestHold
+  best: HoldPrice[]
+  books: BookHold[]     // Lowest hold first
+  isLive: boolean
+  startTime: string
+}
+
+export interface BookHoldSummary {
+  book: string
+  market: QuoteMarket
+  markets: number
+  avgHold: number       // %
+  minHold: number       // %
+}
+
+interface HoldOutcome {
+  bet: string
+  field: PriceField
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// Hold (%) from a set of effective decimal prices, one per outcome
+function holdOf(decimals: number[]): { hold: number; totalImplied: number } {
+  const totalImplied = decimals.reduce((sum, d) => sum + 1 / d, 0)
+  return {
+    hold: round2((1 - 1 / totalImplied) * 100),
+    totalImplied: round2(totalImplied * 100)
+  }
+}
+
+/**
+ * Hold for one market from the quotes on its line.
+ * Null unless at least one book quotes every outcome.
+ */
+function measureMarket(
+  game: NormalizedOdds,
+  market: QuoteMarket,
+  key: string,
+  quotes: BookOdds[],
+  outcomes: HoldOutcome[],
+  line?: number
+): MarketHold | null {
+  const books: BookHold[] = []
+  const best: (HoldPrice & { decimal: number })[] = []
+
+  for (const quote of quotes) {
+    const commission = getCommission(quote.bookmaker)
+    const prices: HoldPrice[] = []
+    const decimals: number[] = []
+
+    outcomes.forEach((outcome, i) => {
+      const odds = quote[outcome.field]
+      if (!odds) return
+      const decimal = netDecimal(odds, commission)
+      prices.push({ bet: outcome.bet, book: quote.bookmaker, odds })
+      decimals.push(decimal)
+      if (!best[i] || decimal > best[i].decimal) best[i] = { bet: outcome.bet, book: quote.bookmaker, odds, decimal }
+    })
+
+    if (decimals.length === outcomes.length) {
+      books.push({ book: quote.bookmaker, hold: holdOf(decimals).hold, prices })
+    }
+  }
+
+  if (books.length === 0 || best.filter(Boolean).length < outcomes.length) return null
+
+  const { hold, totalImplied } = holdOf(best.map(price => price.decimal))
+  return {
+    id: `${game.gameId}-${key}`,
+    gameId: game.gameId,
+    game: game.game,
+    sport: game.sport,
+    market,
+    line,
+    outcomes: outcomes.length,
+    bestHold: hold,
+    totalImplied,
+    best: best.map(({ bet, book, odds }) => ({ bet, book, odds })),
+    books: books.sort((a, b) => a.hold - b.hold),
+    isLive: !!game.isLive,
+    startTime: game.startTime
+  }
+}
+
+// Group quotes by the line a field carries
+export function byLine(books: BookOdds[], line: (book: BookOdds) => number | undefined): Map<number, BookOdds[]> {
+  const groups = new Map<number, BookOdds[]>()
+  for (const book of books) {
+    const value = line(book)
+    if (value === undefined) continue
+    if (!groups.has(value)) groups.set(value, [])
+    groups.get(value)!.push(book)
+  }
+  return groups
+}
+
+/**
+ * Hold on every market of a game: moneyline (two- and three-way prices kept
+ * apart), and each spread and total line. Stale quotes are left out the same
+ * way arbitrage detection leaves them out.
+ */
+export function calculateMarketHolds(game: NormalizedOdds, now = Date.now()): MarketHold[] {
+  const holds: (MarketHold | null)[] = []
+  const homeBet = `${game.homeTeam} ML`
+  const awayBet = `${game.awayTeam} ML`
+
+  const moneyline = usableBooks(game, 'moneyline', now)
+  holds.push(
+    measureMarket(game, 'moneyline', 'ml', moneyline.filter(b => !b.drawOdds), [
+      { bet: homeBet, field: 'homeOdds' },
+      { bet: awayBet, field: 'awayOdds' }
+    ]),
+    measureMarket(game, 'moneyline', 'ml3', moneyline.filter(b => !!b.drawOdds), [
+      { bet: homeBet, field: 'homeOdds' },
+      { bet: 'Draw', field: 'drawOdds' },
+      { bet: awayBet, field: 'awayOdds' }
+    ])
+  )
+
+  for (const [spread, quotes] of byLine(usableBooks(game, 'spread', now), b => b.homeSpread)) {
+    holds.push(measureMarket(game, 'spread', `spread-${spread}`, quotes, [
+      { bet: `${game.homeTeam} ${spread > 0 ? '+' : ''}${spread}`, field: 'spreadHomeOdds' },
+      { bet: `${game.awayTeam} ${-spread > 0 ? '+' : ''}${-spread}`, field: 'spreadAwayOdds' }
+    ], spread))
+  }
+
+  for (const [total, quotes] of byLine(usableBooks(game, 'total', now), b => b.totalLine)) {
+    holds.push(measureMarket(game, 'total', `total-${total}`, quotes, [
+      { bet: `Over ${total}`, field: 'overOdds' },
+      { bet: `Under ${total}`, field: 'underOdds' }
+    ], total))
+  }
+
+  return holds.filter((hold): hold is MarketHold => hold !== null)
+}
+
+/**
+ * Lowest-hold markets across games, best first
+ */
+export function findLowHoldMarkets(
+  games: NormalizedOdds[],
+  options: { market?: QuoteMarket; maxHold?: number; minBooks?: number; limit?: number } = {},
+  now = Date.now()
+): MarketHold[] {
+  const { market, maxHold = Infinity, minBooks = 2, limit = 50 } = options
+
+  return games
+    .flatMap(game => calculateMarketHolds(game, now))
+    .filter(hold =>
+      (!market || hold.market === market) &&
+      hold.bestHold <= maxHold &&
+      hold.books.length >= minBooks
+    )
+    .sort((a, b) => a.bestHold - b.bestHold)
+    .slice(0, limit)
+}
+
+/**
+ * Each book's own hold averaged per market type, lowest first
+ */
+export function summarizeBookHolds(holds: MarketHold[]): BookHoldSummary[] {
+  const totals = new Map<string, { book: string; market: QuoteMarket; holds: number[] }>()
+
+  for (const hold of holds) {
+    for (const book of hold.books) {
+      const key = `${book.book}:${hold.market}`
+      if (!totals.has(key)) totals.set(key, { book: book.book, market: hold.market, holds: [] })
+      totals.get(key)!.holds.push(book.hold)
+    }
+  }
+
+  return Array.from(totals.values())
+    .map(({ book, market, holds: values }) => ({
+      book,
+      market,
+      markets: values.length,
+      avgHold: round2(values.reduce((sum, h) => sum + h, 0) / values.length),
+      minHold: Math.min(...values)
+    }))
+    .sort((a, b) => a.avgHold - b.avgHold)
+}
+
+export default {
+  calculateMarketHolds,
+  findLowHoldMarkets,
+  summarizeBookHolds
+}
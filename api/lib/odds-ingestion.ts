@@ -2,45 +2,86 @@
  * Odds Ingestion Service
  *
  * Background worker that:
- * 1. Polls odds APIs at configured intervals
+ * 1. Polls odds APIs at configured intervals (started games on a faster live cadence)
  * 2. Normalizes data across providers
  * 3. Caches in Redis
- * 4. Triggers arbitrage detection
+ * 4. Triggers arbitrage detection on the markets whose quotes changed
  * 5. Publishes updates via WebSocket
+ * 6. Tracks each arb's lifecycle until it expires
+ * 7. Publishes prices that beat the no-vig consensus as EV signals
+ * 8. Snapshots pregame prices so bets and signals are graded on closing line value
+ *
+ * Player props are fetched on their own slower schedule and cached apart
+ * from game odds; every poll scans the cached props alongside the games,
+ * so prop arbs and middles share the arbitrage feed and lifecycle.
  */
 
-import axios from 'axios'
 import { cache, getRedis } from './redis.js'
-import { scanForArbitrage, deduplicateArbitrage, type NormalizedOdds, type ArbitrageOpportunity } from './arbitrage-engine.js'
-import { broadcastArbitrage, broadcastOddsUpdate } from './websocket.js'
-
-// Configuration
-const ODDS_API_KEY = process.env.ODDS_API_KEY
-const ODDSJAM_API_KEY = process.env.ODDSJAM_API_KEY
-const ODDS_API_BASE = 'https://api.the-odds-api.com/v4'
-
-// Polling intervals (in ms)
-const POLL_INTERVAL_ACTIVE = 5000    // 5 seconds during active hours
-const POLL_INTERVAL_IDLE = 30000     // 30 seconds during idle hours
-const ACTIVE_HOURS_START = 10        // 10 AM local
-const ACTIVE_HOURS_END = 24          // Midnight
-
-// Sport configuration
+import {
+  scanForArbitrage,
+  deduplicateArbitrage,
+  releaseArbitrage,
+  propMarketLabel,
+  type NormalizedOdds,
+  type NormalizedProp,
+  type ArbitrageOpportunity
+} from './arbitrage-engine.js'
+import { broadcastArbitrage, broadcastArbitrageExpired, broadcastOddsUpdate } from './websocket.js'
+import { trackArbitrages } from './arb-lifecycle.js'
+import { scanChangedMarkets, getScanStats, type ScanStats } from './incremental-scan.js'
+import { findEVBets, type EVBet } from './fair-odds.js'
+import { publishEvSignal } from './signal-bus.js'
+import { recordPregamePrices, trackEvSignal, getSnapshotCount } from './clv-tracker.js'
+import {
+  fetchMergedOdds,
+  fetchMergedProps,
+  getProviderStats,
+  resetProviderStats,
+  PROP_MAX_EVENTS,
+  type ProviderStats
+} from './odds-providers.js'
+import { isReplayMode, runReplay, getReplayTime, captureSport } from './odds-recorder.js'
+import {
+  setSports,
+  recordEvents,
+  recordLiveEvents,
+  isSportDue,
+  isLiveDue,
+  getSportInterval,
+  recordPropPoll,
+  getPropInterval,
+  isPropDue,
+  getNextPollDelay,
+  getBudgetState,
+  type BudgetState
+} from './poll-scheduler.js'
+
+// Sport configuration (provider-specific keys live in odds-providers)
 const SPORTS = {
-  nfl: { key: 'americanfootball_nfl', active: true },
-  nba: { key: 'basketball_nba', active: true },
-  mlb: { key: 'baseball_mlb', active: true },
-  nhl: { key: 'icehockey_nhl', active: true }
+  nfl: { active: true },
+  nba: { active: true },
+  mlb: { active: true },
+  nhl: { active: true }
 }
 
-const BOOKMAKERS = ['draftkings', 'fanduel', 'betmgm', 'caesars', 'pointsbet', 'bovada']
+// Arbs under this profit aren't broadcast; one that drops under it has expired
+const MIN_ARB_PROFIT = 0.5
+
+// Node that EV signals from this server are published as
+const NODE_ID = process.env.NODE_ID || 'sportintel-main'
+
+// An EV bet is re-published once its last signal (2 min TTL) has gone stale
+const EV_REPUBLISH_MS = 120000
 
 // State
 let isRunning = false
 let pollIntervalId: NodeJS.Timeout | null = null
 let lastPollTime = new Map<string, number>()
-let apiRequestCount = 0
+let lastLivePollTime = new Map<string, number>()
+let lastPropPollTime = new Map<string, number>()
 let arbsFoundToday = 0
+let evSignalsToday = 0
+const publishedEvBets = new Map<string, number>()
 
 // Alert callbacks
 type AlertCallback = (arb: ArbitrageOpportunity) => Promise<void>
@@ -51,173 +92,146 @@ export function onArbitrageFound(callback: AlertCallback): void {
 }
 
 /**
- * Get current poll interval based on time of day
+ * Cache odds until the sport is next due, so REST reads don't fall
+ * through to the providers between scheduled polls
  */
-function getCurrentPollInterval(): number {
-  const hour = new Date().getHours()
-  if (hour >= ACTIVE_HOURS_START && hour < ACTIVE_HOURS_END) {
-    return POLL_INTERVAL_ACTIVE
-  }
-  return POLL_INTERVAL_IDLE
+async function cacheSportOdds(sport: string, games: NormalizedOdds[]): Promise<void> {
+  const ttl = Math.max(10, Math.ceil(getSportInterval(sport) / 1000) + 5)
+  await cache.setOdds(sport, games, ttl)
 }
 
 /**
- * Fetch odds from The Odds API
+ * Publish each +EV bet as a signal, once per signal lifetime
  */
-async function fetchOddsAPI(sportKey: string): Promise<any[]> {
-  if (!ODDS_API_KEY) {
-    console.warn('[INGESTION] No ODDS_API_KEY configured')
-    return []
+async function publishEvBets(games: NormalizedOdds[], now: number): Promise<void> {
+  for (const [id, publishedAt] of publishedEvBets) {
+    if (now - publishedAt >= EV_REPUBLISH_MS) publishedEvBets.delete(id)
   }
 
-  try {
-    const response = await axios.get(`${ODDS_API_BASE}/sports/${sportKey}/odds`, {
-      params: {
-        apiKey: ODDS_API_KEY,
-        regions: 'us',
-        markets: 'h2h,spreads,totals',
-        oddsFormat: 'american',
-        bookmakers: BOOKMAKERS.join(',')
-      },
-      timeout: 10000
-    })
-
-    apiRequestCount++
-    const remaining = response.headers['x-requests-remaining']
-    console.log(`[INGESTION] Fetched ${sportKey}, ${response.data.length} games, ${remaining} API calls remaining`)
-
-    return response.data
-  } catch (err: any) {
-    if (err.response?.status === 429) {
-      console.error('[INGESTION] Rate limited by Odds API')
-    } else {
-      console.error(`[INGESTION] Odds API error for ${sportKey}:`, err.message)
+  const bets = findEVBets(games, {}, now)
+  for (const bet of bets) {
+    if (publishedEvBets.has(bet.id)) continue
+    publishedEvBets.set(bet.id, now)
+
+    try {
+      const signal = await publishEvSignal(NODE_ID, bet.gameId, bet.game, bet.sport, evDescription(bet), bet.confidence, bet.book, {
+        fairOdds: bet.fairOdds,
+        currentOdds: bet.odds,
+        edge: bet.edge,
+        model: `sharp-weighted no-vig ${bet.method} consensus (${bet.consensusBooks} books)`
+      })
+      evSignalsToday++
+      if (!isReplayMode()) await trackEvSignal(signal, bet)
+    } catch (err: any) {
+      console.error('[INGESTION] EV signal publish failed:', err.message)
     }
-    return []
   }
-}
 
-/**
- * Fetch odds from OddsJam API (premium source)
- */
-async function fetchOddsJam(sport: string): Promise<any[]> {
-  if (!ODDSJAM_API_KEY) {
-    return [] // Not configured
-  }
-
-  try {
-    // OddsJam API structure - adjust based on actual API docs
-    const response = await axios.get(`https://api.oddsjam.com/v2/odds`, {
-      params: {
-        sport: sport,
-        api_key: ODDSJAM_API_KEY
-      },
-      timeout: 10000
-    })
+  if (bets.length > 0) console.log(`[EV] ${bets.length} +EV bets, best ${bets[0].bet} @ ${bets[0].book} +${bets[0].edge}%`)
+}
 
-    return response.data?.odds || []
-  } catch (err: any) {
-    console.error(`[INGESTION] OddsJam error for ${sport}:`, err.message)
-    return []
-  }
+function evDescription(bet: EVBet): string {
+  const formatOdds = (odds: number) => `${odds > 0 ? '+' : ''}${odds}`
+  return `+${bet.edge.toFixed(2)}% EV: ${bet.bet} ${formatOdds(bet.odds)} at ${bet.book} (fair ${formatOdds(bet.fairOdds)})`
 }
 
 /**
- * Normalize odds data from different sources
+ * Live poll: refresh only the started games and splice them into the
+ * sport's cached list. Games that dropped out of the live feed have ended.
  */
-function normalizeOddsData(rawData: any[], sport: string, source: string): NormalizedOdds[] {
-  const normalized: NormalizedOdds[] = []
-
-  for (const game of rawData) {
-    const books: any[] = []
-
-    for (const bookmaker of game.bookmakers || []) {
-      const h2h = bookmaker.markets?.find((m: any) => m.key === 'h2h')
-      const spreads = bookmaker.markets?.find((m: any) => m.key === 'spreads')
-      const totals = bookmaker.markets?.find((m: any) => m.key === 'totals')
+async function pollLiveOdds(sport: string): Promise<NormalizedOdds[]> {
+  const live = await fetchMergedOdds(sport, { live: true })
+  recordLiveEvents(sport, live.length)
+  lastLivePollTime.set(sport, Date.now())
 
-      if (!h2h) continue
+  const liveIds = new Set(live.map(g => g.gameId))
+  const cached: NormalizedOdds[] = (await cache.getOdds(sport)) || []
+  const games = [...cached.filter(g => !g.isLive && !liveIds.has(g.gameId)), ...live]
 
-      const homeOutcome = h2h.outcomes.find((o: any) => o.name === game.home_team)
-      const awayOutcome = h2h.outcomes.find((o: any) => o.name === game.away_team)
+  await cacheSportOdds(sport, games)
+  broadcastOddsUpdate(sport, { games, timestamp: Date.now() })
 
-      const bookOdds: any = {
-        bookmaker: bookmaker.key,
-        homeOdds: homeOutcome?.price || 0,
-        awayOdds: awayOutcome?.price || 0,
-        timestamp: Date.now()
-      }
-
-      // Add spreads if available
-      if (spreads) {
-        const homeSpread = spreads.outcomes.find((o: any) => o.name === game.home_team)
-        const awaySpread = spreads.outcomes.find((o: any) => o.name === game.away_team)
-        if (homeSpread && awaySpread) {
-          bookOdds.homeSpread = homeSpread.point
-          bookOdds.awaySpread = awaySpread.point
-          bookOdds.spreadHomeOdds = homeSpread.price
-          bookOdds.spreadAwayOdds = awaySpread.price
-        }
-      }
-
-      // Add totals if available
-      if (totals) {
-        const over = totals.outcomes.find((o: any) => o.name === 'Over')
-        const under = totals.outcomes.find((o: any) => o.name === 'Under')
-        if (over && under) {
-          bookOdds.totalLine = over.point
-          bookOdds.overOdds = over.price
-          bookOdds.underOdds = under.price
-        }
-      }
+  return games
+}
 
-      books.push(bookOdds)
-    }
+/**
+ * Prop poll: refresh player props for every sport that's due. Sports go
+ * one at a time so the scheduler can tell what each prop poll cost.
+ */
+async function pollProps(): Promise<void> {
+  if (PROP_MAX_EVENTS <= 0) return
 
-    if (books.length > 0) {
-      normalized.push({
-        gameId: game.id,
-        game: `${game.away_team} @ ${game.home_team}`,
-        homeTeam: game.home_team,
-        awayTeam: game.away_team,
-        sport: sport,
-        startTime: game.commence_time,
-        books
-      })
+  for (const [sport, config] of Object.entries(SPORTS)) {
+    if (!config.active || !isPropDue(sport, lastPropPollTime.get(sport) || 0)) continue
+
+    // One sport failing leaves its cached props in place and the rest still poll.
+    // The poll is closed out either way so its spend isn't billed to the next sport.
+    try {
+      const props = await fetchMergedProps(sport)
+
+      // Kept until a little after the next prop poll is due
+      const ttl = Math.ceil(getPropInterval(sport) / 1000) + 60
+      await cache.setProps(sport, props, ttl)
+    } catch (err) {
+      console.error(`[INGESTION] Prop poll failed for ${sport}:`, err)
+    } finally {
+      recordPropPoll(sport)
+      lastPropPollTime.set(sport, Date.now())
     }
   }
+}
 
-  return normalized
+/**
+ * Props cached for the active sports (none during replays, which only
+ * capture game odds)
+ */
+async function getCachedProps(): Promise<NormalizedProp[]> {
+  if (isReplayMode()) return []
+
+  const cached = await Promise.all(
+    Object.entries(SPORTS)
+      .filter(([_, config]) => config.active)
+      .map(([sport]) => cache.getProps(sport))
+  )
+  return cached.flatMap(props => props || [])
 }
 
 /**
  * Main polling function
+ *
+ * When `sports` is given only those are fetched (replay steps, where live
+ * captures appear as `${sport}-live`); otherwise the scheduler decides
+ * which sports are due.
  */
-async function pollOdds(): Promise<void> {
+async function pollOdds(sports?: string[]): Promise<void> {
   const startTime = performance.now()
   const allGames: NormalizedOdds[] = []
 
   // Poll all active sports in parallel
   const sportPromises = Object.entries(SPORTS)
     .filter(([_, config]) => config.active)
-    .map(async ([sport, config]) => {
-      // Check if we polled this sport recently
+    .map(async ([sport]) => {
       const lastPoll = lastPollTime.get(sport) || 0
-      const minInterval = getCurrentPollInterval()
+      const lastLivePoll = lastLivePollTime.get(sport) || 0
+      const due = sports ? sports.includes(sport) : isSportDue(sport, lastPoll)
+      const liveDue = sports ? sports.includes(captureSport(sport, true)) : isLiveDue(sport, lastLivePoll)
+
+      if (!due) {
+        // Only the started games need refreshing
+        if (liveDue) return await pollLiveOdds(sport)
 
-      if (Date.now() - lastPoll < minInterval) {
-        // Use cached data
-        const cached = await cache.getOdds(sport)
-        if (cached) return cached
+        // Not due yet - use cached data
+        return await cache.getOdds(sport)
       }
 
-      // Fetch fresh data
-      const rawData = await fetchOddsAPI(config.key)
-      const normalized = normalizeOddsData(rawData, sport, 'odds-api')
+      // Fetch fresh data (includes games in progress, so it counts as a live poll too)
+      const normalized = await fetchMergedOdds(sport)
+      recordEvents(sport, normalized)
+      lastPollTime.set(sport, Date.now())
+      lastLivePollTime.set(sport, Date.now())
 
       // Cache the data
-      await cache.setOdds(sport, normalized, 10)
-      lastPollTime.set(sport, Date.now())
+      await cacheSportOdds(sport, normalized)
 
       // Broadcast odds update
       broadcastOddsUpdate(sport, { games: normalized, timestamp: Date.now() })
@@ -230,12 +244,24 @@ async function pollOdds(): Promise<void> {
     if (games) allGames.push(...games)
   }
 
-  // Run arbitrage detection
-  const arbs = scanForArbitrage(allGames, 0.5) // Min 0.5% profit
+  if (!sports) {
+    try {
+      await pollProps()
+    } catch (err) {
+      console.error('[INGESTION] Prop poll error:', err)
+    }
+  }
+  const props = await getCachedProps()
+
+  // Run arbitrage detection on the markets that changed. Scan at zero so an
+  // arb that shrank under the threshold can be told apart from one that vanished.
+  const now = getReplayTime()
+  const scanned = scanChangedMarkets(allGames, 0, now, props)
+  const arbs = scanned.filter(arb => arb.middle || arb.profit >= MIN_ARB_PROFIT)
 
   // Process new arbitrages
   for (const arb of arbs) {
-    if (deduplicateArbitrage(arb)) {
+    if (deduplicateArbitrage(arb, now)) {
       arbsFoundToday++
 
       // Broadcast via WebSocket
@@ -253,15 +279,32 @@ async function pollOdds(): Promise<void> {
         }
       }
 
-      console.log(`[ARB] 🎯 ${arb.game}: +${arb.profit}% (${arb.book1.name} vs ${arb.book2.name})`)
+      const summary = arb.middle
+        ? `middle ${arb.middle.label}, EV +${arb.middle.expectedValue}%, worst ${arb.middle.worstCase}%`
+        : `+${arb.profit}%`
+      const subject = arb.prop ? `${arb.game} ${arb.prop.player} ${propMarketLabel(arb.prop.market)}` : arb.game
+      console.log(`[ARB] 🎯 ${arb.isLive ? '[LIVE] ' : ''}${subject}: ${summary} (${arb.legs.map(leg => leg.book).join(' vs ')})`)
     }
   }
 
+  // Close out arbs that are gone or no longer profitable enough
+  const expired = await trackArbitrages(arbs, scanned, now, !isReplayMode())
+  for (const { arb, lifespanMs, maxProfit, reason } of expired) {
+    releaseArbitrage(arb.id)
+    broadcastArbitrageExpired(arb.id)
+    console.log(`[ARB] ⌛ ${arb.game} expired (${reason}) after ${(lifespanMs / 1000).toFixed(1)}s, peak +${maxProfit}%`)
+  }
+
   // Store active arbs in cache
   await cache.setArbitrages(arbs, 30)
 
+  await publishEvBets(allGames, now)
+
+  // Closing lines for the games that just started
+  await recordPregamePrices(allGames, now, !isReplayMode())
+
   const elapsed = performance.now() - startTime
-  console.log(`[INGESTION] Poll complete: ${allGames.length} games, ${arbs.length} arbs in ${elapsed.toFixed(0)}ms`)
+  console.log(`[INGESTION] Poll complete: ${allGames.length} games, ${props.length} props, ${arbs.length} arbs in ${elapsed.toFixed(0)}ms`)
 }
 
 /**
@@ -276,12 +319,22 @@ export function startIngestion(): void {
   isRunning = true
   console.log('[INGESTION] Starting odds ingestion service...')
 
+  setSports(Object.entries(SPORTS).filter(([_, config]) => config.active).map(([sport]) => sport))
+
+  // Replay recorded captures instead of polling live providers
+  if (isReplayMode()) {
+    runReplay(sports => pollOdds(sports), () => isRunning)
+      .catch(err => console.error('[INGESTION] Replay error:', err))
+    console.log('[INGESTION] Service started in replay mode')
+    return
+  }
+
   // Initial poll
   pollOdds().catch(err => console.error('[INGESTION] Initial poll error:', err))
 
   // Set up polling interval
   const scheduleNextPoll = () => {
-    const interval = getCurrentPollInterval()
+    const interval = getNextPollDelay(lastPollTime, lastLivePollTime, PROP_MAX_EVENTS > 0 ? lastPropPollTime : undefined)
     pollIntervalId = setTimeout(async () => {
       if (!isRunning) return
 
@@ -297,7 +350,7 @@ export function startIngestion(): void {
 
   scheduleNextPoll()
 
-  console.log(`[INGESTION] Service started, polling every ${getCurrentPollInterval() / 1000}s`)
+  console.log('[INGESTION] Service started, quota-aware polling enabled')
 }
 
 /**
@@ -321,15 +374,31 @@ export function getIngestionStats(): {
   isRunning: boolean
   apiRequestCount: number
   arbsFoundToday: number
+  evSignalsToday: number
+  pregameSnapshots: number
   lastPollTimes: Record<string, number>
+  lastLivePollTimes: Record<string, number>
+  lastPropPollTimes: Record<string, number>
   pollInterval: number
+  providers: ProviderStats[]
+  budget: BudgetState
+  detection: ScanStats
 } {
+  const providers = getProviderStats()
+
   return {
     isRunning,
-    apiRequestCount,
+    apiRequestCount: providers.reduce((sum, p) => sum + p.requests, 0),
     arbsFoundToday,
+    evSignalsToday,
+    pregameSnapshots: getSnapshotCount(),
     lastPollTimes: Object.fromEntries(lastPollTime),
-    pollInterval: getCurrentPollInterval()
+    lastLivePollTimes: Object.fromEntries(lastLivePollTime),
+    lastPropPollTimes: Object.fromEntries(lastPropPollTime),
+    pollInterval: getNextPollDelay(lastPollTime, lastLivePollTime, PROP_MAX_EVENTS > 0 ? lastPropPollTime : undefined),
+    providers,
+    budget: getBudgetState(),
+    detection: getScanStats()
   }
 }
 
@@ -339,18 +408,20 @@ export function getIngestionStats(): {
 export async function forcePoll(): Promise<{ games: number; arbs: number }> {
   // Clear last poll times to force fresh fetch
   lastPollTime.clear()
+  lastLivePollTime.clear()
 
   const allGames: NormalizedOdds[] = []
 
   for (const [sport, config] of Object.entries(SPORTS)) {
     if (!config.active) continue
 
-    const rawData = await fetchOddsAPI(config.key)
-    const normalized = normalizeOddsData(rawData, sport, 'odds-api')
+    const normalized = await fetchMergedOdds(sport)
     allGames.push(...normalized)
 
-    await cache.setOdds(sport, normalized, 10)
+    recordEvents(sport, normalized)
     lastPollTime.set(sport, Date.now())
+    lastLivePollTime.set(sport, Date.now())
+    await cacheSportOdds(sport, normalized)
   }
 
   const arbs = scanForArbitrage(allGames, 0)
@@ -366,7 +437,8 @@ export async function forcePoll(): Promise<{ games: number; arbs: number }> {
  */
 export function resetDailyStats(): void {
   arbsFoundToday = 0
-  apiRequestCount = 0
+  evSignalsToday = 0
+  resetProviderStats()
   console.log('[INGESTION] Daily stats reset')
 }
 
@@ -0,0 +1,915 @@
+/**
+ * Odds Providers
+ *
+ * Single contract for every odds source. Providers register here and
+ * consumers (ingestion, REST routes) read merged odds through the registry
+ * instead of calling upstream APIs themselves.
+ *
+ * Each provider's games are resolved to canonical events first (see
+ * event-registry), so the same game always merges under one stable gameId.
+ *
+ * Merge rules for a bookmaker quoted by more than one provider, per market
+ * (moneyline, spread, total):
+ * 1. The fresher quote wins
+ * 2. Quotes within FRESHNESS_TOLERANCE_MS of each other go to the higher priority provider
+ *
+ * Each provider sits behind a circuit breaker. While it is open (or when a
+ * request fails) the provider's last good snapshot is served with its books
+ * marked stale, so an outage never wipes the merged list.
+ *
+ * Providers that quote player props fetch them separately (fetchProps), on
+ * the ingestion worker's slower prop schedule. Props have no stale fallback -
+ * a failed prop poll just contributes nothing.
+ */
+
+import axios from 'axios'
+import { americanToDecimal, GAME_MARKET_FIELDS, GAME_MARKET_PRICES } from './arbitrage-engine.js'
+import type { BookOdds, GameMarket, NormalizedOdds, NormalizedProp, PropBookOdds } from './arbitrage-engine.js'
+import { recordQuota } from './poll-scheduler.js'
+import { isReplayMode, recordResponse, getReplayCapture, getReplayTime, captureSport } from './odds-recorder.js'
+import { canonicalizeGames, normalizePlayerName, resolveEvent } from './event-registry.js'
+import { createCircuitBreaker, type CircuitBreaker, type CircuitStatus } from './circuit-breaker.js'
+
+export interface FetchOptions {
+  live?: boolean        // Only events already in progress
+}
+
+export interface OddsProvider {
+  name: string
+  priority: number      // Higher wins when quotes are equally fresh
+  isConfigured(): boolean
+  fetchOdds(sport: string, options?: FetchOptions): Promise<NormalizedOdds[]>
+  fetchProps?(sport: string): Promise<NormalizedProp[]>
+}
+
+export interface ProviderStats {
+  name: string
+  priority: number
+  configured: boolean
+  requests: number
+  errors: number
+  lastFetch: number | null
+  lastGames: number
+  lastError: string | null
+  circuit: CircuitStatus
+}
+
+// Quotes this close together are treated as equally fresh
+const FRESHNESS_TOLERANCE_MS = 5000
+
+// Registry
+const providers = new Map<string, OddsProvider>()
+const providerStats = new Map<string, Omit<ProviderStats, 'name' | 'priority' | 'configured' | 'circuit'>>()
+const breakers = new Map<string, CircuitBreaker>()
+const lastGoodSnapshots = new Map<string, NormalizedOdds[]>()   // `${provider}:${sport}[:live]`
+
+/**
+ * Register (or replace) an odds provider
+ */
+export function registerProvider(provider: OddsProvider): void {
+  providers.set(provider.name, provider)
+  if (!providerStats.has(provider.name)) {
+    providerStats.set(provider.name, { requests: 0, errors: 0, lastFetch: null, lastGames: 0, lastError: null })
+  }
+  if (!breakers.has(provider.name)) {
+    breakers.set(provider.name, createCircuitBreaker(provider.name))
+  }
+  console.log(`[PROVIDERS] Registered ${provider.name} (priority ${provider.priority})`)
+}
+
+export function unregisterProvider(name: string): boolean {
+  return providers.delete(name)
+}
+
+export function getProvider(name: string): OddsProvider | undefined {
+  return providers.get(name)
+}
+
+/**
+ * All registered providers, highest priority first
+ */
+export function getProviders(): OddsProvider[] {
+  return Array.from(providers.values()).sort((a, b) => b.priority - a.priority)
+}
+
+// Whether a quote prices a market at all
+function quotesMarket(book: BookOdds, market: GameMarket): boolean {
+  if (market === 'moneyline') return !!(book.homeOdds || book.awayOdds || book.drawOdds)
+  if (market === 'spread') return book.homeSpread !== undefined
+  return book.totalLine !== undefined
+}
+
+/**
+ * One book put together from the quote that won each market: the freshest
+ * update time, the oldest fetch, and stale when any market came from a snapshot
+ */
+function composeBook(bookmaker: string, winners: Partial<Record<GameMarket, BookOdds>>): BookOdds {
+  const quotes = Object.values(winners)
+  const freshest = quotes.reduce((a, b) => (b.timestamp > a.timestamp ? b : a))
+  const fetched = quotes.map(q => q.fetchedAt).filter((t): t is number => t !== undefined)
+
+  const book: BookOdds = {
+    bookmaker,
+    homeOdds: 0,
+    awayOdds: 0,
+    timestamp: freshest.timestamp,
+    source: freshest.source,
+    updated: {}
+  }
+  if (fetched.length > 0) book.fetchedAt = Math.min(...fetched)
+  if (quotes.some(q => q.stale)) book.stale = true
+
+  for (const [market, quote] of Object.entries(winners) as [GameMarket, BookOdds][]) {
+    for (const field of GAME_MARKET_FIELDS[market]) {
+      if (quote[field] !== undefined) (book as any)[field] = quote[field]
+    }
+    for (const map of ['lay', 'available', 'layAvailable'] as const) {
+      for (const field of GAME_MARKET_PRICES[market]) {
+        const value = quote[map]?.[field]
+        if (value !== undefined) book[map] = { ...book[map], [field]: value }
+      }
+    }
+    book.updated![market] = quote.updated?.[market] ?? quote.timestamp
+  }
+
+  return book
+}
+
+/**
+ * Merge per-provider results into one game list.
+ * Games are matched on gameId, so results should already be canonicalized.
+ * A book quoted by several providers is merged market by market, so one
+ * provider's moneyline and another's spreads and totals both survive.
+ */
+export function mergeProviderOdds(
+  results: { provider: OddsProvider; games: NormalizedOdds[] }[]
+): NormalizedOdds[] {
+  const priorityOf = new Map<string, number>()
+  for (const { provider } of results) {
+    priorityOf.set(provider.name, provider.priority)
+  }
+
+  const isBetter = (incoming: BookOdds, existing: BookOdds, market: GameMarket): boolean => {
+    const age = (incoming.updated?.[market] ?? incoming.timestamp) - (existing.updated?.[market] ?? existing.timestamp)
+    if (Math.abs(age) > FRESHNESS_TOLERANCE_MS) return age > 0
+    return (priorityOf.get(incoming.source || '') || 0) > (priorityOf.get(existing.source || '') || 0)
+  }
+
+  const merged = new Map<string, { game: NormalizedOdds; books: Map<string, Partial<Record<GameMarket, BookOdds>>> }>()
+
+  // Highest priority first so its start times are the ones kept
+  const ordered = [...results].sort((a, b) => b.provider.priority - a.provider.priority)
+
+  for (const { games } of ordered) {
+    for (const game of games) {
+      if (!merged.has(game.gameId)) merged.set(game.gameId, { game, books: new Map() })
+      const { books } = merged.get(game.gameId)!
+
+      for (const book of game.books) {
+        if (!books.has(book.bookmaker)) books.set(book.bookmaker, {})
+        const winners = books.get(book.bookmaker)!
+
+        for (const market of Object.keys(GAME_MARKET_FIELDS) as GameMarket[]) {
+          if (!quotesMarket(book, market)) continue
+          const existing = winners[market]
+          if (!existing || isBetter(book, existing, market)) winners[market] = book
+        }
+      }
+    }
+  }
+
+  return Array.from(merged.values()).map(({ game, books }) => ({
+    ...game,
+    books: Array.from(books.entries())
+      .filter(([, winners]) => Object.keys(winners).length > 0)
+      .map(([bookmaker, winners]) => composeBook(bookmaker, winners))
+  }))
+}
+
+/**
+ * A provider's last good games for a sport, every book marked stale.
+ * Books keep the fetchedAt of that last good poll, so they age out.
+ */
+function getStaleSnapshot(key: string): NormalizedOdds[] {
+  return (lastGoodSnapshots.get(key) || []).map(game => ({
+    ...game,
+    books: game.books.map(book => ({ ...book, stale: true }))
+  }))
+}
+
+/**
+ * Fetch a sport from every configured provider and merge the results.
+ * A failing (or circuit-broken) provider contributes its last good
+ * snapshot instead; the others still count.
+ * Games are tagged isLive once their start time has passed, and stale
+ * when every book on them came from a snapshot.
+ */
+export async function fetchMergedOdds(sport: string, options: FetchOptions = {}): Promise<NormalizedOdds[]> {
+  const active = getProviders().filter(p => p.isConfigured())
+
+  if (active.length === 0) {
+    console.warn('[PROVIDERS] No odds providers configured')
+    return []
+  }
+
+  const results = await Promise.all(active.map(async provider => {
+    const stats = providerStats.get(provider.name)!
+    const breaker = breakers.get(provider.name)!
+    const snapshotKey = `${provider.name}:${sport}${options.live ? ':live' : ''}`
+
+    if (!breaker.canRequest()) {
+      return { provider, games: getStaleSnapshot(snapshotKey) }
+    }
+
+    stats.requests++
+    stats.lastFetch = Date.now()
+
+    try {
+      const games = await provider.fetchOdds(sport, options)
+      const fetchedAt = getReplayTime()
+      for (const game of games) {
+        for (const book of game.books) {
+          book.source = book.source || provider.name
+          book.fetchedAt = fetchedAt
+        }
+      }
+      breaker.recordSuccess()
+      stats.lastGames = games.length
+      stats.lastError = null
+
+      const canonical = canonicalizeGames(provider.name, games)
+      lastGoodSnapshots.set(snapshotKey, canonical)
+      return { provider, games: canonical }
+    } catch (err: any) {
+      breaker.recordFailure(err)
+      stats.errors++
+      stats.lastError = err.message
+      console.error(`[PROVIDERS] ${provider.name} failed for ${sport}:`, err.message)
+      return { provider, games: getStaleSnapshot(snapshotKey) }
+    }
+  }))
+
+  const now = getReplayTime()
+  return mergeProviderOdds(results).map(game => ({
+    ...game,
+    isLive: options.live || game.isLive || Date.parse(game.startTime) <= now,
+    stale: game.books.length > 0 && game.books.every(book => book.stale)
+  }))
+}
+
+/**
+ * Stable id for a player's market on a game
+ */
+export function propId(gameId: string, market: string, playerKey: string): string {
+  return `${gameId}-prop-${market}-${playerKey.replace(/ /g, '-')}`
+}
+
+/**
+ * Merge per-provider props onto canonical events. The same player and
+ * market from two providers is one prop; a book's quote on a line is
+ * replaced by a fresher one.
+ */
+export function mergeProviderProps(
+  results: { provider: OddsProvider; props: NormalizedProp[] }[],
+  now = Date.now()
+): NormalizedProp[] {
+  const merged = new Map<string, NormalizedProp>()
+  const ordered = [...results].sort((a, b) => b.provider.priority - a.provider.priority)
+
+  for (const { provider, props } of ordered) {
+    for (const prop of props) {
+      const { event } = resolveEvent({
+        sport: prop.sport,
+        homeTeam: prop.homeTeam,
+        awayTeam: prop.awayTeam,
+        commenceTime: prop.startTime,
+        provider: provider.name,
+        providerEventId: prop.gameId
+      }, now)
+
+      const id = propId(event.id, prop.market, prop.playerKey)
+      const existing = merged.get(id)
+
+      if (!existing) {
+        merged.set(id, {
+          ...prop,
+          propId: id,
+          gameId: event.id,
+          game: `${event.awayTeam} @ ${event.homeTeam}`,
+          homeTeam: event.homeTeam,
+          awayTeam: event.awayTeam,
+          startTime: event.commenceTime || prop.startTime,
+          books: prop.books.map(book => ({ ...book, source: book.source || provider.name }))
+        })
+        continue
+      }
+
+      for (const book of prop.books) {
+        const idx = existing.books.findIndex(b => b.bookmaker === book.bookmaker && b.line === book.line)
+        const incoming = { ...book, source: book.source || provider.name }
+        if (idx === -1) existing.books.push(incoming)
+        else if (book.timestamp > existing.books[idx].timestamp) existing.books[idx] = incoming
+      }
+    }
+  }
+
+  return Array.from(merged.values()).map(prop => ({
+    ...prop,
+    isLive: Date.parse(prop.startTime) <= now
+  }))
+}
+
+/**
+ * Fetch player props for a sport from every configured provider that
+ * quotes them
+ */
+export async function fetchMergedProps(sport: string): Promise<NormalizedProp[]> {
+  const active = getProviders().filter(p => p.isConfigured() && p.fetchProps)
+
+  const results = await Promise.all(active.map(async provider => {
+    const stats = providerStats.get(provider.name)!
+    const breaker = breakers.get(provider.name)!
+
+    if (!breaker.canRequest()) return { provider, props: [] }
+
+    stats.requests++
+    try {
+      const props = await provider.fetchProps!(sport)
+      const fetchedAt = getReplayTime()
+      for (const prop of props) {
+        for (const book of prop.books) book.fetchedAt = fetchedAt
+      }
+      breaker.recordSuccess()
+      return { provider, props }
+    } catch (err: any) {
+      breaker.recordFailure(err)
+      stats.errors++
+      stats.lastError = err.message
+      console.error(`[PROVIDERS] ${provider.name} props failed for ${sport}:`, err.message)
+      return { provider, props: [] }
+    }
+  }))
+
+  return mergeProviderProps(results, getReplayTime())
+}
+
+export function getProviderStats(): ProviderStats[] {
+  return getProviders().map(provider => ({
+    name: provider.name,
+    priority: provider.priority,
+    configured: provider.isConfigured(),
+    ...providerStats.get(provider.name)!,
+    circuit: breakers.get(provider.name)!.getStatus()
+  }))
+}
+
+export function resetProviderStats(): void {
+  for (const stats of providerStats.values()) {
+    stats.requests = 0
+    stats.errors = 0
+  }
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+/**
+ * Parse a provider timestamp (ISO string, unix seconds or ms) into ms
+ */
+function parseTimestamp(value: any): number | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value === 'number') {
+    return value < 1e12 ? value * 1000 : value
+  }
+  const parsed = Date.parse(value)
+  return isNaN(parsed) ? null : parsed
+}
+
+function sameName(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+/**
+ * The Odds API: one entry per game, bookmakers -> markets -> outcomes
+ */
+export function normalizeOddsApiGames(rawData: any[], sport: string): NormalizedOdds[] {
+  const normalized: NormalizedOdds[] = []
+
+  for (const game of rawData) {
+    const books: BookOdds[] = []
+
+    for (const bookmaker of game.bookmakers || []) {
+      const markets: any[] = bookmaker.markets || []
+      const h2h = markets.find(m => m.key === 'h2h')
+      const spreads = markets.find(m => m.key === 'spreads')
+      const totals = markets.find(m => m.key === 'totals')
+      const h2hLay = markets.find(m => m.key === 'h2h_lay')   // Exchanges only
+
+      if (!h2h && !spreads && !totals) continue
+
+      // Freshest of the book-level and market-level update times
+      const updates = [bookmaker.last_update, ...markets.map(m => m.last_update)]
+        .map(parseTimestamp)
+        .filter((t): t is number => t !== null)
+
+      const bookOdds: BookOdds = {
+        bookmaker: bookmaker.key,
+        homeOdds: 0,
+        awayOdds: 0,
+        timestamp: updates.length > 0 ? Math.max(...updates) : Date.now()
+      }
+
+      // Each market's own update time, so a merge can weigh them separately
+      const updated: BookOdds['updated'] = {}
+      for (const [market, raw] of [['moneyline', h2h], ['spread', spreads], ['total', totals]] as const) {
+        const time = parseTimestamp(raw?.last_update)
+        if (time !== null) updated[market] = time
+      }
+      if (Object.keys(updated).length > 0) bookOdds.updated = updated
+
+      if (h2h) {
+        const homeOutcome = h2h.outcomes?.find((o: any) => sameName(o.name, game.home_team))
+        const awayOutcome = h2h.outcomes?.find((o: any) => sameName(o.name, game.away_team))
+        bookOdds.homeOdds = homeOutcome?.price || 0
+        bookOdds.awayOdds = awayOutcome?.price || 0
+
+        // Soccer and other three-way markets price the draw as its own outcome
+        const drawOutcome = h2h.outcomes?.find((o: any) => sameName(o.name, 'Draw'))
+        if (drawOutcome?.price) bookOdds.drawOdds = drawOutcome.price
+      }
+
+      if (h2hLay) {
+        const lay: BookOdds['lay'] = {}
+        const homeLay = h2hLay.outcomes?.find((o: any) => sameName(o.name, game.home_team))
+        const awayLay = h2hLay.outcomes?.find((o: any) => sameName(o.name, game.away_team))
+        const drawLay = h2hLay.outcomes?.find((o: any) => sameName(o.name, 'Draw'))
+        if (homeLay?.price) lay.homeOdds = homeLay.price
+        if (awayLay?.price) lay.awayOdds = awayLay.price
+        if (drawLay?.price) lay.drawOdds = drawLay.price
+        if (Object.keys(lay).length > 0) bookOdds.lay = lay
+      }
+
+      if (spreads) {
+        const homeSpread = spreads.outcomes?.find((o: any) => sameName(o.name, game.home_team))
+        const awaySpread = spreads.outcomes?.find((o: any) => sameName(o.name, game.away_team))
+        if (homeSpread?.point !== undefined && awaySpread?.point !== undefined) {
+          bookOdds.homeSpread = homeSpread.point
+          bookOdds.awaySpread = awaySpread.point
+          bookOdds.spreadHomeOdds = homeSpread.price
+          bookOdds.spreadAwayOdds = awaySpread.price
+        }
+      }
+
+      if (totals) {
+        const over = totals.outcomes?.find((o: any) => sameName(o.name, 'Over'))
+        const under = totals.outcomes?.find((o: any) => sameName(o.name, 'Under'))
+        if (over?.point !== undefined && under) {
+          bookOdds.totalLine = over.point
+          bookOdds.overOdds = over.price
+          bookOdds.underOdds = under.price
+        }
+      }
+
+      const hasPrices = bookOdds.homeOdds || bookOdds.awayOdds ||
+        bookOdds.homeSpread !== undefined || bookOdds.totalLine !== undefined
+      if (hasPrices) books.push(bookOdds)
+    }
+
+    if (books.length > 0) {
+      normalized.push({
+        gameId: game.id,
+        game: `${game.away_team} @ ${game.home_team}`,
+        homeTeam: game.home_team,
+        awayTeam: game.away_team,
+        sport: sport,
+        startTime: game.commence_time,
+        books
+      })
+    }
+  }
+
+  return normalized
+}
+
+/**
+ * The Odds API event odds for prop markets: bookmakers -> markets ->
+ * Over/Under outcomes, the player in `description`. Players are keyed by
+ * normalized name so books spelling them differently land on one prop.
+ * Ids are the provider's; mergeProviderProps makes them canonical.
+ */
+export function normalizeOddsApiProps(event: any, sport: string): NormalizedProp[] {
+  const props = new Map<string, NormalizedProp>()
+
+  for (const bookmaker of event.bookmakers || []) {
+    for (const market of bookmaker.markets || []) {
+      const timestamp = parseTimestamp(market.last_update) ?? parseTimestamp(bookmaker.last_update) ?? Date.now()
+      const lines = new Map<string, PropBookOdds & { player: string }>()
+
+      for (const outcome of market.outcomes || []) {
+        if (!outcome.description || outcome.point === undefined || !outcome.price) continue
+        const isOver = sameName(outcome.name, 'Over')
+        if (!isOver && !sameName(outcome.name, 'Under')) continue
+
+        const playerKey = normalizePlayerName(outcome.description)
+        const key = `${playerKey}|${outcome.point}`
+        if (!lines.has(key)) {
+          lines.set(key, { bookmaker: bookmaker.key, line: outcome.point, timestamp, player: outcome.description })
+        }
+        const quote = lines.get(key)!
+        if (isOver) quote.overOdds = outcome.price
+        else quote.underOdds = outcome.price
+      }
+
+      for (const [key, { player, ...quote }] of lines) {
+        const playerKey = key.split('|')[0]
+        const id = propId(event.id, market.key, playerKey)
+        if (!props.has(id)) {
+          props.set(id, {
+            propId: id,
+            gameId: event.id,
+            game: `${event.away_team} @ ${event.home_team}`,
+            homeTeam: event.home_team,
+            awayTeam: event.away_team,
+            sport,
+            startTime: event.commence_time,
+            player,
+            playerKey,
+            market: market.key,
+            books: []
+          })
+        }
+        props.get(id)!.books.push(quote)
+      }
+    }
+  }
+
+  return Array.from(props.values())
+}
+
+// OddsJam market names -> our market keys
+const ODDSJAM_MARKETS: Record<string, 'h2h' | 'spreads' | 'totals'> = {
+  'moneyline': 'h2h',
+  'point spread': 'spreads',
+  'run line': 'spreads',
+  'puck line': 'spreads',
+  'total points': 'totals',
+  'total runs': 'totals',
+  'total goals': 'totals'
+}
+
+// Prices on one spread or total line: home / over first, away / under second
+interface LinePair {
+  first?: number
+  second?: number
+}
+
+interface BookLines {
+  spreads: Map<number, LinePair>    // Home line -> prices
+  totals: Map<number, LinePair>
+}
+
+/**
+ * The line a book is really dealing: of the lines with both sides priced,
+ * the one with the lowest hold. Sides are never mixed across lines, and a
+ * line with one side only is dropped so detectors never see half a market.
+ */
+function mainLine(pairs: Map<number, LinePair>): { line: number; first: number; second: number } | null {
+  let best: { line: number; first: number; second: number } | null = null
+  let bestHold = Infinity
+
+  for (const [line, { first, second }] of pairs) {
+    if (!first || !second) continue
+    const hold = 1 / americanToDecimal(first) + 1 / americanToDecimal(second)
+    if (hold < bestHold) {
+      best = { line, first, second }
+      bestHold = hold
+    }
+  }
+
+  return best
+}
+
+/**
+ * OddsJam: flat rows, one per book/market/outcome (and per alternate line).
+ * Each book keeps one spread and one total, both sides from the same line.
+ * Rows may also arrive nested under their game as `{ ...game, odds: [...] }`.
+ */
+export function normalizeOddsJamRows(rawData: any[], sport: string): NormalizedOdds[] {
+  const rows: any[] = []
+  for (const item of rawData) {
+    if (Array.isArray(item.odds)) {
+      for (const row of item.odds) {
+        rows.push({
+          game_id: item.id,
+          home_team: item.home_team,
+          away_team: item.away_team,
+          start_date: item.start_date,
+          ...row
+        })
+      }
+    } else {
+      rows.push(item)
+    }
+  }
+
+  const games = new Map<string, { meta: any; books: Map<string, BookOdds>; lines: Map<string, BookLines> }>()
+
+  for (const row of rows) {
+    const market = ODDSJAM_MARKETS[(row.market_name || '').toLowerCase()]
+    if (!market || !row.game_id || !row.sports_book_name || typeof row.price !== 'number') continue
+
+    let game = games.get(row.game_id)
+    if (!game) {
+      game = { meta: row, books: new Map(), lines: new Map() }
+      games.set(row.game_id, game)
+    }
+
+    const bookKey = String(row.sports_book_name).toLowerCase().replace(/[^a-z0-9]/g, '')
+    const timestamp = parseTimestamp(row.timestamp) ?? Date.now()
+    let book = game.books.get(bookKey)
+    if (!book) {
+      book = { bookmaker: bookKey, homeOdds: 0, awayOdds: 0, timestamp }
+      game.books.set(bookKey, book)
+      game.lines.set(bookKey, { spreads: new Map(), totals: new Map() })
+    }
+    book.timestamp = Math.max(book.timestamp, timestamp)
+    const lines = game.lines.get(bookKey)!
+
+    const name: string = row.selection || row.name || ''
+    const isHome = name.toLowerCase().startsWith(String(row.home_team || '').toLowerCase())
+    const isAway = name.toLowerCase().startsWith(String(row.away_team || '').toLowerCase())
+
+    if (market === 'h2h') {
+      if (isHome) book.homeOdds = row.price
+      else if (isAway) book.awayOdds = row.price
+      else if (name.toLowerCase() === 'draw') book.drawOdds = row.price
+    } else if (market === 'spreads' && typeof row.bet_points === 'number') {
+      // Keyed by the home line: away +3.5 pairs with home -3.5
+      const homeLine = isHome ? row.bet_points : -row.bet_points
+      const pair = lines.spreads.get(homeLine) || {}
+      if (isHome) pair.first = row.price
+      else if (isAway) pair.second = row.price
+      lines.spreads.set(homeLine, pair)
+    } else if (market === 'totals' && typeof row.bet_points === 'number') {
+      const side = (row.selection_line || name).toLowerCase()
+      const pair = lines.totals.get(row.bet_points) || {}
+      if (side.startsWith('over')) pair.first = row.price
+      else if (side.startsWith('under')) pair.second = row.price
+      lines.totals.set(row.bet_points, pair)
+    }
+  }
+
+  const normalized: NormalizedOdds[] = []
+
+  for (const [gameId, { meta, books, lines }] of games) {
+    const complete = Array.from(books.values()).filter(book => {
+      const { spreads, totals } = lines.get(book.bookmaker)!
+
+      const spread = mainLine(spreads)
+      if (spread) {
+        book.homeSpread = spread.line
+        book.awaySpread = -spread.line
+        book.spreadHomeOdds = spread.first
+        book.spreadAwayOdds = spread.second
+      }
+
+      const total = mainLine(totals)
+      if (total) {
+        book.totalLine = total.line
+        book.overOdds = total.first
+        book.underOdds = total.second
+      }
+
+      return book.homeOdds || book.awayOdds || book.homeSpread !== undefined || book.totalLine !== undefined
+    })
+
+    if (complete.length === 0) continue
+
+    normalized.push({
+      gameId,
+      game: `${meta.away_team} @ ${meta.home_team}`,
+      homeTeam: meta.home_team,
+      awayTeam: meta.away_team,
+      sport,
+      startTime: meta.start_date,
+      books: complete
+    })
+  }
+
+  return normalized
+}
+
+// ============================================
+// BUILT-IN PROVIDERS
+// ============================================
+
+const ODDS_API_KEY = process.env.ODDS_API_KEY
+const ODDSJAM_API_KEY = process.env.ODDSJAM_API_KEY
+const ODDS_API_BASE = process.env.ODDS_API_URL || 'https://api.the-odds-api.com/v4'
+
+export const BOOKMAKERS = ['draftkings', 'fanduel', 'betmgm', 'caesars', 'pointsbet', 'bovada']
+
+// Exchanges pulled alongside the sportsbooks (e.g. betfair_ex_uk,matchbook), with lay prices
+export const EXCHANGE_BOOKMAKERS = (process.env.EXCHANGE_BOOKMAKERS || '')
+  .split(',')
+  .map(book => book.trim())
+  .filter(Boolean)
+
+export const ODDS_API_SPORT_KEYS: Record<string, string> = {
+  nfl: 'americanfootball_nfl',
+  nba: 'basketball_nba',
+  mlb: 'baseball_mlb',
+  nhl: 'icehockey_nhl'
+}
+
+// Player prop markets pulled per sport. Each market costs a credit per event.
+// Override with PROP_MARKETS, e.g. {"nba":["player_points","player_assists"]}
+const PROP_MARKETS: Record<string, string[]> = {
+  nba: ['player_points', 'player_rebounds', 'player_assists', 'player_threes'],
+  nfl: ['player_pass_yds', 'player_rush_yds', 'player_reception_yds', 'player_receptions'],
+  mlb: ['batter_hits', 'batter_total_bases', 'pitcher_strikeouts'],
+  nhl: ['player_points', 'player_shots_on_goal']
+}
+
+try {
+  Object.assign(PROP_MARKETS, JSON.parse(process.env.PROP_MARKETS || '{}'))
+} catch (err: any) {
+  console.error('[PROVIDERS] Invalid PROP_MARKETS, using defaults:', err.message)
+}
+
+// Soonest events whose props are pulled each prop poll (0 turns prop polling off)
+export const PROP_MAX_EVENTS = parseInt(process.env.PROP_MAX_EVENTS || '5')
+
+const ODDSJAM_LEAGUES: Record<string, { sport: string; league: string }> = {
+  nfl: { sport: 'football', league: 'NFL' },
+  nba: { sport: 'basketball', league: 'NBA' },
+  mlb: { sport: 'baseball', league: 'MLB' },
+  nhl: { sport: 'hockey', league: 'NHL' }
+}
+
+/**
+ * The Odds API
+ */
+export const oddsApiProvider: OddsProvider = {
+  name: 'odds-api',
+  priority: 10,
+
+  isConfigured: () => !!ODDS_API_KEY,
+
+  async fetchOdds(sport: string, options: FetchOptions = {}): Promise<NormalizedOdds[]> {
+    const sportKey = ODDS_API_SPORT_KEYS[sport]
+    if (!sportKey) return []
+
+    try {
+      const response = await axios.get(`${ODDS_API_BASE}/sports/${sportKey}/odds`, {
+        params: {
+          apiKey: ODDS_API_KEY,
+          regions: 'us',
+          markets: EXCHANGE_BOOKMAKERS.length > 0 ? 'h2h,h2h_lay,spreads,totals' : 'h2h,spreads,totals',
+          oddsFormat: 'american',
+          bookmakers: [...BOOKMAKERS, ...EXCHANGE_BOOKMAKERS].join(','),
+          // Live: only events that have already started (ISO without ms)
+          ...(options.live && { commenceTimeTo: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z') })
+        },
+        timeout: 10000
+      })
+
+      recordQuota(response.headers)
+      recordResponse('odds-api', captureSport(sport, options.live), response.data, response.headers)
+      const remaining = response.headers['x-requests-remaining']
+      console.log(`[INGESTION] Fetched ${sportKey}${options.live ? ' (live)' : ''}, ${response.data.length} games, ${remaining} API calls remaining`)
+
+      return normalizeOddsApiGames(response.data, sport)
+    } catch (err: any) {
+      if (err.response?.headers) recordQuota(err.response.headers)
+      if (err.response?.status === 429) {
+        console.error('[INGESTION] Rate limited by Odds API')
+      }
+      throw err
+    }
+  },
+
+  async fetchProps(sport: string): Promise<NormalizedProp[]> {
+    const sportKey = ODDS_API_SPORT_KEYS[sport]
+    const markets = PROP_MARKETS[sport] || []
+    if (!sportKey || markets.length === 0 || PROP_MAX_EVENTS <= 0) return []
+
+    // Listing events is free; each event's prop odds cost a credit per market
+    const eventsResponse = await axios.get(`${ODDS_API_BASE}/sports/${sportKey}/events`, {
+      params: { apiKey: ODDS_API_KEY },
+      timeout: 10000
+    })
+    // Soonest events that haven't started - in-play props move too fast to poll this slowly
+    const now = Date.now()
+    const events: any[] = eventsResponse.data
+      .filter((event: any) => Date.parse(event.commence_time) > now)
+      .sort((a: any, b: any) => a.commence_time.localeCompare(b.commence_time))
+      .slice(0, PROP_MAX_EVENTS)
+
+    const props: NormalizedProp[] = []
+    for (const event of events) {
+      try {
+        const response = await axios.get(`${ODDS_API_BASE}/sports/${sportKey}/events/${event.id}/odds`, {
+          params: {
+            apiKey: ODDS_API_KEY,
+            regions: 'us',
+            markets: markets.join(','),
+            oddsFormat: 'american',
+            bookmakers: BOOKMAKERS.join(',')
+          },
+          timeout: 10000
+        })
+        recordQuota(response.headers, 'props')
+        props.push(...normalizeOddsApiProps(response.data, sport))
+      } catch (err: any) {
+        if (err.response?.headers) recordQuota(err.response.headers, 'props')
+        // Rate limits and auth failures hit every event - stop spending and let the breaker see it
+        if ([401, 403, 429].includes(err.response?.status)) throw err
+        // One event failing shouldn't lose the others
+        console.error(`[INGESTION] Props failed for ${sportKey} event ${event.id}:`, err.message)
+      }
+    }
+
+    console.log(`[INGESTION] Fetched ${sportKey} props, ${events.length} events, ${props.length} player markets`)
+    return props
+  }
+}
+
+/**
+ * OddsJam API (premium source)
+ */
+export const oddsJamProvider: OddsProvider = {
+  name: 'oddsjam',
+  priority: 20,
+
+  isConfigured: () => !!ODDSJAM_API_KEY,
+
+  async fetchOdds(sport: string, options: FetchOptions = {}): Promise<NormalizedOdds[]> {
+    const league = ODDSJAM_LEAGUES[sport]
+    if (!league) return []
+
+    // OddsJam API structure - adjust based on actual API docs
+    const response = await axios.get(`https://api.oddsjam.com/v2/odds`, {
+      params: {
+        sport: league.sport,
+        league: league.league,
+        api_key: ODDSJAM_API_KEY,
+        ...(options.live && { is_live: true })
+      },
+      timeout: 10000
+    })
+
+    const rows = response.data?.odds || []
+    recordResponse('oddsjam', captureSport(sport, options.live), rows)
+
+    return normalizeOddsJamRows(rows, sport)
+  }
+}
+
+/**
+ * Stand-in for a live provider that serves recorded captures under the
+ * same name and priority, so replays merge exactly like the original run
+ */
+function createReplayProvider(
+  provider: OddsProvider,
+  normalize: (rawData: any[], sport: string) => NormalizedOdds[]
+): OddsProvider {
+  return {
+    name: provider.name,
+    priority: provider.priority,
+    isConfigured: () => true,
+    async fetchOdds(sport: string, options: FetchOptions = {}): Promise<NormalizedOdds[]> {
+      const capture = getReplayCapture(provider.name, captureSport(sport, options.live))
+      if (!capture) return []
+
+      if (capture.headers['x-requests-remaining'] !== undefined) recordQuota(capture.headers)
+      return normalize(capture.data, sport)
+    }
+  }
+}
+
+if (isReplayMode()) {
+  registerProvider(createReplayProvider(oddsApiProvider, normalizeOddsApiGames))
+  registerProvider(createReplayProvider(oddsJamProvider, normalizeOddsJamRows))
+} else {
+  registerProvider(oddsApiProvider)
+  registerProvider(oddsJamProvider)
+}
+
+export default {
+  registerProvider,
+  unregisterProvider,
+  getProvider,
+  getProviders,
+  mergeProviderOdds,
+  fetchMergedOdds,
+  propId,
+  mergeProviderProps,
+  fetchMergedProps,
+  getProviderStats,
+  resetProviderStats,
+  normalizeOddsApiGames,
+  normalizeOddsApiProps,
+  normalizeOddsJamRows
+}
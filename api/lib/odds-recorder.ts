@@ -0,0 +1,172 @@
+/**
+ * Odds Recorder
+ *
+ * Record: every raw provider response is written to ODDS_RECORD_DIR as a
+ * timestamped JSON capture.
+ *
+ * Replay: captures in ODDS_REPLAY_DIR are fed back through pollOdds in
+ * capture order, with no network access and no API keys required.
+ * ODDS_REPLAY_SPEED controls pacing (1 = real time, 10 = 10x, 0 = no delay).
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+const RECORD_DIR = process.env.ODDS_RECORD_DIR
+const REPLAY_DIR = process.env.ODDS_REPLAY_DIR
+const REPLAY_SPEED = parseFloat(process.env.ODDS_REPLAY_SPEED || '1')
+
+// Captures this close together belong to the same poll
+const STEP_WINDOW = 1000
+// Live (in-play) polls are captured under `${sport}-live`
+const LIVE_SUFFIX = '-live'
+
+export interface OddsCapture {
+  provider: string
+  sport: string
+  capturedAt: number
+  headers: Record<string, string>
+  data: any
+}
+
+// Replay state
+const replayCurrent = new Map<string, OddsCapture>()
+let replayClock: number | null = null
+
+export function isReplayMode(): boolean {
+  return !!REPLAY_DIR
+}
+
+export function isRecording(): boolean {
+  return !!RECORD_DIR && !isReplayMode()
+}
+
+/**
+ * Sport key a capture is stored under. Live polls are kept apart so a
+ * replay step only refreshes the feed that was actually polled.
+ */
+export function captureSport(sport: string, live = false): string {
+  return live ? `${sport}${LIVE_SUFFIX}` : sport
+}
+
+/**
+ * Write a raw provider response to the record directory
+ */
+export async function recordResponse(
+  provider: string,
+  sport: string,
+  data: any,
+  headers: Record<string, any> = {}
+): Promise<void> {
+  if (!isRecording()) return
+
+  const capturedAt = Date.now()
+  const stamp = new Date(capturedAt).toISOString().replace(/[:.]/g, '-')
+  const file = path.join(RECORD_DIR!, `${stamp}_${provider}_${sport}.json`)
+
+  // Only the quota headers matter for replay
+  const quotaHeaders: Record<string, string> = {}
+  for (const key of ['x-requests-remaining', 'x-requests-used', 'x-requests-last']) {
+    if (headers[key] !== undefined) quotaHeaders[key] = String(headers[key])
+  }
+
+  const capture: OddsCapture = { provider, sport, capturedAt, headers: quotaHeaders, data }
+
+  try {
+    await fs.promises.mkdir(RECORD_DIR!, { recursive: true })
+    await fs.promises.writeFile(file, JSON.stringify(capture))
+  } catch (err: any) {
+    console.error('[RECORDER] Failed to write capture:', err.message)
+  }
+}
+
+/**
+ * Load every capture in a directory, oldest first
+ */
+export function loadCaptures(dir: string): OddsCapture[] {
+  const captures: OddsCapture[] = []
+
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue
+
+    try {
+      const capture = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as OddsCapture
+      if (capture.provider && capture.sport && capture.capturedAt) {
+        captures.push(capture)
+      }
+    } catch (err: any) {
+      console.warn(`[RECORDER] Skipping unreadable capture ${file}:`, err.message)
+    }
+  }
+
+  return captures.sort((a, b) => a.capturedAt - b.capturedAt)
+}
+
+/**
+ * Latest replayed capture for a provider + sport
+ */
+export function getReplayCapture(provider: string, sport: string): OddsCapture | undefined {
+  return replayCurrent.get(`${provider}:${sport}`)
+}
+
+/**
+ * Recorded time of the current replay step (wall clock outside replay)
+ */
+export function getReplayTime(): number {
+  return replayClock ?? Date.now()
+}
+
+/**
+ * Step through the captures, calling onStep with the sports that changed.
+ * Resolves when the captures run out or shouldContinue() returns false.
+ */
+export async function runReplay(
+  onStep: (sports: string[]) => Promise<void>,
+  shouldContinue: () => boolean
+): Promise<void> {
+  const captures = loadCaptures(REPLAY_DIR!)
+  console.log(`[RECORDER] Replaying ${captures.length} captures from ${REPLAY_DIR} at ${REPLAY_SPEED || 'max'}x`)
+
+  let i = 0
+  let previousStart: number | null = null
+
+  while (i < captures.length && shouldContinue()) {
+    const stepStart = captures[i].capturedAt
+    const sports = new Set<string>()
+
+    while (i < captures.length && captures[i].capturedAt - stepStart < STEP_WINDOW) {
+      const capture = captures[i]
+      replayCurrent.set(`${capture.provider}:${capture.sport}`, capture)
+      sports.add(capture.sport)
+      i++
+    }
+
+    if (previousStart !== null && REPLAY_SPEED > 0) {
+      const delay = (stepStart - previousStart) / REPLAY_SPEED
+      await new Promise(resolve => setTimeout(resolve, delay))
+      if (!shouldContinue()) break
+    }
+
+    previousStart = stepStart
+    replayClock = stepStart
+
+    try {
+      await onStep(Array.from(sports))
+    } catch (err) {
+      console.error('[RECORDER] Replay step error:', err)
+    }
+  }
+
+  console.log('[RECORDER] Replay finished')
+}
+
+export default {
+  isReplayMode,
+  isRecording,
+  captureSport,
+  recordResponse,
+  loadCaptures,
+  getReplayCapture,
+  getReplayTime,
+  runReplay
+}
@@ -0,0 +1,169 @@
+/**
+ * Odds Stream - Snapshot + Delta State
+ *
+ * Keeps the last broadcast snapshot per sport and turns each new poll into
+ * a compact delta of changed prices:
+ * 1. Every delta carries a per-sport sequence number
+ * 2. Clients apply deltas in order; a gap means they missed one
+ * 3. On subscribe or on a gap the client gets the full snapshot instead
+ */
+
+import type { BookOdds, NormalizedOdds } from './arbitrage-engine.js'
+
+// Price fields diffed per book. Timestamps ride along with any price change.
+const PRICE_FIELDS = [
+  'homeOdds',
+  'awayOdds',
+  'drawOdds',
+  'homeSpread',
+  'awaySpread',
+  'spreadHomeOdds',
+  'spreadAwayOdds',
+  'totalLine',
+  'overOdds',
+  'underOdds'
+] as const
+
+// Exchange price / size maps, compared by value
+const EXCHANGE_FIELDS = ['lay', 'available', 'layAvailable'] as const
+
+// Game fields that, when changed, resend the whole game
+const GAME_FIELDS = ['game', 'homeTeam', 'awayTeam', 'startTime', 'isLive', 'stale'] as const
+
+export interface OddsSnapshot {
+  sport: string
+  seq: number
+  timestamp: number
+  games: NormalizedOdds[]
+}
+
+export interface BookPatch {
+  gameId: string
+  bookmaker: string
+  // Changed fields only; null clears a field. Omitted when the book was pulled.
+  fields?: { [K in keyof BookOdds]?: BookOdds[K] | null }
+  removed?: boolean
+}
+
+export interface OddsDelta {
+  sport: string
+  seq: number           // Sequence after applying; the client must be at seq - 1
+  timestamp: number
+  games: NormalizedOdds[]   // New (or re-keyed) games, sent whole
+  removed: string[]         // Game ids no longer offered
+  books: BookPatch[]
+}
+
+// State
+const snapshots = new Map<string, OddsSnapshot>()
+
+function diffBook(gameId: string, prev: BookOdds, next: BookOdds): BookPatch | null {
+  const fields: BookPatch['fields'] = {}
+  let changed = false
+
+  for (const field of PRICE_FIELDS) {
+    if (prev[field] !== next[field]) {
+      fields[field] = next[field] ?? null
+      changed = true
+    }
+  }
+
+  for (const field of EXCHANGE_FIELDS) {
+    if (JSON.stringify(prev[field]) !== JSON.stringify(next[field])) {
+      fields[field] = next[field] ?? null
+      changed = true
+    }
+  }
+
+  // Provider went down (or came back) without the price moving
+  if (!!next.stale !== !!prev.stale) {
+    fields.stale = next.stale ?? null
+    changed = true
+  }
+
+  if (!changed) return null
+
+  fields.timestamp = next.timestamp
+  if (next.source !== prev.source) fields.source = next.source ?? null
+  return { gameId, bookmaker: next.bookmaker, fields }
+}
+
+/**
+ * Diff two game lists for one sport
+ */
+export function diffGames(
+  prev: NormalizedOdds[],
+  next: NormalizedOdds[]
+): Pick<OddsDelta, 'games' | 'removed' | 'books'> {
+  const previous = new Map(prev.map(g => [g.gameId, g]))
+  const current = new Set(next.map(g => g.gameId))
+
+  const games: NormalizedOdds[] = []
+  const books: BookPatch[] = []
+
+  for (const game of next) {
+    const old = previous.get(game.gameId)
+
+    if (!old || GAME_FIELDS.some(field => old[field] !== game[field])) {
+      games.push(game)
+      continue
+    }
+
+    const oldBooks = new Map(old.books.map(b => [b.bookmaker, b]))
+    const newBooks = new Set(game.books.map(b => b.bookmaker))
+
+    for (const book of game.books) {
+      const oldBook = oldBooks.get(book.bookmaker)
+      if (!oldBook) {
+        books.push({ gameId: game.gameId, bookmaker: book.bookmaker, fields: { ...book } })
+        continue
+      }
+
+      const patch = diffBook(game.gameId, oldBook, book)
+      if (patch) books.push(patch)
+    }
+
+    for (const bookmaker of oldBooks.keys()) {
+      if (!newBooks.has(bookmaker)) {
+        books.push({ gameId: game.gameId, bookmaker, removed: true })
+      }
+    }
+  }
+
+  const removed = prev.map(g => g.gameId).filter(id => !current.has(id))
+
+  return { games, removed, books }
+}
+
+/**
+ * Store a new snapshot for a sport and return the delta from the previous
+ * one, or null when nothing changed (the sequence number is not bumped).
+ */
+export function updateSnapshot(sport: string, games: NormalizedOdds[], now = Date.now()): OddsDelta | null {
+  const key = sport.toLowerCase()
+  const previous = snapshots.get(key)
+
+  if (!previous) {
+    snapshots.set(key, { sport: key, seq: 1, timestamp: now, games })
+    return { sport: key, seq: 1, timestamp: now, games, removed: [], books: [] }
+  }
+
+  const diff = diffGames(previous.games, games)
+  if (diff.games.length === 0 && diff.removed.length === 0 && diff.books.length === 0) {
+    return null
+  }
+
+  const seq = previous.seq + 1
+  snapshots.set(key, { sport: key, seq, timestamp: now, games })
+  return { sport: key, seq, timestamp: now, ...diff }
+}
+
+export function getSnapshot(sport: string): OddsSnapshot | null {
+  return snapshots.get(sport.toLowerCase()) || null
+}
+
+export default {
+  diffGames,
+  updateSnapshot,
+  getSnapshot
+}
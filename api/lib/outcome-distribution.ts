@@ -0,0 +1,173 @@
+/**
+ * Outcome Distributions
+ *
+ * Per-sport model of final margin of victory and game total, used to price
+ * middles (the chance a result lands between two lines):
+ * 1. A normal curve centred on the market line, discretised to whole points
+ * 2. Key numbers (NFL 3 and 7) get extra mass before renormalising
+ * 3. Sports that can't end level get no mass on a zero margin
+ * 4. Player props use a per-market curve over the player's stat, centred on
+ *    the prop line and floored at zero
+ *
+ * Override per sport with MIDDLE_DISTRIBUTIONS, e.g.
+ * {"nfl":{"margin":{"stdDev":14}},"nba":{"total":{"stdDev":19}}}
+ * and per prop market with PROP_DISTRIBUTIONS, e.g.
+ * {"nba":{"player_points":{"stdDev":7}}}
+ */
+
+export type DistributionMarket = 'margin' | 'total'
+
+export interface OutcomeDistribution {
+  stdDev: number                      // Spread of results around the market line
+  keyNumbers?: Record<number, number> // Mass multiplier per result (absolute value for margins)
+  noTies?: boolean                    // Margin of 0 is impossible (overtime / shootout)
+}
+
+const DEFAULT_DISTRIBUTIONS: Record<DistributionMarket, OutcomeDistribution> = {
+  margin: { stdDev: 12 },
+  total: { stdDev: 14 }
+}
+
+const DISTRIBUTIONS: Record<string, Partial<Record<DistributionMarket, OutcomeDistribution>>> = {
+  nfl: {
+    margin: { stdDev: 13.5, keyNumbers: { 3: 2.4, 7: 1.7, 10: 1.25, 6: 1.2, 4: 1.15, 14: 1.15 } },
+    total: { stdDev: 10, keyNumbers: { 41: 1.3, 43: 1.3, 44: 1.25, 37: 1.2, 47: 1.2, 51: 1.15 } }
+  },
+  nba: { margin: { stdDev: 12, noTies: true }, total: { stdDev: 18 } },
+  mlb: { margin: { stdDev: 4.2, noTies: true }, total: { stdDev: 3.1 } },
+  nhl: { margin: { stdDev: 2.3, keyNumbers: { 1: 1.3 }, noTies: true }, total: { stdDev: 2.2 } }
+}
+
+try {
+  const overrides = JSON.parse(process.env.MIDDLE_DISTRIBUTIONS || '{}')
+  for (const [sport, markets] of Object.entries(overrides) as [string, Partial<Record<DistributionMarket, OutcomeDistribution>>][]) {
+    DISTRIBUTIONS[sport] = { ...DISTRIBUTIONS[sport], ...markets }
+  }
+} catch (err: any) {
+  console.error('[MIDDLES] Invalid MIDDLE_DISTRIBUTIONS, using defaults:', err.message)
+}
+
+// Spread of a player's stat around the prop line, per sport and market
+const DEFAULT_PROP_DISTRIBUTION: OutcomeDistribution = { stdDev: 2 }
+
+const PROP_DISTRIBUTIONS: Record<string, Record<string, OutcomeDistribution>> = {
+  nba: {
+    player_points: { stdDev: 6.5 },
+    player_rebounds: { stdDev: 3.1 },
+    player_assists: { stdDev: 2.5 },
+    player_threes: { stdDev: 1.3 },
+    player_blocks: { stdDev: 0.9 },
+    player_steals: { stdDev: 0.9 },
+    player_turnovers: { stdDev: 1.3 },
+    player_points_rebounds_assists: { stdDev: 8.5 }
+  },
+  nfl: {
+    player_pass_yds: { stdDev: 60 },
+    player_rush_yds: { stdDev: 26 },
+    player_reception_yds: { stdDev: 25 },
+    player_receptions: { stdDev: 1.9 },
+    player_pass_tds: { stdDev: 0.9 }
+  },
+  mlb: {
+    batter_hits: { stdDev: 0.8 },
+    batter_total_bases: { stdDev: 1.4 },
+    pitcher_strikeouts: { stdDev: 2.1 }
+  },
+  nhl: {
+    player_points: { stdDev: 0.8 },
+    player_shots_on_goal: { stdDev: 1.5 }
+  }
+}
+
+try {
+  const overrides = JSON.parse(process.env.PROP_DISTRIBUTIONS || '{}')
+  for (const [sport, markets] of Object.entries(overrides) as [string, Record<string, OutcomeDistribution>][]) {
+    PROP_DISTRIBUTIONS[sport] = { ...PROP_DISTRIBUTIONS[sport], ...markets }
+  }
+} catch (err: any) {
+  console.error('[MIDDLES] Invalid PROP_DISTRIBUTIONS, using defaults:', err.message)
+}
+
+// Results further than this many standard deviations out are ignored
+const TAIL_SDS = 6
+
+// Bumped on every override, so cached middle pricing knows to re-solve
+let distributionVersion = 0
+
+export function getDistributionVersion(): number {
+  return distributionVersion
+}
+
+export function getDistribution(sport: string, market: DistributionMarket): OutcomeDistribution {
+  return DISTRIBUTIONS[sport]?.[market] ?? DEFAULT_DISTRIBUTIONS[market]
+}
+
+export function setDistribution(sport: string, market: DistributionMarket, distribution: OutcomeDistribution): void {
+  DISTRIBUTIONS[sport] = { ...DISTRIBUTIONS[sport], [market]: distribution }
+  distributionVersion++
+}
+
+// Abramowitz & Stegun 7.1.26 - accurate to ~1e-7, plenty for pricing
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(z * z) / 2)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+export function getPropDistribution(sport: string, market: string): OutcomeDistribution {
+  return PROP_DISTRIBUTIONS[sport]?.[market] ?? DEFAULT_PROP_DISTRIBUTION
+}
+
+/**
+ * Discretise a distribution to whole results around `mean`.
+ * Counts (`floorAtZero`) can't go negative; margins key numbers on absolute value.
+ */
+function discretise(
+  { stdDev, keyNumbers = {}, noTies }: OutcomeDistribution,
+  mean: number,
+  floorAtZero: boolean
+): Map<number, number> {
+  const low = Math.floor(mean - TAIL_SDS * stdDev)
+  const high = Math.ceil(mean + TAIL_SDS * stdDev)
+
+  const masses = new Map<number, number>()
+  let total = 0
+
+  for (let x = floorAtZero ? Math.max(0, low) : low; x <= high; x++) {
+    if (!floorAtZero && noTies && x === 0) continue
+
+    const base = normalCdf((x + 0.5 - mean) / stdDev) - normalCdf((x - 0.5 - mean) / stdDev)
+    const weight = keyNumbers[floorAtZero ? x : Math.abs(x)] ?? 1
+    masses.set(x, base * weight)
+    total += base * weight
+  }
+
+  for (const [x, mass] of masses) masses.set(x, mass / total)
+  return masses
+}
+
+/**
+ * Probability of each whole-point result, given the market's expected value
+ * (home margin for 'margin', combined score for 'total')
+ */
+export function outcomeProbabilities(sport: string, market: DistributionMarket, mean: number): Map<number, number> {
+  return discretise(getDistribution(sport, market), mean, market === 'total')
+}
+
+/**
+ * Probability of each whole value of a player's stat, given the market's
+ * expected value for it
+ */
+export function propOutcomeProbabilities(sport: string, market: string, mean: number): Map<number, number> {
+  return discretise(getPropDistribution(sport, market), mean, true)
+}
+
+export default {
+  getDistribution,
+  setDistribution,
+  getDistributionVersion,
+  getPropDistribution,
+  outcomeProbabilities,
+  propOutcomeProbabilities
+}
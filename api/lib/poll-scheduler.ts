@@ -0,0 +1,345 @@
+/**
+ * Quota-Aware Poll Scheduler
+ *
+ * Decides how often each sport is polled so the Odds API credit budget
+ * lasts until the quota resets:
+ * 1. Base interval from how close the next game is
+ * 2. Sports with no upcoming events are only re-checked hourly
+ * 3. Sports with games in progress get a separate, faster live poll
+ *    covering only the started events
+ * 4. Player props get their own slower poll while a sport has events,
+ *    budgeted on what the last prop poll cost
+ * 5. All intervals stretch when projected usage exceeds remaining credits
+ * 6. Hard back-off when credits run low, pause when exhausted
+ */
+
+// Quota configuration
+const QUOTA_RESET_DAY = parseInt(process.env.ODDS_API_RESET_DAY || '1')          // Day of month credits reset
+const LOW_CREDIT_THRESHOLD = parseInt(process.env.ODDS_API_LOW_CREDITS || '200')  // Credits held in reserve
+const LOW_CREDIT_BACKOFF = 4                                                      // Interval multiplier when low
+const DEFAULT_REQUEST_COST = 3                                                    // h2h + spreads + totals, 1 region
+
+// Interval bounds (in ms)
+const MIN_INTERVAL = 5000
+const MAX_CHECK_DELAY = 60000        // Re-evaluate the schedule at least once a minute
+const NO_EVENTS_INTERVAL = 60 * 60 * 1000
+const LIVE_WINDOW = 4 * 60 * 60 * 1000  // Treat a game as in progress for 4h after commence
+const LIVE_INTERVAL = parseInt(process.env.ODDS_LIVE_INTERVAL_MS || '10000')
+const PROP_INTERVAL = parseInt(process.env.PROP_POLL_INTERVAL_MS || '600000')
+
+// Base interval by time until the next commence
+const PROXIMITY_TIERS = [
+  { within: 0, interval: 15000 },                      // Starting now
+  { within: 60 * 60 * 1000, interval: 30000 },         // Within 1 hour
+  { within: 6 * 60 * 60 * 1000, interval: 2 * 60000 }, // Within 6 hours
+  { within: 24 * 60 * 60 * 1000, interval: 10 * 60000 },
+  { within: Infinity, interval: 30 * 60000 }
+]
+
+interface SportSchedule {
+  polled: boolean
+  events: number
+  live: number
+  nextCommence: number | null
+  propCost: number      // Credits the last prop poll spent
+}
+
+export interface BudgetState {
+  remaining: number | null
+  used: number | null
+  lastCost: number
+  updatedAt: number | null
+  periodEndsAt: string
+  projectedUsage: number
+  throttleFactor: number
+  lowCredits: boolean
+  exhausted: boolean
+  sports: Record<string, SportSchedule & { intervalMs: number; liveIntervalMs: number; propIntervalMs: number }>
+}
+
+// State
+const sports = new Map<string, SportSchedule>()
+const quota = {
+  remaining: null as number | null,
+  used: null as number | null,
+  lastCost: DEFAULT_REQUEST_COST,
+  updatedAt: null as number | null,
+  periodEnd: null as number | null    // End of the period the headers were read in
+}
+// Prop requests cost per market, so they're tallied apart from game polls
+let pendingPropCost = 0
+
+/**
+ * Set the sports the scheduler is budgeting for
+ */
+export function setSports(list: string[]): void {
+  for (const sport of list) {
+    if (!sports.has(sport)) {
+      sports.set(sport, { polled: false, events: 0, live: 0, nextCommence: null, propCost: 0 })
+    }
+  }
+}
+
+/**
+ * Record quota headers from an Odds API response.
+ * Prop requests add to the running prop poll cost instead of the game poll cost.
+ */
+export function recordQuota(headers: Record<string, any>, kind: 'odds' | 'props' = 'odds'): void {
+  const remaining = parseInt(headers['x-requests-remaining'])
+  const used = parseInt(headers['x-requests-used'])
+  const last = parseInt(headers['x-requests-last'])
+
+  if (!isNaN(remaining)) quota.remaining = remaining
+  if (!isNaN(used)) quota.used = used
+  if (!isNaN(last) && last > 0) {
+    if (kind === 'props') pendingPropCost += last
+    else quota.lastCost = last
+  }
+  quota.updatedAt = Date.now()
+  quota.periodEnd = getPeriodEnd().getTime()
+}
+
+/**
+ * Record the events returned by the latest poll of a sport
+ */
+export function recordEvents(sport: string, games: { startTime: string }[]): void {
+  const now = Date.now()
+  let live = 0
+  let nextCommence: number | null = null
+
+  for (const game of games) {
+    const start = Date.parse(game.startTime)
+    if (isNaN(start)) continue
+
+    if (start <= now) {
+      if (now - start < LIVE_WINDOW) live++
+    } else if (nextCommence === null || start < nextCommence) {
+      nextCommence = start
+    }
+  }
+
+  sports.set(sport, { polled: true, events: games.length, live, nextCommence, propCost: sports.get(sport)?.propCost ?? 0 })
+}
+
+/**
+ * Record how many events the latest live poll returned
+ */
+export function recordLiveEvents(sport: string, count: number): void {
+  const schedule = sports.get(sport)
+  if (schedule) schedule.live = count
+}
+
+/**
+ * Close out a sport's prop poll: everything prop requests spent since the
+ * last one is what the next will cost. Prop polls must run one sport at a time.
+ */
+export function recordPropPoll(sport: string): void {
+  const schedule = sports.get(sport)
+  if (schedule) schedule.propCost = pendingPropCost
+  pendingPropCost = 0
+}
+
+/**
+ * End of the current quota period
+ */
+function getPeriodEnd(now = new Date()): Date {
+  const end = new Date(now.getFullYear(), now.getMonth(), QUOTA_RESET_DAY)
+  if (end.getTime() <= now.getTime()) {
+    end.setMonth(end.getMonth() + 1)
+  }
+  return end
+}
+
+/**
+ * Forget the last quota reading once its period has ended. Credits have
+ * reset, and only a successful response would otherwise refresh them -
+ * which an exhausted scheduler never makes.
+ */
+function expireQuota(): void {
+  if (quota.periodEnd === null || Date.now() < quota.periodEnd) return
+
+  quota.remaining = null
+  quota.used = null
+  quota.lastCost = DEFAULT_REQUEST_COST
+  quota.periodEnd = null
+}
+
+/**
+ * Pregame interval from event proximity alone, before budget throttling.
+ * Games in progress are covered by the live poll.
+ */
+function getBaseInterval(schedule: SportSchedule): number {
+  if (!schedule.polled) return 0
+  if (schedule.nextCommence === null) return NO_EVENTS_INTERVAL
+
+  const until = schedule.nextCommence - Date.now()
+  const tier = PROXIMITY_TIERS.find(t => until <= t.within)!
+  return tier.interval
+}
+
+/**
+ * Credits the current schedule would spend before the quota resets
+ */
+function getProjectedUsage(): number {
+  const remainingMs = getPeriodEnd().getTime() - Date.now()
+  let usage = 0
+
+  for (const schedule of sports.values()) {
+    const base = getBaseInterval(schedule)
+    if (base > 0) usage += (remainingMs / base) * quota.lastCost
+
+    // Live polling only lasts until the games in progress finish
+    if (schedule.live > 0) {
+      usage += (Math.min(LIVE_WINDOW, remainingMs) / LIVE_INTERVAL) * quota.lastCost
+    }
+
+    if (schedule.events > 0) {
+      usage += (remainingMs / PROP_INTERVAL) * schedule.propCost
+    }
+  }
+
+  return Math.round(usage)
+}
+
+/**
+ * Multiplier applied to every base interval to stay within budget
+ */
+function getThrottleFactor(): number {
+  expireQuota()
+  if (quota.remaining === null) return 1
+
+  const available = quota.remaining - LOW_CREDIT_THRESHOLD
+  const factor = available > 0
+    ? getProjectedUsage() / available
+    // Into the reserve: spread what's left, never faster than the back-off
+    : Math.max(LOW_CREDIT_BACKOFF, getProjectedUsage() / Math.max(quota.remaining, 1))
+
+  return Math.max(1, Math.round(factor * 100) / 100)
+}
+
+function isExhausted(): boolean {
+  expireQuota()
+  return quota.remaining !== null && quota.remaining < quota.lastCost
+}
+
+/**
+ * Current poll interval for a sport
+ */
+export function getSportInterval(sport: string): number {
+  const schedule = sports.get(sport)
+  if (!schedule || !schedule.polled) return 0
+
+  // Nothing left to spend - wait for the reset
+  if (isExhausted()) return getPeriodEnd().getTime() - Date.now()
+
+  const interval = getBaseInterval(schedule) * getThrottleFactor()
+  return Math.max(MIN_INTERVAL, Math.round(interval))
+}
+
+export function isSportDue(sport: string, lastPoll: number): boolean {
+  return Date.now() - lastPoll >= getSportInterval(sport)
+}
+
+/**
+ * Live poll interval for a sport, 0 when nothing is in progress
+ */
+export function getLiveInterval(sport: string): number {
+  const schedule = sports.get(sport)
+  if (!schedule || schedule.live === 0) return 0
+
+  if (isExhausted()) return getPeriodEnd().getTime() - Date.now()
+
+  return Math.max(MIN_INTERVAL, Math.round(LIVE_INTERVAL * getThrottleFactor()))
+}
+
+export function isLiveDue(sport: string, lastLivePoll: number): boolean {
+  const interval = getLiveInterval(sport)
+  return interval > 0 && Date.now() - lastLivePoll >= interval
+}
+
+/**
+ * Prop poll interval for a sport, 0 when it has no events
+ */
+export function getPropInterval(sport: string): number {
+  const schedule = sports.get(sport)
+  if (!schedule || schedule.events === 0) return 0
+
+  if (isExhausted()) return getPeriodEnd().getTime() - Date.now()
+
+  return Math.max(MIN_INTERVAL, Math.round(PROP_INTERVAL * getThrottleFactor()))
+}
+
+export function isPropDue(sport: string, lastPropPoll: number): boolean {
+  const interval = getPropInterval(sport)
+  return interval > 0 && Date.now() - lastPropPoll >= interval
+}
+
+/**
+ * Delay until the next sport (pregame, live or props) is due
+ */
+export function getNextPollDelay(
+  lastPollTimes: Map<string, number>,
+  lastLivePollTimes: Map<string, number> = new Map(),
+  lastPropPollTimes?: Map<string, number>
+): number {
+  let delay = MAX_CHECK_DELAY
+
+  for (const sport of sports.keys()) {
+    const due = (lastPollTimes.get(sport) || 0) + getSportInterval(sport) - Date.now()
+    delay = Math.min(delay, due)
+
+    const liveInterval = getLiveInterval(sport)
+    if (liveInterval > 0) {
+      delay = Math.min(delay, (lastLivePollTimes.get(sport) || 0) + liveInterval - Date.now())
+    }
+
+    const propInterval = getPropInterval(sport)
+    if (lastPropPollTimes && propInterval > 0) {
+      delay = Math.min(delay, (lastPropPollTimes.get(sport) || 0) + propInterval - Date.now())
+    }
+  }
+
+  return Math.max(1000, delay)
+}
+
+export function getBudgetState(): BudgetState {
+  expireQuota()
+  const sportStates: BudgetState['sports'] = {}
+  for (const [sport, schedule] of sports) {
+    sportStates[sport] = {
+      ...schedule,
+      intervalMs: getSportInterval(sport),
+      liveIntervalMs: getLiveInterval(sport),
+      propIntervalMs: getPropInterval(sport)
+    }
+  }
+
+  return {
+    remaining: quota.remaining,
+    used: quota.used,
+    lastCost: quota.lastCost,
+    updatedAt: quota.updatedAt,
+    periodEndsAt: getPeriodEnd().toISOString(),
+    projectedUsage: getProjectedUsage(),
+    throttleFactor: getThrottleFactor(),
+    lowCredits: quota.remaining !== null && quota.remaining <= LOW_CREDIT_THRESHOLD,
+    exhausted: isExhausted(),
+    sports: sportStates
+  }
+}
+
+export default {
+  setSports,
+  recordQuota,
+  recordEvents,
+  recordLiveEvents,
+  getSportInterval,
+  isSportDue,
+  getLiveInterval,
+  isLiveDue,
+  recordPropPoll,
+  getPropInterval,
+  isPropDue,
+  getNextPollDelay,
+  getBudgetState
+}
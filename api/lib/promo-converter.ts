@@ -0,0 +1,258 @@
+/**
+ * Promo Converter
+ *
+ * Turns sportsbook promos into guaranteed profit by hedging the promo bet
+ * at the best prices everywhere else:
+ * 1. Bet credit (stake not returned) - only the winnings pay out
+ * 2. Profit boost - a real-money bet with its winnings scaled up
+ * 3. No-sweat - a losing bet comes back as a bet credit, valued at the
+ *    rate credits usually convert at
+ *
+ * Each candidate (book, market, line, outcome) is hedged so every result
+ * pays the same, by backing the other outcomes or laying the promo outcome
+ * on an exchange, and ranked by that locked-in profit over the promo amount.
+ * Only quotes arb detection would use are hedged against, and whole-number
+ * spreads and totals are left out - a push would break the lock.
+ */
+
+import {
+  americanToDecimal,
+  getCommission,
+  layToBackDecimal,
+  netDecimal,
+  usableBooks,
+  type BookOdds,
+  type NormalizedOdds,
+  type PriceField
+} from './arbitrage-engine.js'
+
+export type PromoType = 'bet_credit' | 'profit_boost' | 'no_sweat'
+
+export interface PromoInput {
+  type: PromoType
+  amount: number              // Credit amount, or the stake for boosts and no-sweat bets
+  book?: string               // Book offering the promo (every book when omitted)
+  boost?: number              // Profit boosts: 0.5 = winnings paid 50% higher
+  refundConversion?: number   // No-sweat: $ a refunded credit is worth per $1 (default 0.7)
+  minOdds?: number            // Promo terms: shortest American odds allowed on the promo bet
+  limit?: number
+}
+
+export interface PromoLeg {
+  book: string
+  bet: string
+  odds: number                // American odds (the lay price for lay legs)
+  stake: number               // $ (liability for lay legs)
+  side?: 'lay'
+  layStake?: number           // Lay legs: backer's stake to enter on the exchange
+}
+
+export interface PromoOption {
+  game: string
+  gameId: string
+  sport: string
+  market: 'moneyline' | 'spread' | 'total'
+  promo: PromoLeg
+  hedges: PromoLeg[]
+  hedgeTotal: number          // $ put up to hedge
+  profit: number              // $ locked in whatever the result
+  conversion: number          // Profit as % of the promo amount
+}
+
+// What credits from no-sweat refunds are assumed to convert at
+const DEFAULT_REFUND_CONVERSION = 0.7
+
+const DEFAULT_LIMIT = 10
+
+const toCents = (n: number) => Math.round(n * 100) / 100
+
+interface PromoOutcome {
+  bet: string
+  field: PriceField
+}
+
+interface PromoMarket {
+  market: PromoOption['market']
+  quotes: BookOdds[]
+  outcomes: PromoOutcome[]
+}
+
+/**
+ * Every market on a game the promo could go on: moneyline (two- or
+ * three-way), and each half-point spread and total line quoted by at
+ * least one usable book
+ */
+function gameMarkets(game: NormalizedOdds, now: number): PromoMarket[] {
+  const moneyline = usableBooks(game, 'moneyline', now)
+  const markets: PromoMarket[] = [
+    {
+      market: 'moneyline',
+      quotes: moneyline.filter(b => !b.drawOdds),
+      outcomes: [
+        { bet: `${game.homeTeam} ML`, field: 'homeOdds' },
+        { bet: `${game.awayTeam} ML`, field: 'awayOdds' }
+      ]
+    },
+    {
+      market: 'moneyline',
+      quotes: moneyline.filter(b => !!b.drawOdds),
+      outcomes: [
+        { bet: `${game.homeTeam} ML`, field: 'homeOdds' },
+        { bet: 'Draw', field: 'drawOdds' },
+        { bet: `${game.awayTeam} ML`, field: 'awayOdds' }
+      ]
+    }
+  ]
+
+  const spreads = new Map<number, BookOdds[]>()
+  const totals = new Map<number, BookOdds[]>()
+  for (const book of usableBooks(game, 'spread', now)) {
+    if (book.homeSpread === undefined || Number.isInteger(book.homeSpread)) continue
+    spreads.set(book.homeSpread, [...(spreads.get(book.homeSpread) || []), book])
+  }
+  for (const book of usableBooks(game, 'total', now)) {
+    if (book.totalLine === undefined || Number.isInteger(book.totalLine)) continue
+    totals.set(book.totalLine, [...(totals.get(book.totalLine) || []), book])
+  }
+
+  for (const [spread, quotes] of spreads) {
+    markets.push({
+      market: 'spread',
+      quotes,
+      outcomes: [
+        { bet: `${game.homeTeam} ${spread > 0 ? '+' : ''}${spread}`, field: 'spreadHomeOdds' },
+        { bet: `${game.awayTeam} ${-spread > 0 ? '+' : ''}${-spread}`, field: 'spreadAwayOdds' }
+      ]
+    })
+  }
+
+  for (const [total, quotes] of totals) {
+    markets.push({
+      market: 'total',
+      quotes,
+      outcomes: [
+        { bet: `Over ${total}`, field: 'overOdds' },
+        { bet: `Under ${total}`, field: 'underOdds' }
+      ]
+    })
+  }
+
+  return markets.filter(m => m.quotes.length >= 2)
+}
+
+type HedgeLeg = Omit<PromoLeg, 'stake' | 'layStake'> & { decimal: number }
+
+/**
+ * Cheapest way to cover every outcome but `index`, away from the promo
+ * book: back each other outcome at its best net price, or lay the promo
+ * outcome on an exchange.
+ */
+function bestHedge(market: PromoMarket, index: number, promoBook: string): { legs: HedgeLeg[]; implied: number } | null {
+  const others = market.quotes.filter(q => q.bookmaker !== promoBook)
+
+  // Back every other outcome
+  const backs: HedgeLeg[] = []
+  for (const [i, outcome] of market.outcomes.entries()) {
+    if (i === index) continue
+    let best: HedgeLeg | null = null
+    for (const quote of others) {
+      const odds = quote[outcome.field]
+      if (!odds) continue
+      const decimal = netDecimal(odds, getCommission(quote.bookmaker))
+      if (!best || decimal > best.decimal) best = { book: quote.bookmaker, bet: outcome.bet, odds, decimal }
+    }
+    if (best) backs.push(best)
+  }
+  const backImplied = backs.length === market.outcomes.length - 1
+    ? backs.reduce((sum, leg) => sum + 1 / leg.decimal, 0)
+    : Infinity
+
+  // Or lay the promo outcome
+  const promoOutcome = market.outcomes[index]
+  let lay: HedgeLeg | null = null
+  for (const quote of others) {
+    const odds = quote.lay?.[promoOutcome.field]
+    if (!odds) continue
+    const decimal = layToBackDecimal(odds, getCommission(quote.bookmaker))
+    if (!lay || decimal > lay.decimal) lay = { book: quote.bookmaker, bet: `Lay ${promoOutcome.bet}`, odds, decimal, side: 'lay' }
+  }
+  const layImplied = lay ? 1 / lay.decimal : Infinity
+
+  if (backImplied === Infinity && layImplied === Infinity) return null
+  return layImplied < backImplied ? { legs: [lay!], implied: layImplied } : { legs: backs, implied: backImplied }
+}
+
+/**
+ * What the promo bet returns if it wins, costs up front, and gives back if it loses
+ */
+function promoPayoffs(input: PromoInput, decimal: number): { win: number; cost: number; refund: number } {
+  const { type, amount } = input
+  if (type === 'bet_credit') return { win: amount * (decimal - 1), cost: 0, refund: 0 }
+  if (type === 'profit_boost') return { win: amount * (1 + (decimal - 1) * (1 + (input.boost ?? 0))), cost: amount, refund: 0 }
+  return { win: amount * decimal, cost: amount, refund: amount * (input.refundConversion ?? DEFAULT_REFUND_CONVERSION) }
+}
+
+/**
+ * Rank hedges for a promo across every game, market and book.
+ * Throws on input that can't be priced.
+ */
+export function convertPromo(games: NormalizedOdds[], input: PromoInput, now = Date.now()): PromoOption[] {
+  if (!['bet_credit', 'profit_boost', 'no_sweat'].includes(input.type)) {
+    throw new Error('type must be bet_credit, profit_boost or no_sweat')
+  }
+  if (!(input.amount > 0)) throw new Error('amount must be positive')
+  if (input.type === 'profit_boost' && !(input.boost! > 0)) throw new Error('Profit boosts need a positive boost (0.5 = 50%)')
+
+  const minDecimal = input.minOdds ? americanToDecimal(input.minOdds) : 1
+  const options: PromoOption[] = []
+
+  for (const game of games) {
+    for (const market of gameMarkets(game, now)) {
+      const promoQuotes = market.quotes.filter(q => !input.book || q.bookmaker === input.book)
+
+      for (const quote of promoQuotes) {
+        market.outcomes.forEach((outcome, i) => {
+          const odds = quote[outcome.field]
+          if (!odds) return
+
+          const decimal = netDecimal(odds, getCommission(quote.bookmaker))
+          if (americanToDecimal(odds) < minDecimal) return
+
+          const hedge = bestHedge(market, i, quote.bookmaker)
+          if (!hedge) return
+
+          // Hedge each other result to pay what the promo pays on a win
+          const { win, cost, refund } = promoPayoffs(input, decimal)
+          const hedges = hedge.legs.map(({ decimal: hedgeDecimal, ...leg }): PromoLeg => {
+            const stake = toCents((win - refund) / hedgeDecimal)
+            return leg.side === 'lay'
+              ? { ...leg, stake, layStake: toCents(stake / (americanToDecimal(leg.odds) - 1)) }
+              : { ...leg, stake }
+          })
+          const hedgeTotal = (win - refund) * hedge.implied
+          const profit = win - cost - hedgeTotal
+
+          options.push({
+            game: game.game,
+            gameId: game.gameId,
+            sport: game.sport,
+            market: market.market,
+            promo: { book: quote.bookmaker, bet: outcome.bet, odds, stake: input.amount },
+            hedges,
+            hedgeTotal: toCents(hedgeTotal),
+            profit: toCents(profit),
+            conversion: toCents((profit / input.amount) * 100)
+          })
+        })
+      }
+    }
+  }
+
+  return options
+    .sort((a, b) => b.conversion - a.conversion)
+    .slice(0, input.limit ?? DEFAULT_LIMIT)
+}
+
+export default {
+  convertPromo
+}
@@ -138,6 +138,15 @@ export const cache = {
     await getRedis().setex(`odds:${sport}`, ttlSeconds, JSON.stringify(data))
   },
 
+  async getProps(sport: string): Promise<any[] | null> {
+    const data = await getRedis().get(`props:${sport}`)
+    return data ? JSON.parse(data) : null
+  },
+
+  async setProps(sport: string, data: any[], ttlSeconds = 600): Promise<void> {
+    await getRedis().setex(`props:${sport}`, ttlSeconds, JSON.stringify(data))
+  },
+
   async getArbitrages(): Promise<any[]> {
     const data = await getRedis().get('arbitrages:active')
     return data ? JSON.parse(data) : []
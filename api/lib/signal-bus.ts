@@ -28,6 +28,9 @@ export interface Signal {
     description: string
     confidence: number  // 0-100
     ttl: number         // Seconds until stale
+    game?: string
+    evPercent?: number  // For EV signals
+    bookmaker?: string
   }
   evidence: {
     books: string[]
@@ -37,6 +40,12 @@ export interface Signal {
     profit?: number     // For arb signals
     timestamp: number
   }
+  analysis?: {          // For EV signals: the price against fair
+    fairOdds: number
+    currentOdds: number
+    edge: number
+    model: string
+  }
   createdAt: number
   expiresAt: number
 }
@@ -175,7 +184,8 @@ export async function publishSignal(
   type: SignalType,
   nodeId: string,
   payload: Signal['payload'],
-  evidence: Signal['evidence']
+  evidence: Signal['evidence'],
+  analysis?: Signal['analysis']
 ): Promise<Signal> {
   const redis = getRedis()
 
@@ -192,6 +202,7 @@ export async function publishSignal(
     },
     payload,
     evidence,
+    ...(analysis && { analysis }),
     createdAt: Date.now(),
     expiresAt: Date.now() + (payload.ttl || SIGNAL_TTL[type]) * 1000
   }
@@ -298,26 +309,31 @@ export async function publishDeadArbSignal(
 }
 
 /**
- * Publish an EV+ opportunity signal
+ * Publish an EV+ opportunity signal: a price that beats the fair line
  */
 export async function publishEvSignal(
   nodeId: string,
   gameId: string,
+  game: string,
   sport: string,
   description: string,
   confidence: number,
-  books: string[]
+  bookmaker: string,
+  analysis: NonNullable<Signal['analysis']>
 ): Promise<Signal> {
   return publishSignal('ev', nodeId, {
     gameId,
+    game,
     sport,
     description,
     confidence,
-    ttl: SIGNAL_TTL.ev
+    ttl: SIGNAL_TTL.ev,
+    evPercent: analysis.edge,
+    bookmaker
   }, {
-    books,
+    books: [bookmaker],
     timestamp: Date.now()
-  })
+  }, analysis)
 }
 
 /**
@@ -0,0 +1,203 @@
+/**
+ * Stake Planner
+ *
+ * Turns an arb's stake percentages into dollar bets you can actually place:
+ * 1. Scale the total to the bankroll, shrinking it to fit per-book balances and max bets
+ * 2. Round every stake to a multiple (whole dollars, $5...) so bets don't look computed
+ * 3. Pick the rounding (up or down per leg) that keeps the best worst case
+ *
+ * Exchange legs are priced net of commission (lays as their back equivalent,
+ * staked as liability) and never sized past the quoted liquidity.
+ */
+
+import { americanToDecimal, getCommission, layToBackDecimal, netDecimal } from './arbitrage-engine.js'
+
+export interface StakeLegInput {
+  book: string
+  bet?: string
+  odds: number          // American odds (the lay price for lay legs)
+  side?: 'lay'          // Lay the other outcome on an exchange; stake is the liability
+  commission?: number   // Overrides the book's commission rate
+  maxStake?: number     // $ the quoted size allows on this leg
+}
+
+export interface BookLimits {
+  balance?: number      // Funds available at the book (shared by every leg there)
+  maxBet?: number       // Largest single bet the book accepts
+  commission?: number   // Rate on net winnings (exchanges)
+}
+
+export interface StakePlanInput {
+  legs: StakeLegInput[]
+  bankroll: number
+  books?: Record<string, BookLimits>
+  rounding?: number     // Stake multiple in dollars (0.01 = cents, 1 = whole dollars, 5 = $5s)
+  middle?: boolean      // Legs can win together, so the best case is every leg paying
+}
+
+export interface PlannedStake {
+  book: string
+  bet: string
+  odds: number
+  decimalOdds: number  // Net of commission
+  stake: number
+  payout: number        // Returned (stake included) if this leg wins
+  side?: 'lay'
+  layStake?: number     // Lay legs: backer's stake to enter on the exchange
+}
+
+export type BindingConstraint =
+  | { type: 'bankroll'; limit: number }
+  | { type: 'balance' | 'maxBet' | 'liquidity'; book: string; limit: number }
+
+export interface StakePlan {
+  stakes: PlannedStake[]
+  totalStake: number
+  worstCase: number     // $ profit when the weakest leg wins
+  bestCase: number
+  worstCasePct: number  // % of total stake
+  bestCasePct: number
+  binding: BindingConstraint
+  idealTotal: number    // Total before rounding
+  roundingCost: number  // $ of worst case given up to rounding
+}
+
+// Above this many legs, trying every up/down rounding gets too expensive
+const MAX_ROUNDING_SEARCH_LEGS = 8
+
+const toCents = (n: number) => Math.round(n * 100) / 100
+
+/**
+ * Plan dollar stakes for a set of mutually exclusive legs.
+ * Throws on input that can't produce a plan.
+ */
+export function planStakes(input: StakePlanInput): StakePlan {
+  const { legs, bankroll, books = {}, middle = false } = input
+  const step = input.rounding && input.rounding > 0 ? input.rounding : 0.01
+
+  if (!Array.isArray(legs) || legs.length < 2) throw new Error('At least two legs required')
+  if (!(bankroll > 0)) throw new Error('Bankroll must be positive')
+  if (legs.some(leg => !leg.book || !leg.odds || Math.abs(leg.odds) < 100)) {
+    throw new Error('Every leg needs a book and American odds')
+  }
+
+  const decimals = legs.map(leg => {
+    const commission = leg.commission ?? books[leg.book]?.commission ?? getCommission(leg.book)
+    return leg.side === 'lay' ? layToBackDecimal(leg.odds, commission) : netDecimal(leg.odds, commission)
+  })
+  const implied = decimals.map(d => 1 / d)
+  const totalImplied = implied.reduce((sum, p) => sum + p, 0)
+  const weights = implied.map(p => p / totalImplied)
+
+  // Largest total every limit allows
+  let total = bankroll
+  let binding: BindingConstraint = { type: 'bankroll', limit: bankroll }
+
+  legs.forEach((leg, i) => {
+    const maxBet = books[leg.book]?.maxBet
+    if (maxBet !== undefined && maxBet / weights[i] < total) {
+      total = maxBet / weights[i]
+      binding = { type: 'maxBet', book: leg.book, limit: maxBet }
+    }
+    if (leg.maxStake !== undefined && leg.maxStake / weights[i] < total) {
+      total = leg.maxStake / weights[i]
+      binding = { type: 'liquidity', book: leg.book, limit: leg.maxStake }
+    }
+  })
+
+  const bookShares = new Map<string, number>()
+  legs.forEach((leg, i) => bookShares.set(leg.book, (bookShares.get(leg.book) || 0) + weights[i]))
+  for (const [book, share] of bookShares) {
+    const balance = books[book]?.balance
+    if (balance !== undefined && balance / share < total) {
+      total = balance / share
+      binding = { type: 'balance', book, limit: balance }
+    }
+  }
+
+  const ideal = weights.map(w => total * w)
+  const idealWorst = total / totalImplied - total
+
+  const fits = (stakes: number[]) => {
+    if (stakes.some(stake => stake <= 0)) return false
+    if (stakes.reduce((sum, stake) => sum + stake, 0) > bankroll + 1e-9) return false
+
+    const perBook = new Map<string, number>()
+    for (let i = 0; i < legs.length; i++) {
+      const limits = books[legs[i].book]
+      if (limits?.maxBet !== undefined && stakes[i] > limits.maxBet + 1e-9) return false
+      if (legs[i].maxStake !== undefined && stakes[i] > legs[i].maxStake! + 1e-9) return false
+      perBook.set(legs[i].book, (perBook.get(legs[i].book) || 0) + stakes[i])
+    }
+    for (const [book, staked] of perBook) {
+      const balance = books[book]?.balance
+      if (balance !== undefined && staked > balance + 1e-9) return false
+    }
+    return true
+  }
+
+  const outcomes = (stakes: number[]) => {
+    const staked = stakes.reduce((sum, stake) => sum + stake, 0)
+    const payouts = stakes.map((stake, i) => stake * decimals[i])
+    const profits = payouts.map(payout => payout - staked)
+    return {
+      staked,
+      payouts,
+      worst: Math.min(...profits),
+      best: middle ? payouts.reduce((sum, p) => sum + p, 0) - staked : Math.max(...profits)
+    }
+  }
+
+  const floors = ideal.map(x => toCents(Math.floor(x / step + 1e-9) * step))
+  const ceils = floors.map(x => toCents(x + step))
+
+  // Every up/down combination for typical 2-3 way markets, floors only beyond that
+  let chosen: number[] | null = null
+  let chosenResult: ReturnType<typeof outcomes> | null = null
+
+  const combinations = legs.length <= MAX_ROUNDING_SEARCH_LEGS ? 1 << legs.length : 1
+  for (let mask = 0; mask < combinations; mask++) {
+    const stakes = floors.map((floor, i) => (mask & (1 << i) ? ceils[i] : floor))
+    if (!fits(stakes)) continue
+
+    const result = outcomes(stakes)
+    const better = !chosenResult ||
+      result.worst > chosenResult.worst + 1e-9 ||
+      (Math.abs(result.worst - chosenResult.worst) <= 1e-9 && result.best > chosenResult.best)
+    if (better) {
+      chosen = stakes
+      chosenResult = result
+    }
+  }
+
+  if (!chosen || !chosenResult) {
+    throw new Error(`Limits are too small to stake every leg in multiples of $${step}`)
+  }
+
+  return {
+    stakes: legs.map((leg, i): PlannedStake => ({
+      book: leg.book,
+      bet: leg.bet || `Leg ${i + 1}`,
+      odds: leg.odds,
+      decimalOdds: Math.round(decimals[i] * 1000) / 1000,
+      stake: chosen![i],
+      payout: toCents(chosenResult!.payouts[i]),
+      ...(leg.side === 'lay' && {
+        side: 'lay',
+        layStake: toCents(chosen![i] / (americanToDecimal(leg.odds) - 1))
+      })
+    })),
+    totalStake: toCents(chosenResult.staked),
+    worstCase: toCents(chosenResult.worst),
+    bestCase: toCents(chosenResult.best),
+    worstCasePct: toCents((chosenResult.worst / chosenResult.staked) * 100),
+    bestCasePct: toCents((chosenResult.best / chosenResult.staked) * 100),
+    binding,
+    idealTotal: toCents(total),
+    roundingCost: toCents(Math.max(0, idealWorst - chosenResult.worst))
+  }
+}
+
+export default {
+  planStakes
+}
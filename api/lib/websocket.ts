@@ -13,6 +13,7 @@ import { Server, Socket } from 'socket.io'
 import jwt from 'jsonwebtoken'
 import { getSubscriber } from './redis.js'
 import type { ArbitrageOpportunity } from './arbitrage-engine.js'
+import { updateSnapshot, getSnapshot, type OddsSnapshot, type OddsDelta } from './odds-stream.js'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'sportintel-secret-change-in-production'
 
@@ -29,8 +30,9 @@ export interface NetworkSignal {
   id: string
   type: 'steam' | 'arb' | 'dead' | 'ev' | 'news' | 'pattern'
   source: { nodeId: string; reputation: number }
-  payload: { gameId: string; sport: string; description: string; confidence: number; ttl: number }
+  payload: { gameId: string; sport: string; description: string; confidence: number; ttl: number; game?: string; evPercent?: number; bookmaker?: string }
   evidence: { books: string[]; oldLine?: number; newLine?: number; delta?: number; profit?: number; timestamp: number }
+  analysis?: { fairOdds: number; currentOdds: number; edge: number; model: string }
   createdAt: number
   expiresAt: number
 }
@@ -39,7 +41,8 @@ interface ServerToClientEvents {
   'arbitrage:new': (arb: ArbitrageOpportunity) => void
   'arbitrage:expired': (arbId: string) => void
   'arbitrage:list': (arbs: ArbitrageOpportunity[]) => void
-  'odds:update': (data: { sport: string; games: any[] }) => void
+  'odds:snapshot': (snapshot: OddsSnapshot) => void
+  'odds:delta': (delta: OddsDelta) => void
   'steam:move': (move: any) => void
   'system:notification': (msg: { type: string; message: string }) => void
   'connection:status': (status: { connected: boolean; tier: string; nodeId?: string }) => void
@@ -53,6 +56,7 @@ interface ServerToClientEvents {
 interface ClientToServerEvents {
   'subscribe:sport': (sport: string) => void
   'unsubscribe:sport': (sport: string) => void
+  'odds:resync': (sport: string) => void
   'subscribe:arbitrage': () => void
   'unsubscribe:arbitrage': () => void
   'ping': () => void
@@ -128,6 +132,10 @@ export function initWebSocket(httpServer: HttpServer): Server {
         sports.add(sport.toLowerCase())
         socket.join(`sport:${sport.toLowerCase()}`)
         console.log(`[WS] ${socket.id} subscribed to ${sport}`)
+
+        // Start the client from the full snapshot; deltas follow
+        const snapshot = getSnapshot(sport)
+        if (snapshot) socket.emit('odds:snapshot', snapshot)
       }
     })
 
@@ -140,6 +148,12 @@ export function initWebSocket(httpServer: HttpServer): Server {
       }
     })
 
+    // Client missed a delta (sequence gap) - resend the full snapshot
+    socket.on('odds:resync', (sport: string) => {
+      const snapshot = getSnapshot(sport)
+      if (snapshot) socket.emit('odds:snapshot', snapshot)
+    })
+
     // Subscribe to arbitrage alerts
     socket.on('subscribe:arbitrage', () => {
       arbSubscribers.add(socket.id)
@@ -343,15 +357,23 @@ export function broadcastArbitrage(arb: ArbitrageOpportunity): void {
 }
 
 /**
- * Broadcast odds update to sport subscribers
+ * Tell arbitrage subscribers an opportunity is gone (or no longer profitable enough)
  */
-export function broadcastOddsUpdate(sport: string, data: any): void {
+export function broadcastArbitrageExpired(arbId: string): void {
   if (!io) return
 
-  io.to(`sport:${sport.toLowerCase()}`).emit('odds:update', {
-    sport,
-    games: data.games || data
-  })
+  io.to('arbitrage').emit('arbitrage:expired', arbId)
+}
+
+/**
+ * Broadcast odds update to sport subscribers as a delta against the last
+ * snapshot. Nothing is sent when no price changed.
+ */
+export function broadcastOddsUpdate(sport: string, data: any): void {
+  const delta = updateSnapshot(sport, data.games || data)
+  if (!io || !delta) return
+
+  io.to(`sport:${sport.toLowerCase()}`).emit('odds:delta', delta)
 }
 
 /**
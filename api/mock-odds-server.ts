@@ -0,0 +1,525 @@
+/**
+ * Mock Odds API Server
+ *
+ * Offline stand-in for The Odds API v4. Speaks the same shapes for:
+ * - GET /v4/sports
+ * - GET /v4/sports/:sport/odds
+ * - GET /v4/sports/:sport/events
+ * - GET /v4/sports/:sport/events/:eventId/odds
+ *
+ * Simulates line drift, steam moves (sharp books move first, the rest
+ * follow a tick later), planted arbitrage windows and quota headers.
+ *
+ * Usage:
+ *   npm run mock:odds
+ *   ODDS_API_URL=http://localhost:4010/v4 ODDS_API_KEY=mock npm run dev
+ *
+ * Manual triggers:
+ *   POST /mock/steam   { sport?, gameId? }
+ *   POST /mock/arb     { sport?, gameId?, durationMs? }
+ *   POST /mock/quota   { remaining }
+ *   GET  /mock/state
+ */
+
+import express from 'express'
+import dotenv from 'dotenv'
+
+dotenv.config({ path: '../.env' })
+dotenv.config()
+
+// Configuration
+const PORT = parseInt(process.env.MOCK_ODDS_PORT || '4010')
+const TICK_MS = parseInt(process.env.MOCK_TICK_MS || '5000')
+const DRIFT = parseFloat(process.env.MOCK_DRIFT || '0.01')              // Max probability drift per tick
+const STEAM_EVERY_MS = parseInt(process.env.MOCK_STEAM_EVERY_MS || '60000')   // 0 disables
+const ARB_EVERY_MS = parseInt(process.env.MOCK_ARB_EVERY_MS || '90000')       // 0 disables
+const ARB_DURATION_MS = parseInt(process.env.MOCK_ARB_DURATION_MS || '20000')
+const QUOTA = parseInt(process.env.MOCK_QUOTA || '500')
+const GAMES_PER_SPORT = parseInt(process.env.MOCK_GAMES_PER_SPORT || '6')
+let seed = parseInt(process.env.MOCK_SEED || '42')
+
+const BOOKMAKERS = [
+  { key: 'pinnacle', title: 'Pinnacle', sharp: true },
+  { key: 'draftkings', title: 'DraftKings', sharp: false },
+  { key: 'fanduel', title: 'FanDuel', sharp: false },
+  { key: 'betmgm', title: 'BetMGM', sharp: false },
+  { key: 'caesars', title: 'Caesars', sharp: false },
+  { key: 'pointsbet', title: 'PointsBet', sharp: false },
+  { key: 'bovada', title: 'Bovada', sharp: false }
+]
+
+const SPORTS: Record<string, {
+  key: string
+  title: string
+  group: string
+  teams: string[]
+  players: string[]
+  spreadScale: number
+  totalBase: number
+  propMarkets: Record<string, number>
+}> = {
+  nfl: {
+    key: 'americanfootball_nfl',
+    title: 'NFL',
+    group: 'American Football',
+    teams: ['Kansas City Chiefs', 'Buffalo Bills', 'Philadelphia Eagles', 'Dallas Cowboys', 'San Francisco 49ers', 'Detroit Lions', 'Baltimore Ravens', 'Miami Dolphins', 'Green Bay Packers', 'Cincinnati Bengals', 'Houston Texans', 'Los Angeles Rams'],
+    players: ['Patrick Mahomes', 'Josh Allen', 'Jalen Hurts', 'Lamar Jackson', 'Christian McCaffrey', 'CeeDee Lamb', 'Tyreek Hill', 'Amon-Ra St. Brown'],
+    spreadScale: 14,
+    totalBase: 45.5,
+    propMarkets: { player_pass_yds: 245.5, player_pass_tds: 1.5, player_rush_yds: 62.5, player_reception_yds: 58.5, player_receptions: 5.5 }
+  },
+  nba: {
+    key: 'basketball_nba',
+    title: 'NBA',
+    group: 'Basketball',
+    teams: ['Boston Celtics', 'Los Angeles Lakers', 'Denver Nuggets', 'Milwaukee Bucks', 'Phoenix Suns', 'Golden State Warriors', 'Dallas Mavericks', 'New York Knicks', 'Oklahoma City Thunder', 'Minnesota Timberwolves', 'Miami Heat', 'Philadelphia 76ers'],
+    players: ['Jayson Tatum', 'LeBron James', 'Nikola Jokic', 'Giannis Antetokounmpo', 'Devin Booker', 'Stephen Curry', 'Luka Doncic', 'Jalen Brunson'],
+    spreadScale: 16,
+    totalBase: 224.5,
+    propMarkets: { player_points: 25.5, player_rebounds: 7.5, player_assists: 6.5, player_threes: 2.5, player_points_rebounds_assists: 38.5 }
+  },
+  mlb: {
+    key: 'baseball_mlb',
+    title: 'MLB',
+    group: 'Baseball',
+    teams: ['New York Yankees', 'Los Angeles Dodgers', 'Atlanta Braves', 'Houston Astros', 'Philadelphia Phillies', 'Baltimore Orioles', 'Texas Rangers', 'Seattle Mariners'],
+    players: ['Aaron Judge', 'Shohei Ohtani', 'Ronald Acuna Jr.', 'Yordan Alvarez', 'Bryce Harper', 'Gunnar Henderson'],
+    spreadScale: 3,
+    totalBase: 8.5,
+    propMarkets: { batter_hits: 0.5, batter_total_bases: 1.5, batter_home_runs: 0.5, pitcher_strikeouts: 6.5 }
+  },
+  nhl: {
+    key: 'icehockey_nhl',
+    title: 'NHL',
+    group: 'Ice Hockey',
+    teams: ['Florida Panthers', 'Edmonton Oilers', 'Vegas Golden Knights', 'Colorado Avalanche', 'New York Rangers', 'Dallas Stars', 'Boston Bruins', 'Toronto Maple Leafs'],
+    players: ['Connor McDavid', 'Nathan MacKinnon', 'Auston Matthews', 'Leon Draisaitl', 'Matthew Tkachuk', 'David Pastrnak'],
+    spreadScale: 3,
+    totalBase: 6.5,
+    propMarkets: { player_points: 0.5, player_goals: 0.5, player_assists: 0.5, player_shots_on_goal: 3.5 }
+  }
+}
+
+interface BookState {
+  bias: number              // Persistent per-book offset on the home probability
+  lag: number               // Probability shift this book has not applied yet (steam)
+  updatedAt: number
+}
+
+interface MockGame {
+  id: string
+  sport: string
+  homeTeam: string
+  awayTeam: string
+  commenceTime: number
+  homeProb: number
+  totalLine: number
+  books: Record<string, BookState>
+  players: string[]
+}
+
+interface PlantedArb {
+  gameId: string
+  book: string
+  until: number
+}
+
+// State
+const games = new Map<string, MockGame>()
+const arbs: PlantedArb[] = []
+let requestsUsed = 0
+let requestsRemaining = QUOTA
+
+// ============================================
+// SIMULATION
+// ============================================
+
+// Deterministic PRNG (mulberry32) so runs with the same MOCK_SEED match
+function random(): number {
+  seed |= 0
+  seed = (seed + 0x6D2B79F5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+function pick<T>(list: T[]): T {
+  return list[Math.floor(random() * list.length)]
+}
+
+function randomId(): string {
+  let id = ''
+  for (let i = 0; i < 32; i++) id += Math.floor(random() * 16).toString(16)
+  return id
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function seedGames(): void {
+  const now = Date.now()
+
+  for (const [sport, config] of Object.entries(SPORTS)) {
+    const teams = [...config.teams].sort(() => random() - 0.5)
+
+    for (let i = 0; i < Math.min(GAMES_PER_SPORT, Math.floor(teams.length / 2)); i++) {
+      const books: Record<string, BookState> = {}
+      for (const book of BOOKMAKERS) {
+        books[book.key] = { bias: (random() - 0.5) * 0.03, lag: 0, updatedAt: now }
+      }
+
+      const id = randomId()
+      games.set(id, {
+        id,
+        sport,
+        homeTeam: teams[i * 2],
+        awayTeam: teams[i * 2 + 1],
+        // First game already underway, the rest spread over the next two days
+        commenceTime: i === 0 ? now - 30 * 60000 : now + i * 4 * 60 * 60000,
+        homeProb: 0.35 + random() * 0.3,
+        totalLine: config.totalBase,
+        books,
+        players: [...config.players].sort(() => random() - 0.5).slice(0, 4)
+      })
+    }
+  }
+}
+
+/**
+ * Random walk on every game; each book occasionally re-prices
+ */
+function tick(): void {
+  const now = Date.now()
+
+  for (const game of games.values()) {
+    game.homeProb = clamp(game.homeProb + (random() - 0.5) * 2 * DRIFT, 0.08, 0.92)
+
+    for (const book of Object.values(game.books)) {
+      // Lagging books catch up on a steam move one tick later
+      if (book.lag !== 0) {
+        book.lag = 0
+        book.updatedAt = now
+      } else if (random() < 0.5) {
+        book.updatedAt = now
+      }
+    }
+  }
+
+  // Drop expired planted arbs
+  for (let i = arbs.length - 1; i >= 0; i--) {
+    if (arbs[i].until < now) {
+      console.log(`[MOCK ODDS] Arb window closed: ${arbs[i].gameId.slice(0, 8)} @ ${arbs[i].book}`)
+      arbs.splice(i, 1)
+    }
+  }
+}
+
+function findGame(sport?: string, gameId?: string): MockGame | undefined {
+  if (gameId) return games.get(gameId)
+  const candidates = Array.from(games.values()).filter(g => !sport || g.sport === sport)
+  return candidates.length > 0 ? pick(candidates) : undefined
+}
+
+/**
+ * Steam: sharp books move now, recreational books lag a tick behind
+ */
+function injectSteam(sport?: string, gameId?: string): MockGame | undefined {
+  const game = findGame(sport, gameId)
+  if (!game) return undefined
+
+  const shift = (random() < 0.5 ? -1 : 1) * (0.05 + random() * 0.04)
+  game.homeProb = clamp(game.homeProb + shift, 0.08, 0.92)
+
+  const now = Date.now()
+  for (const book of BOOKMAKERS) {
+    const state = game.books[book.key]
+    if (book.sharp) {
+      state.updatedAt = now
+    } else {
+      state.lag = -shift
+    }
+  }
+
+  console.log(`[MOCK ODDS] Steam on ${game.awayTeam} @ ${game.homeTeam}: ${shift > 0 ? 'home' : 'away'} ${(Math.abs(shift) * 100).toFixed(1)}%`)
+  return game
+}
+
+/**
+ * Planted arb: one book hangs a stale away price the market has left behind
+ */
+function plantArb(sport?: string, gameId?: string, durationMs = ARB_DURATION_MS): PlantedArb | undefined {
+  const game = findGame(sport, gameId)
+  if (!game) return undefined
+
+  const book = pick(BOOKMAKERS.filter(b => !b.sharp)).key
+  const arb = { gameId: game.id, book, until: Date.now() + durationMs }
+  arbs.push(arb)
+  game.books[book].updatedAt = Date.now()
+
+  console.log(`[MOCK ODDS] Arb planted: ${game.awayTeam} @ ${game.homeTeam} @ ${book} for ${durationMs / 1000}s`)
+  return arb
+}
+
+// ============================================
+// PRICING
+// ============================================
+
+function probToAmerican(prob: number): number {
+  const p = clamp(prob, 0.01, 0.99)
+  return p >= 0.5
+    ? -Math.round((p / (1 - p)) * 100)
+    : Math.round(((1 - p) / p) * 100)
+}
+
+function probToDecimal(prob: number): number {
+  return Math.round((1 / clamp(prob, 0.01, 0.99)) * 100) / 100
+}
+
+function price(prob: number, format: string): number {
+  return format === 'decimal' ? probToDecimal(prob) : probToAmerican(prob)
+}
+
+/**
+ * Two-way prices for a book: fair probability + bias, with ~4.5% vig
+ */
+function twoWay(prob: number, vig = 0.0225): [number, number] {
+  return [prob + vig, 1 - prob + vig]
+}
+
+function buildBookmaker(game: MockGame, book: typeof BOOKMAKERS[number], markets: string[], format: string) {
+  const state = game.books[book.key]
+  const config = SPORTS[game.sport]
+  const homeProb = clamp(game.homeProb + state.bias + state.lag, 0.05, 0.95)
+  const planted = arbs.some(a => a.gameId === game.id && a.book === book.key)
+  const lastUpdate = new Date(state.updatedAt).toISOString()
+  const result: any[] = []
+
+  for (const market of markets) {
+    if (market === 'h2h') {
+      let [home, away] = twoWay(homeProb)
+      // Planted arb: away priced well above the market, negative vig
+      if (planted) away = 1 - homeProb - 0.08
+      result.push({
+        key: 'h2h',
+        last_update: lastUpdate,
+        outcomes: [
+          { name: game.homeTeam, price: price(home, format) },
+          { name: game.awayTeam, price: price(away, format) }
+        ]
+      })
+    } else if (market === 'spreads') {
+      const line = Math.round((0.5 - homeProb) * config.spreadScale * 2) / 2 || -0.5
+      const [home, away] = twoWay(0.5 + (random() - 0.5) * 0.02)
+      result.push({
+        key: 'spreads',
+        last_update: lastUpdate,
+        outcomes: [
+          { name: game.homeTeam, price: price(home, format), point: line },
+          { name: game.awayTeam, price: price(away, format), point: -line }
+        ]
+      })
+    } else if (market === 'totals') {
+      const [over, under] = twoWay(0.5 + (random() - 0.5) * 0.02)
+      result.push({
+        key: 'totals',
+        last_update: lastUpdate,
+        outcomes: [
+          { name: 'Over', price: price(over, format), point: game.totalLine },
+          { name: 'Under', price: price(under, format), point: game.totalLine }
+        ]
+      })
+    } else if (config.propMarkets[market] !== undefined) {
+      const outcomes: any[] = []
+      for (const player of game.players) {
+        const line = config.propMarkets[market] + Math.round((random() - 0.5) * 2) / 2
+        const [over, under] = twoWay(0.5 + (random() - 0.5) * 0.06)
+        outcomes.push(
+          { name: 'Over', description: player, price: price(over, format), point: line },
+          { name: 'Under', description: player, price: price(under, format), point: line }
+        )
+      }
+      result.push({ key: market, last_update: lastUpdate, outcomes })
+    }
+  }
+
+  return {
+    key: book.key,
+    title: book.title,
+    last_update: lastUpdate,
+    markets: result
+  }
+}
+
+function buildEvent(game: MockGame) {
+  const config = SPORTS[game.sport]
+  return {
+    id: game.id,
+    sport_key: config.key,
+    sport_title: config.title,
+    commence_time: new Date(game.commenceTime).toISOString(),
+    home_team: game.homeTeam,
+    away_team: game.awayTeam
+  }
+}
+
+function buildGameOdds(game: MockGame, markets: string[], bookmakers: string[] | null, format: string) {
+  const books = BOOKMAKERS.filter(b => !bookmakers || bookmakers.includes(b.key))
+  return {
+    ...buildEvent(game),
+    bookmakers: books
+      .map(book => buildBookmaker(game, book, markets, format))
+      .filter(book => book.markets.length > 0)
+  }
+}
+
+// ============================================
+// HTTP
+// ============================================
+
+const app = express()
+app.use(express.json())
+
+function resolveSport(param: string): string | undefined {
+  return Object.keys(SPORTS).find(s => s === param || SPORTS[s].key === param)
+}
+
+function listParam(value: unknown): string[] {
+  return String(value || '').split(',').map(v => v.trim()).filter(Boolean)
+}
+
+/**
+ * Authenticate and charge quota like the real API
+ */
+function charge(req: express.Request, res: express.Response, cost: number): boolean {
+  if (!req.query.apiKey) {
+    res.status(401).json({ message: 'API key is missing' })
+    return false
+  }
+
+  if (cost > requestsRemaining) {
+    res.set({ 'x-requests-remaining': String(requestsRemaining), 'x-requests-used': String(requestsUsed), 'x-requests-last': '0' })
+    res.status(429).json({ message: 'Usage quota has been reached' })
+    return false
+  }
+
+  requestsUsed += cost
+  requestsRemaining -= cost
+  res.set({
+    'x-requests-remaining': String(requestsRemaining),
+    'x-requests-used': String(requestsUsed),
+    'x-requests-last': String(cost)
+  })
+  return true
+}
+
+app.get('/v4/sports', (req, res) => {
+  if (!charge(req, res, 0)) return
+  res.json(Object.values(SPORTS).map(s => ({
+    key: s.key,
+    group: s.group,
+    title: s.title,
+    description: s.title,
+    active: true,
+    has_outrights: false
+  })))
+})
+
+app.get('/v4/sports/:sport/odds', (req, res) => {
+  const sport = resolveSport(req.params.sport)
+  if (!sport) return res.status(404).json({ message: 'Unknown sport' })
+
+  const markets = listParam(req.query.markets || 'h2h')
+  const regions = Math.max(1, listParam(req.query.regions || 'us').length)
+  if (!charge(req, res, markets.length * regions)) return
+
+  const bookmakers = req.query.bookmakers ? listParam(req.query.bookmakers) : null
+  const format = String(req.query.oddsFormat || 'decimal')
+  const from = req.query.commenceTimeFrom ? Date.parse(String(req.query.commenceTimeFrom)) : -Infinity
+  const to = req.query.commenceTimeTo ? Date.parse(String(req.query.commenceTimeTo)) : Infinity
+
+  res.json(Array.from(games.values())
+    .filter(g => g.sport === sport && g.commenceTime >= from && g.commenceTime <= to)
+    .map(g => buildGameOdds(g, markets, bookmakers, format)))
+})
+
+app.get('/v4/sports/:sport/events', (req, res) => {
+  const sport = resolveSport(req.params.sport)
+  if (!sport) return res.status(404).json({ message: 'Unknown sport' })
+  if (!charge(req, res, 0)) return
+
+  res.json(Array.from(games.values()).filter(g => g.sport === sport).map(buildEvent))
+})
+
+app.get('/v4/sports/:sport/events/:eventId/odds', (req, res) => {
+  const sport = resolveSport(req.params.sport)
+  const game = games.get(req.params.eventId)
+  if (!sport || !game || game.sport !== sport) {
+    return res.status(404).json({ message: 'Event not found' })
+  }
+
+  const markets = listParam(req.query.markets || 'h2h')
+  const regions = Math.max(1, listParam(req.query.regions || 'us').length)
+  if (!charge(req, res, markets.length * regions)) return
+
+  const bookmakers = req.query.bookmakers ? listParam(req.query.bookmakers) : null
+  res.json(buildGameOdds(game, markets, bookmakers, String(req.query.oddsFormat || 'decimal')))
+})
+
+// Manual triggers
+app.post('/mock/steam', (req, res) => {
+  const game = injectSteam(req.body?.sport, req.body?.gameId)
+  if (!game) return res.status(404).json({ error: 'No matching game' })
+  res.json({ success: true, gameId: game.id, game: `${game.awayTeam} @ ${game.homeTeam}` })
+})
+
+app.post('/mock/arb', (req, res) => {
+  const arb = plantArb(req.body?.sport, req.body?.gameId, req.body?.durationMs)
+  if (!arb) return res.status(404).json({ error: 'No matching game' })
+  res.json({ success: true, ...arb })
+})
+
+app.post('/mock/quota', (req, res) => {
+  requestsRemaining = parseInt(req.body?.remaining ?? QUOTA)
+  res.json({ remaining: requestsRemaining, used: requestsUsed })
+})
+
+app.get('/mock/state', (req, res) => {
+  res.json({
+    quota: { remaining: requestsRemaining, used: requestsUsed },
+    arbs,
+    games: Array.from(games.values()).map(g => ({
+      id: g.id,
+      sport: g.sport,
+      game: `${g.awayTeam} @ ${g.homeTeam}`,
+      commenceTime: new Date(g.commenceTime).toISOString(),
+      homeProb: Math.round(g.homeProb * 1000) / 1000
+    }))
+  })
+})
+
+// ============================================
+// START
+// ============================================
+
+seedGames()
+setInterval(tick, TICK_MS)
+if (STEAM_EVERY_MS > 0) setInterval(() => injectSteam(), STEAM_EVERY_MS)
+if (ARB_EVERY_MS > 0) setInterval(() => plantArb(), ARB_EVERY_MS)
+
+app.listen(PORT, () => {
+  console.log(`
+╔═══════════════════════════════════════════════════════════╗
+║   Mock Odds API                                           ║
+╠═══════════════════════════════════════════════════════════╣
+║  URL:    http://localhost:${PORT}/v4
+║  Games:  ${games.size} across ${Object.keys(SPORTS).length} sports
+║  Quota:  ${QUOTA} credits
+║  Steam:  ${STEAM_EVERY_MS > 0 ? `every ${STEAM_EVERY_MS / 1000}s` : 'manual only'}
+║  Arbs:   ${ARB_EVERY_MS > 0 ? `every ${ARB_EVERY_MS / 1000}s for ${ARB_DURATION_MS / 1000}s` : 'manual only'}
+╚═══════════════════════════════════════════════════════════╝
+
+Point clients at it with:
+  ODDS_API_URL=http://localhost:${PORT}/v4 ODDS_API_KEY=mock
+`)
+})
@@ -25,7 +25,15 @@ import { db } from './db/index.js'
 import { initWebSocket, getClientCount, getArbSubscriberCount, getSignalSubscriberCount, getRegisteredNodeCount, broadcastArbitrage } from './lib/websocket.js'
 import { cache, getRedis } from './lib/redis.js'
 import { startIngestion, stopIngestion, getIngestionStats, forcePoll, onArbitrageFound } from './lib/odds-ingestion.js'
-import type { ArbitrageOpportunity } from './lib/arbitrage-engine.js'
+import { fetchMergedOdds, fetchMergedProps, ODDS_API_SPORT_KEYS as SPORT_KEYS } from './lib/odds-providers.js'
+import { getEvents } from './lib/event-registry.js'
+import { propMarketLabel, type ArbitrageOpportunity, type NormalizedOdds, type NormalizedProp } from './lib/arbitrage-engine.js'
+import { planStakes, type StakeLegInput } from './lib/stake-planner.js'
+import { sizeBets } from './lib/kelly.js'
+import { getSurvivalStats } from './lib/arb-lifecycle.js'
+import { convertPromo, type PromoInput } from './lib/promo-converter.js'
+import { calculateMarketHolds, findLowHoldMarkets, summarizeBookHolds, type MarketHold } from './lib/market-hold.js'
+import { calculateFairLines, calculateGameConsensus, findEVBets, getDefaultMethod, DEVIG_METHODS, EV_MIN_EDGE, type DevigMethod } from './lib/fair-odds.js'
 import {
   initSignalBus,
   onSignal,
@@ -48,6 +56,7 @@ import {
   getNodeStats,
   getTopNodes
 } from './lib/context-ledger.js'
+import { trackSteamSignal, trackArbSignal, logBet, getUserBets, getClvStats, getClosingLines } from './lib/clv-tracker.js'
 import adminRoutes, { requireAdmin, setDatabase as setAdminDatabase } from './lib/admin-routes.js'
 import referralRoutes, { setDatabase as setReferralDatabase, initReferralTables } from './lib/referral-routes.js'
 import { pool } from './db/index.js'
@@ -144,19 +153,11 @@ const io = initWebSocket(httpServer)
 const alertConfig = {
   telegram: { botToken: process.env.TELEGRAM_BOT_TOKEN || '', chatId: process.env.TELEGRAM_CHAT_ID || '' },
   discord: { webhookUrl: process.env.DISCORD_WEBHOOK_URL || '' },
-  settings: { arbitrageAlerts: true, steamMoveAlerts: true, minProfit: 0.5, minSteamChange: 15 }
+  settings: { arbitrageAlerts: true, middleAlerts: true, steamMoveAlerts: true, minProfit: 0.5, minMiddleEv: 1, minSteamChange: 15 }
 }
 
 // Constants
 const ODDS_API_KEY = process.env.ODDS_API_KEY
-const ODDS_API_BASE = 'https://api.the-odds-api.com/v4'
-const BOOKMAKERS = ['draftkings', 'fanduel', 'betmgm', 'caesars', 'pointsbet', 'bovada']
-const SPORT_KEYS: Record<string, string> = {
-  nfl: 'americanfootball_nfl',
-  nba: 'basketball_nba',
-  mlb: 'baseball_mlb',
-  nhl: 'icehockey_nhl'
-}
 
 // ============================================
 // ALERT FUNCTIONS
@@ -190,32 +191,55 @@ async function sendDiscordAlert(embed: any): Promise<boolean> {
 
 // Register arbitrage alert callback
 onArbitrageFound(async (arb: ArbitrageOpportunity) => {
-  if (!alertConfig.settings.arbitrageAlerts) return
-  if (arb.profit < alertConfig.settings.minProfit) return
+  const { middle } = arb
+  if (middle) {
+    // Middles aren't risk-free, so they're gated on expected value instead of profit
+    if (!alertConfig.settings.middleAlerts) return
+    if (middle.expectedValue < alertConfig.settings.minMiddleEv) return
+  } else {
+    if (!alertConfig.settings.arbitrageAlerts) return
+    if (arb.profit < alertConfig.settings.minProfit) return
+  }
+
+  const quoteAge = `${Math.round(arb.quoteAgeMs / 1000)}s`
+  const formatOdds = (odds: number) => `${odds > 0 ? '+' : ''}${odds}`
+  const staleNote = arb.staleBooks.length > 0 ? ` ⚠️ stale: ${arb.staleBooks.join(', ')}` : ''
+  const propName = arb.prop ? `${arb.prop.player} ${propMarketLabel(arb.prop.market)}` : null
+  const returnLine = middle
+    ? `*Middle:* ${middle.label} (${middle.hitProbability.toFixed(1)}% hit)
+*EV:* +${middle.expectedValue.toFixed(2)}% • worst ${middle.worstCase.toFixed(2)}% • best +${middle.bestCase.toFixed(2)}%`
+    : `*Profit:* +${arb.profit.toFixed(2)}%`
+  const returnFields = middle
+    ? [
+        { name: 'Middle', value: `${middle.label} (${middle.hitProbability.toFixed(1)}% hit)`, inline: true },
+        { name: 'EV', value: `+${middle.expectedValue.toFixed(2)}% (worst ${middle.worstCase.toFixed(2)}%)`, inline: true }
+      ]
+    : [{ name: 'Profit', value: `+${arb.profit.toFixed(2)}%`, inline: true }]
 
   // Send alerts in parallel
   const telegramMsg = `
-🎯 *ARBITRAGE FOUND*
-*Game:* ${arb.game}
-*Profit:* +${arb.profit.toFixed(2)}%
-*Type:* ${arb.type}
+🎯 *${middle ? 'MIDDLE' : 'ARBITRAGE'} FOUND*
+*Game:* ${arb.game}${propName ? `\n*Prop:* ${propName}` : ''}
+${returnLine}
+*Type:* ${middle ? `${middle.market} middle` : arb.type}
+*Confidence:* ${arb.quoteConfidence}% (oldest quote ${quoteAge})${staleNote}
 
 📊 *Bets:*
-• ${arb.book1.name}: ${arb.book1.bet} @ ${arb.book1.odds > 0 ? '+' : ''}${arb.book1.odds} (${arb.book1.stake.toFixed(1)}%)
-• ${arb.book2.name}: ${arb.book2.bet} @ ${arb.book2.odds > 0 ? '+' : ''}${arb.book2.odds} (${arb.book2.stake.toFixed(1)}%)
+${arb.legs.map(leg => `• ${leg.book}: ${leg.bet} @ ${formatOdds(leg.odds)} (${leg.stake.toFixed(1)}%)`).join('\n')}
 
 ⏰ Act fast!
 `
 
   const discordEmbed = {
-    title: '🎯 Arbitrage Opportunity!',
-    color: arb.profit >= 2 ? 0xff0000 : 0x00ff00,
+    title: middle ? '🎯 Middle Opportunity!' : '🎯 Arbitrage Opportunity!',
+    color: middle ? 0x3b82f6 : arb.profit >= 2 ? 0xff0000 : 0x00ff00,
     fields: [
       { name: 'Game', value: arb.game, inline: false },
-      { name: 'Type', value: arb.type, inline: true },
-      { name: 'Profit', value: `+${arb.profit.toFixed(2)}%`, inline: true },
-      { name: arb.book1.name, value: `${arb.book1.bet}\n${arb.book1.odds > 0 ? '+' : ''}${arb.book1.odds}`, inline: true },
-      { name: arb.book2.name, value: `${arb.book2.bet}\n${arb.book2.odds > 0 ? '+' : ''}${arb.book2.odds}`, inline: true }
+      ...(propName ? [{ name: 'Prop', value: propName, inline: false }] : []),
+      { name: 'Type', value: middle ? `${middle.market} middle` : arb.type, inline: true },
+      ...returnFields,
+      { name: 'Confidence', value: `${arb.quoteConfidence}% (oldest quote ${quoteAge})${staleNote}`, inline: true },
+      ...arb.legs.map(leg => ({ name: leg.book, value: `${leg.bet}\n${formatOdds(leg.odds)}`, inline: true }))
     ],
     footer: { text: 'SportIntel Pro' },
     timestamp: new Date().toISOString()
@@ -233,6 +257,8 @@ onArbitrageFound(async (arb: ArbitrageOpportunity) => {
 
 app.get('/api/health', async (req, res) => {
   const stats = getIngestionStats()
+  const configuredProviders = stats.providers.filter(p => p.configured)
+  const openCircuits = configuredProviders.filter(p => p.circuit.state !== 'closed')
   let networkStats = { activeNodes: 0, signalsToday: 0, avgReputation: 0, coverage: { sports: [], books: [] } }
   try {
     networkStats = await getNetworkStats()
@@ -241,8 +267,17 @@ app.get('/api/health', async (req, res) => {
   }
 
   res.json({
-    status: 'ok',
+    // Degraded while any provider is backing off (its last good odds are served stale)
+    status: openCircuits.length === 0 ? 'ok' : 'degraded',
     timestamp: new Date().toISOString(),
+    providers: configuredProviders.map(p => ({
+      name: p.name,
+      state: p.circuit.state,
+      consecutiveFailures: p.circuit.consecutiveFailures,
+      retryAt: p.circuit.retryAt ? new Date(p.circuit.retryAt).toISOString() : null,
+      lastError: p.circuit.lastError,
+      lastSuccess: p.circuit.lastSuccess ? new Date(p.circuit.lastSuccess).toISOString() : null
+    })),
     websocket: {
       clients: getClientCount(),
       arbSubscribers: getArbSubscriberCount(),
@@ -272,7 +307,8 @@ app.get('/api/status', (req, res) => {
       pro: { arbDelay: 0, maxSports: 4, signalPublish: true },
       premium: { arbDelay: 0, maxSports: -1, signalPublish: true }
     },
-    signalTypes: ['steam', 'arb', 'dead', 'ev', 'news', 'pattern']
+    signalTypes: ['steam', 'arb', 'dead', 'ev', 'news', 'pattern'],
+    oddsBudget: getIngestionStats().budget
   })
 })
 
@@ -308,6 +344,54 @@ app.post('/api/arbitrage/scan', authenticateToken, async (req: AuthRequest, res)
   }
 })
 
+// POST /api/arbitrage/stake-plan - Dollar stakes for an active arb (by id) or explicit legs
+app.post('/api/arbitrage/stake-plan', async (req, res) => {
+  try {
+    const { arbId, bankroll, books, rounding } = req.body
+    let legs: StakeLegInput[] = req.body.legs
+    let middle = !!req.body.middle
+
+    if (arbId) {
+      const arbs: ArbitrageOpportunity[] = await cache.getArbitrages()
+      const arb = arbs.find(a => a.id === arbId)
+      if (!arb) return res.status(404).json({ error: 'Arbitrage not found or expired' })
+
+      legs = arb.legs.map(leg => ({
+        book: leg.book,
+        bet: leg.bet,
+        odds: leg.odds,
+        side: leg.side,
+        commission: leg.commission,
+        maxStake: leg.maxStake
+      }))
+      middle = arb.type === 'middle'
+    }
+
+    if (!legs || !bankroll) {
+      return res.status(400).json({ error: 'bankroll and either arbId or legs required' })
+    }
+
+    const plan = planStakes({ legs, bankroll: Number(bankroll), books, rounding: Number(rounding) || undefined, middle })
+    res.json({ arbId: arbId || null, ...plan })
+  } catch (err: any) {
+    res.status(400).json({ error: err.message })
+  }
+})
+
+// GET /api/arbitrage/history/survival - How long arbs lasted, per sport and book pair
+app.get('/api/arbitrage/history/survival', async (req, res) => {
+  try {
+    const sport = (req.query.sport as string)?.toLowerCase()
+    const books = req.query.books ? (req.query.books as string).split(',').filter(Boolean) : undefined
+    const days = Math.min(parseInt(req.query.days as string) || 30, 365)
+
+    const stats = await getSurvivalStats({ sport, books, days })
+    res.json({ stats, days })
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to fetch arbitrage survival stats' })
+  }
+})
+
 // GET /api/arbitrage/:sport - Legacy endpoint (still works but uses cache)
 app.get('/api/arbitrage/:sport', async (req, res) => {
   try {
@@ -316,8 +400,9 @@ app.get('/api/arbitrage/:sport', async (req, res) => {
 
     // Get from cache
     const allArbs = await cache.getArbitrages()
+    // Middles carry their worst case as profit; rank them on EV instead
     const sportArbs = allArbs.filter(a =>
-      a.sport === sport && a.profit >= minProfit
+      a.sport === sport && (a.middle ? a.middle.expectedValue : a.profit) >= minProfit
     )
 
     // Get actual game count from odds cache
@@ -339,6 +424,11 @@ app.get('/api/arbitrage/:sport', async (req, res) => {
 // ODDS ROUTES (with caching)
 // ============================================
 
+// Each game with its sharp-weighted consensus line (the "true price")
+function withConsensus(games: NormalizedOdds[]) {
+  return games.map(game => ({ ...game, consensus: calculateGameConsensus(game) }))
+}
+
 app.get('/api/odds/:sport', async (req, res) => {
   try {
     const sport = req.params.sport.toLowerCase()
@@ -352,63 +442,32 @@ app.get('/api/odds/:sport', async (req, res) => {
     const cached = await cache.getOdds(sport)
     if (cached) {
       return res.json({
-        games: cached,
+        games: withConsensus(cached),
         cached: true,
+        stale: cached.some((g: any) => g.stale),
         timestamp: Date.now()
       })
     }
 
-    // Fallback to direct API call
-    const response = await axios.get(`${ODDS_API_BASE}/sports/${sportKey}/odds`, {
-      params: {
-        apiKey: ODDS_API_KEY,
-        regions: 'us',
-        markets: 'h2h,spreads',
-        oddsFormat: 'american',
-        bookmakers: BOOKMAKERS.slice(0, 3).join(',')
-      }
-    })
-
-    const games = response.data.map((game: any) => {
-      const oddsData: Record<string, any> = {}
-
-      for (const bookmaker of game.bookmakers || []) {
-        const h2h = bookmaker.markets?.find((m: any) => m.key === 'h2h')
-        const spreads = bookmaker.markets?.find((m: any) => m.key === 'spreads')
-
-        if (h2h) {
-          const home = h2h.outcomes.find((o: any) => o.name === game.home_team)
-          const away = h2h.outcomes.find((o: any) => o.name === game.away_team)
-          const spreadHome = spreads?.outcomes?.find((o: any) => o.name === game.home_team)
-
-          oddsData[bookmaker.key] = {
-            home: home?.price || 0,
-            away: away?.price || 0,
-            spread: spreadHome?.point || null
-          }
-        }
-      }
-
-      return {
-        id: game.id,
-        game: `${game.away_team} @ ${game.home_team}`,
-        homeTeam: game.home_team,
-        awayTeam: game.away_team,
-        startTime: new Date(game.commence_time).toLocaleString(),
-        odds: oddsData
-      }
-    })
+    // Fallback to the provider registry
+    const games = await fetchMergedOdds(sport)
 
     // Cache the response
     await cache.setOdds(sport, games, 10)
 
-    res.json({ games, cached: false })
+    res.json({ games: withConsensus(games), cached: false, stale: games.some(g => g.stale) })
   } catch (err: any) {
     console.error('Odds error:', err.message)
     res.status(500).json({ error: 'Failed to fetch odds' })
   }
 })
 
+// GET /api/events/:sport - Canonical events and the provider ids mapped to them
+app.get('/api/events/:sport', (req, res) => {
+  const events = getEvents(req.params.sport)
+  res.json({ events, count: events.length })
+})
+
 // ============================================
 // STEAM MOVES / LINE MOVEMENT ROUTES
 // ============================================
@@ -443,6 +502,168 @@ app.get('/api/steam-moves/:sport', async (req, res) => {
   }
 })
 
+// ============================================
+// PROMO CONVERSION ROUTES
+// ============================================
+
+// POST /api/promos/convert - Best hedges for a bet credit, profit boost or no-sweat bet
+app.post('/api/promos/convert', async (req, res) => {
+  try {
+    const { type, amount, book, boost, refundConversion, minOdds, limit } = req.body
+    const sports = req.body.sport ? [String(req.body.sport).toLowerCase()] : Object.keys(SPORT_KEYS)
+
+    if (sports.some(sport => !SPORT_KEYS[sport])) {
+      return res.status(400).json({ error: 'Invalid sport. Use: nfl, nba, mlb, nhl' })
+    }
+
+    const games: NormalizedOdds[] = []
+    for (const sport of sports) {
+      games.push(...((await cache.getOdds(sport)) || (await fetchMergedOdds(sport))))
+    }
+
+    const input: PromoInput = {
+      type,
+      amount: Number(amount),
+      book: book || undefined,
+      boost: boost !== undefined ? Number(boost) : undefined,
+      refundConversion: refundConversion !== undefined ? Number(refundConversion) : undefined,
+      minOdds: minOdds ? Number(minOdds) : undefined,
+      limit: Math.min(parseInt(limit) || 10, 50)
+    }
+
+    let options
+    try {
+      options = convertPromo(games, input)
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message })
+    }
+
+    res.json({ options, scannedGames: games.length })
+  } catch (err: any) {
+    console.error('Promo conversion error:', err.message)
+    res.status(500).json({ error: 'Failed to convert promo' })
+  }
+})
+
+// ============================================
+// MARKET HOLD ROUTES
+// ============================================
+
+// GET /api/holds/:sport - Lowest-hold markets across books, plus each book's average hold
+app.get('/api/holds/:sport', async (req, res) => {
+  try {
+    const sport = req.params.sport.toLowerCase()
+    if (!SPORT_KEYS[sport]) {
+      return res.status(400).json({ error: 'Invalid sport. Use: nfl, nba, mlb, nhl' })
+    }
+
+    const market = req.query.market as MarketHold['market'] | undefined
+    if (market && !['moneyline', 'spread', 'total'].includes(market)) {
+      return res.status(400).json({ error: 'market must be moneyline, spread or total' })
+    }
+    const maxHold = req.query.maxHold !== undefined ? parseFloat(req.query.maxHold as string) : undefined
+    const minBooks = parseInt(req.query.minBooks as string) || 2
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+
+    const games: NormalizedOdds[] = (await cache.getOdds(sport)) || (await fetchMergedOdds(sport))
+    const markets = findLowHoldMarkets(games, { market, maxHold, minBooks, limit })
+
+    // Book averages cover every market scanned, not just the lowest-hold ones
+    const books = summarizeBookHolds(
+      games.flatMap(game => calculateMarketHolds(game)).filter(hold => !market || hold.market === market)
+    )
+
+    res.json({ markets, books, scannedGames: games.length })
+  } catch (err: any) {
+    console.error('Market hold error:', err.message)
+    res.status(500).json({ error: 'Failed to calculate market holds' })
+  }
+})
+
+// ============================================
+// FAIR ODDS & EV ROUTES
+// ============================================
+
+// GET /api/fair-odds/:sport - Consensus no-vig line on every market
+app.get('/api/fair-odds/:sport', async (req, res) => {
+  try {
+    const sport = req.params.sport.toLowerCase()
+    if (!SPORT_KEYS[sport]) {
+      return res.status(400).json({ error: 'Invalid sport. Use: nfl, nba, mlb, nhl' })
+    }
+
+    const method = (req.query.method as DevigMethod) || getDefaultMethod()
+    if (!DEVIG_METHODS.includes(method)) {
+      return res.status(400).json({ error: `method must be one of: ${DEVIG_METHODS.join(', ')}` })
+    }
+    const minBooks = parseInt(req.query.minBooks as string) || 1
+
+    const games: NormalizedOdds[] = (await cache.getOdds(sport)) || (await fetchMergedOdds(sport))
+    const lines = games.flatMap(game => calculateFairLines(game, { method, minBooks }))
+
+    res.json({ method, lines, scannedGames: games.length })
+  } catch (err: any) {
+    console.error('Fair odds error:', err.message)
+    res.status(500).json({ error: 'Failed to calculate fair odds' })
+  }
+})
+
+// GET /api/ev/:sport - Prices beating the other books' no-vig consensus, biggest edge first
+app.get('/api/ev/:sport', async (req, res) => {
+  try {
+    const sport = req.params.sport.toLowerCase()
+    if (!SPORT_KEYS[sport]) {
+      return res.status(400).json({ error: 'Invalid sport. Use: nfl, nba, mlb, nhl' })
+    }
+
+    const method = (req.query.method as DevigMethod) || getDefaultMethod()
+    if (!DEVIG_METHODS.includes(method)) {
+      return res.status(400).json({ error: `method must be one of: ${DEVIG_METHODS.join(', ')}` })
+    }
+    const minEdge = parseFloat(req.query.minEdge as string)
+    if (req.query.minEdge !== undefined && isNaN(minEdge)) {
+      return res.status(400).json({ error: 'minEdge must be a number' })
+    }
+    const minBooks = parseInt(req.query.minBooks as string) || undefined
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+
+    const games: NormalizedOdds[] = (await cache.getOdds(sport)) || (await fetchMergedOdds(sport))
+    const bets = findEVBets(games, { method, minEdge: isNaN(minEdge) ? EV_MIN_EDGE : minEdge, minBooks, limit })
+
+    res.json({ method, bets, scannedGames: games.length })
+  } catch (err: any) {
+    console.error('EV scan error:', err.message)
+    res.status(500).json({ error: 'Failed to find EV bets' })
+  }
+})
+
+// POST /api/sizing/kelly - Full, fractional and capped Kelly stakes, sized jointly for bets on the same game
+app.post('/api/sizing/kelly', (req, res) => {
+  try {
+    const { bankroll, bets, fraction, maxStakePercent, maxTotalPercent, correlation, scenarios } = req.body
+
+    if (!bankroll || !bets) {
+      return res.status(400).json({ error: 'bankroll and bets required' })
+    }
+    if (correlation && !['independent', 'exclusive'].includes(correlation)) {
+      return res.status(400).json({ error: 'correlation must be independent or exclusive' })
+    }
+
+    const result = sizeBets({
+      bankroll: Number(bankroll),
+      bets,
+      fraction: fraction !== undefined ? Number(fraction) : undefined,
+      maxStakePercent: maxStakePercent !== undefined ? Number(maxStakePercent) : undefined,
+      maxTotalPercent: maxTotalPercent !== undefined ? Number(maxTotalPercent) : undefined,
+      correlation,
+      scenarios
+    })
+    res.json(result)
+  } catch (err: any) {
+    res.status(400).json({ error: err.message })
+  }
+})
+
 // ============================================
 // PLAYER PROPS ROUTES
 // ============================================
@@ -458,88 +679,39 @@ app.get('/api/props/:sport', async (req, res) => {
       return res.status(400).json({ error: 'Invalid sport. Use: nfl, nba, mlb, nhl' })
     }
 
-    // Fetch player props from The Odds API
-    const marketsParam = market || 'player_points,player_rebounds,player_assists,player_threes,player_blocks,player_steals,player_turnovers'
-
-    const response = await axios.get(`${ODDS_API_BASE}/sports/${sportKey}/events`, {
-      params: {
-        apiKey: ODDS_API_KEY,
-        regions: 'us',
-        oddsFormat: 'american'
-      }
-    })
+    // Props the ingestion worker keeps cached, else the provider registry
+    // (budgeted and behind each provider's circuit breaker)
+    let props: NormalizedProp[] = await cache.getProps(sport) || []
+    if (props.length === 0) {
+      props = await fetchMergedProps(sport)
+      await cache.setProps(sport, props)
+    }
 
-    // For each event, get player props
-    const events = response.data.slice(0, 5) // Limit to 5 games to save API calls
+    const markets = market ? market.split(',') : null
     const allProps: any[] = []
     const marketsFound = new Set<string>()
 
-    for (const event of events) {
-      try {
-        const propsResponse = await axios.get(`${ODDS_API_BASE}/sports/${sportKey}/events/${event.id}/odds`, {
-          params: {
-            apiKey: ODDS_API_KEY,
-            regions: 'us',
-            markets: marketsParam,
-            oddsFormat: 'american'
-          }
-        })
+    for (const prop of props) {
+      if (markets && !markets.includes(prop.market)) continue
+      marketsFound.add(prop.market)
 
-        const propsData = propsResponse.data
-        if (!propsData.bookmakers) continue
-
-        // Process each bookmaker's props
-        const propsByPlayer: Record<string, any> = {}
-
-        for (const bookmaker of propsData.bookmakers) {
-          for (const marketData of bookmaker.markets || []) {
-            marketsFound.add(marketData.key)
-
-            for (const outcome of marketData.outcomes || []) {
-              const playerKey = `${outcome.description}|${marketData.key}`
-
-              if (!propsByPlayer[playerKey]) {
-                propsByPlayer[playerKey] = {
-                  player: outcome.description,
-                  game: `${event.away_team} @ ${event.home_team}`,
-                  market: marketData.key,
-                  line: outcome.point || 0,
-                  books: [],
-                  bestOver: { book: '', odds: -Infinity },
-                  bestUnder: { book: '', odds: -Infinity }
-                }
-              }
-
-              const prop = propsByPlayer[playerKey]
-              const isOver = outcome.name === 'Over'
-              const odds = outcome.price
-
-              // Add book data
-              let bookEntry = prop.books.find((b: any) => b.name === bookmaker.key)
-              if (!bookEntry) {
-                bookEntry = { name: bookmaker.key, over: 0, under: 0 }
-                prop.books.push(bookEntry)
-              }
-
-              if (isOver) {
-                bookEntry.over = odds
-                if (odds > prop.bestOver.odds) {
-                  prop.bestOver = { book: bookmaker.key, odds }
-                }
-              } else {
-                bookEntry.under = odds
-                if (odds > prop.bestUnder.odds) {
-                  prop.bestUnder = { book: bookmaker.key, odds }
-                }
-              }
-            }
-          }
-        }
+      // One entry per line the books are dealing
+      for (const line of new Set(prop.books.map(book => book.line))) {
+        const books = prop.books.filter(book => book.line === line)
+        const best = (side: 'overOdds' | 'underOdds') => books.reduce(
+          (top, book) => (book[side] && book[side]! > top.odds ? { book: book.bookmaker, odds: book[side]! } : top),
+          { book: '', odds: -Infinity }
+        )
 
-        allProps.push(...Object.values(propsByPlayer))
-      } catch (err) {
-        // Skip events that fail
-        continue
+        allProps.push({
+          player: prop.player,
+          game: prop.game,
+          market: prop.market,
+          line,
+          books: books.map(book => ({ name: book.bookmaker, over: book.overOdds || 0, under: book.underOdds || 0 })),
+          bestOver: best('overOdds'),
+          bestUnder: best('underOdds')
+        })
       }
     }
 
@@ -584,10 +756,12 @@ app.post('/api/alerts/discord', (req, res) => {
 })
 
 app.post('/api/alerts/settings', (req, res) => {
-  const { arbitrageAlerts, steamMoveAlerts, minProfit, minSteamChange } = req.body
+  const { arbitrageAlerts, middleAlerts, steamMoveAlerts, minProfit, minMiddleEv, minSteamChange } = req.body
   if (arbitrageAlerts !== undefined) alertConfig.settings.arbitrageAlerts = arbitrageAlerts
+  if (middleAlerts !== undefined) alertConfig.settings.middleAlerts = middleAlerts
   if (steamMoveAlerts !== undefined) alertConfig.settings.steamMoveAlerts = steamMoveAlerts
   if (minProfit !== undefined) alertConfig.settings.minProfit = minProfit
+  if (minMiddleEv !== undefined) alertConfig.settings.minMiddleEv = minMiddleEv
   if (minSteamChange !== undefined) alertConfig.settings.minSteamChange = minSteamChange
   res.json({ success: true, settings: alertConfig.settings })
 })
@@ -1097,6 +1271,76 @@ app.get('/api/network/node/:nodeId', async (req, res) => {
   }
 })
 
+// ============================================
+// CLOSING LINE VALUE
+// ============================================
+
+// POST /api/bets - Log a bet to be graded on closing line value
+app.post('/api/bets', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { gameId, sport, bet, book, odds, stake } = req.body
+
+    if (!gameId || !sport || !bet || !book || odds === undefined) {
+      return res.status(400).json({ error: 'gameId, sport, bet, book, odds required' })
+    }
+    if (!SPORT_KEYS[sport]) {
+      return res.status(400).json({ error: 'Invalid sport. Use: nfl, nba, mlb, nhl' })
+    }
+    const price = Number(odds)
+    if (!Number.isFinite(price) || Math.abs(price) < 100) {
+      return res.status(400).json({ error: 'odds must be American (e.g. -110, +150)' })
+    }
+    const amount = stake !== undefined && stake !== null ? Number(stake) : undefined
+    if (amount !== undefined && !(Number.isFinite(amount) && amount > 0)) {
+      return res.status(400).json({ error: 'stake must be a positive number' })
+    }
+
+    const id = await logBet(req.user!.id, { gameId, sport, bet, book, odds: price, stake: amount })
+    if (id === null) {
+      return res.status(500).json({ error: 'Failed to log bet' })
+    }
+
+    res.status(201).json({ id })
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to log bet' })
+  }
+})
+
+// GET /api/bets - Your logged bets with their closing line value
+app.get('/api/bets', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+    const bets = await getUserBets(req.user!.id, limit)
+    res.json({ bets })
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to get bets' })
+  }
+})
+
+// GET /api/clv/me - Closing line value of your logged bets
+app.get('/api/clv/me', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || 30
+    const clv = await getClvStats({ userId: req.user!.id, days })
+    res.json({ days, ...clv })
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to get CLV' })
+  }
+})
+
+// GET /api/clv/closing/:gameId - A game's closing line, per bet and book
+app.get('/api/clv/closing/:gameId', async (req, res) => {
+  try {
+    const lines = await getClosingLines(req.params.gameId)
+    if (lines.length === 0) {
+      return res.status(404).json({ error: 'No closing line for this game' })
+    }
+    res.json({ gameId: req.params.gameId, lines })
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to get closing line' })
+  }
+})
+
 // ============================================
 // SIGNAL ROUTES
 // ============================================
@@ -1130,7 +1374,7 @@ app.post('/api/signals/publish', async (req, res) => {
 // POST /api/signals/steam - Publish a steam move signal (convenience endpoint)
 app.post('/api/signals/steam', async (req, res) => {
   try {
-    const { nodeId, gameId, sport, books, oldLine, newLine } = req.body
+    const { nodeId, gameId, sport, books, oldLine, newLine, bet } = req.body
 
     if (!nodeId || !gameId || !sport || !books || oldLine === undefined || newLine === undefined) {
       return res.status(400).json({ error: 'nodeId, gameId, sport, books, oldLine, newLine required' })
@@ -1153,9 +1397,12 @@ app.post('/api/signals/steam', async (req, res) => {
     // Check if this constitutes a steam move
     const steamCheck = await detectSteamMove(gameId)
     if (steamCheck?.isSteam) {
-      console.log(`[STEAM] Detected multi-book steam: ${steamCheck.books.join(', ')}`)
+      console.log(`[STEAM] Detected multi-book steam: ${steamCheck.books.join(', ')} (weight ${steamCheck.sharpWeight})`)
     }
 
+    // Graded on closing line value once the game starts
+    await trackSteamSignal(signal, (await cache.getOdds(sport)) || [], bet)
+
     io.to('signals').emit('signal:new', signal)
 
     res.json({ success: true, signal, steamDetected: steamCheck?.isSteam || false })
@@ -1168,7 +1415,7 @@ app.post('/api/signals/steam', async (req, res) => {
 // POST /api/signals/arb - Publish an arbitrage signal
 app.post('/api/signals/arb', async (req, res) => {
   try {
-    const { nodeId, gameId, sport, book1, book2, profit } = req.body
+    const { nodeId, gameId, sport, book1, book2, profit, arbId } = req.body
 
     if (!nodeId || !gameId || !sport || !book1 || !book2 || !profit) {
       return res.status(400).json({ error: 'nodeId, gameId, sport, book1, book2, profit required' })
@@ -1176,6 +1423,10 @@ app.post('/api/signals/arb', async (req, res) => {
 
     const signal = await publishArbSignal(nodeId, gameId, sport, book1, book2, profit)
 
+    // With the arb's id its legs are graded on closing line value
+    const arb = arbId ? (await cache.getArbitrages()).find((a: ArbitrageOpportunity) => a.id === arbId) : undefined
+    if (arb) await trackArbSignal(signal, arb)
+
     io.to('signals').emit('signal:new', signal)
 
     res.json({ success: true, signal })
@@ -0,0 +1,238 @@
+/**
+ * Pricing Math Check
+ *
+ * Worked examples for the money paths, so a regression fails loudly:
+ * - N-outcome arbitrage solver
+ * - Commission and exchange lay legs
+ * - Middle pricing, including pushes on whole-number lines
+ * - No-vig fair probabilities and Kelly sizing
+ *
+ * Run with: npm run test:math
+ */
+
+import {
+  solveArbitrage,
+  netDecimal,
+  layToBackDecimal,
+  setCommission,
+  detectMoneylineArbitrage,
+  detectSpreadMiddles,
+  detectTotalsMiddles,
+  type NormalizedOdds,
+  type BookOdds,
+  type ArbLeg
+} from './lib/arbitrage-engine.js'
+import { outcomeProbabilities } from './lib/outcome-distribution.js'
+import { devig } from './lib/fair-odds.js'
+import { kellyFraction } from './lib/kelly.js'
+
+const results: { test: string; status: 'pass' | 'fail'; message: string }[] = []
+
+function log(test: string, status: 'pass' | 'fail', message: string) {
+  const icon = status === 'pass' ? '✅' : '❌'
+  console.log(`${icon} ${test}: ${message}`)
+  results.push({ test, status, message })
+}
+
+// Reported figures are rounded to 2dp, so that is the default tolerance
+function check(test: string, actual: number | undefined, expected: number, tolerance = 0.01) {
+  if (actual !== undefined && Math.abs(actual - expected) <= tolerance) {
+    log(test, 'pass', `${actual}`)
+  } else {
+    log(test, 'fail', `expected ${expected}, got ${actual}`)
+  }
+}
+
+function expect(test: string, condition: boolean, message: string) {
+  log(test, condition ? 'pass' : 'fail', message)
+}
+
+const NOW = Date.now()
+
+function game(books: Partial<BookOdds>[], sport = 'nfl'): NormalizedOdds {
+  return {
+    gameId: 'test-game',
+    game: 'Away @ Home',
+    homeTeam: 'Home',
+    awayTeam: 'Away',
+    sport,
+    startTime: new Date(NOW + 3600_000).toISOString(),
+    books: books.map(book => ({ bookmaker: 'book', homeOdds: 0, awayOdds: 0, timestamp: NOW, ...book }))
+  }
+}
+
+/**
+ * Net result (% of total stake) of placing the legs as reported, when the
+ * legs `covers` picks win. Back legs win their stake at the net price; lay
+ * legs lose their liability when the laid selection wins, and win the
+ * backer's stake less commission when it loses.
+ */
+function settle(legs: ArbLeg[], covers: (leg: ArbLeg) => boolean): number {
+  return legs.reduce((total, leg) => {
+    const commission = leg.commission ?? 0
+    const won = covers(leg)
+    if (leg.side === 'lay') return total + (won ? leg.layStake! * (1 - commission) : -leg.stake)
+    return total + (won ? leg.stake * (leg.decimalOdds - 1) : -leg.stake)
+  }, 0)
+}
+
+function testSolver() {
+  // Two-way: 2.10 both sides -> implied 47.62% each
+  const even = solveArbitrage([2.1, 2.1])
+  expect('Solver two-way', even.isArbitrage, 'detected')
+  check('Solver two-way profit', even.profit, 5)
+  check('Solver two-way stakes', even.stakes[0], 50)
+  check('Solver two-way implied', even.totalImplied, 95.24)
+
+  // Three-way: 1/3.2 + 1/3.6 + 1/4.0 = 84.03%
+  const threeWay = solveArbitrage([3.2, 3.6, 4.0])
+  check('Solver three-way profit', threeWay.profit, 19.01)
+  check('Solver three-way stakes', threeWay.stakes.reduce((a, b) => a + b, 0), 100, 0.02)
+  check('Solver three-way draw stake', threeWay.stakes[1], 33.06)
+
+  // Every outcome pays the same: stake% * decimal = 100 + profit
+  const payouts = threeWay.stakes.map((stake, i) => stake * [3.2, 3.6, 4.0][i])
+  expect('Solver three-way equal payout', payouts.every(p => Math.abs(p - 119.01) < 0.1), payouts.map(p => p.toFixed(2)).join(' / '))
+
+  // -110 both sides is the book's margin, not an arb
+  const vig = solveArbitrage([1.9091, 1.9091])
+  expect('Solver no arb', !vig.isArbitrage && vig.profit === 0 && vig.stakes.every(s => s === 0), `implied ${vig.totalImplied}%`)
+  check('Solver no arb margin', vig.margin, -4.76)
+}
+
+function testCommissionAndLay() {
+  // +110 with 2% off the winnings: 1 + 1.10 * 0.98
+  check('Commission net decimal', netDecimal(110, 0.02), 2.078, 0.0001)
+  check('Commission on favourite', netDecimal(-150, 0.05), 1.6333, 0.0001)
+
+  // Laying +120 (2.20) risks 1.20 to win 0.98: a back at 1 + 0.98 / 1.2
+  check('Lay back-equivalent', layToBackDecimal(120, 0.02), 1.8167, 0.0001)
+  check('Lay without commission', layToBackDecimal(-200, 0), 3, 0.0001)
+
+  // Back Home +110 at a sportsbook, lay Home +105 on a 2% exchange
+  setCommission('test_exchange', 0.02)
+  const arbs = detectMoneylineArbitrage(game([
+    { bookmaker: 'test_book', homeOdds: 110, awayOdds: -130 },
+    { bookmaker: 'test_exchange', homeOdds: 100, awayOdds: -125, lay: { homeOdds: 105 } }
+  ]), 0, NOW)
+
+  const arb = arbs[0]
+  expect('Back/lay arb', arbs.length === 1, `${arbs.length} found`)
+  if (!arb) return
+
+  const lay = arb.legs.find(leg => leg.side === 'lay')
+  const back = arb.legs.find(leg => leg.side !== 'lay')
+  expect('Back/lay legs', back?.book === 'test_book' && lay?.book === 'test_exchange', arb.legs.map(l => `${l.book} ${l.bet}`).join(' + '))
+  check('Back/lay lay decimal', lay?.decimalOdds, 1 + 0.98 / 1.05, 0.0001)
+  expect('Back/lay commission', lay?.commission === 0.02 && back?.commission === undefined, `lay ${lay?.commission}, back ${back?.commission}`)
+
+  // 1/2.10 + 1/1.9333 = 99.34% -> 0.66% either way
+  check('Back/lay profit', arb.profit, 0.66)
+  check('Back/lay backer stake', lay?.layStake, lay ? lay.stake / 1.05 : NaN)
+
+  // Settle the bets as placed: Home wins, then Home loses
+  const homeWins = settle(arb.legs, leg => leg.side !== 'lay')
+  const homeLoses = settle(arb.legs, leg => leg.side === 'lay')
+  check('Back/lay settles Home win', homeWins, arb.profit, 0.05)
+  check('Back/lay settles Home loss', homeLoses, arb.profit, 0.05)
+}
+
+function testMiddles() {
+  // Over 45 / Under 47 at evens: 45 and 47 push one side, 46 wins both
+  const totals = detectTotalsMiddles(game([
+    { bookmaker: 'book_a', totalLine: 45, overOdds: 100, underOdds: -120 },
+    { bookmaker: 'book_b', totalLine: 47, overOdds: -120, underOdds: 100 }
+  ]), NOW)
+
+  const total = totals[0]?.middle
+  expect('Totals middle', totals.length === 1, `${totals.length} found`)
+  if (total) {
+    expect('Totals window includes pushes', total.window.from === 45 && total.window.to === 47, `${total.window.from}-${total.window.to}`)
+    check('Totals worst case', total.worstCase, 0)
+    check('Totals best case', total.bestCase, 100)
+
+    // Each push returns its stake: +50% on 45 and 47, +100% on 46
+    const p = outcomeProbabilities('nfl', 'total', 46)
+    const ev = 50 * (p.get(45) ?? 0) + 100 * (p.get(46) ?? 0) + 50 * (p.get(47) ?? 0)
+    check('Totals EV with pushes', total.expectedValue, ev)
+    check('Totals hit probability', total.hitProbability, ((p.get(45) ?? 0) + (p.get(46) ?? 0) + (p.get(47) ?? 0)) * 100)
+  }
+
+  // Half-point lines never push: Over 45.5 / Under 46.5 only hits on 46
+  const halves = detectTotalsMiddles(game([
+    { bookmaker: 'book_a', totalLine: 45.5, overOdds: 100, underOdds: -120 },
+    { bookmaker: 'book_b', totalLine: 46.5, overOdds: -120, underOdds: 100 }
+  ]), NOW)
+  const half = halves[0]?.middle
+  expect('Half-point window', half?.window.from === 46 && half?.window.to === 46, half ? `${half.window.from}-${half.window.to}` : 'none')
+  if (half) {
+    const p = outcomeProbabilities('nfl', 'total', 46)
+    check('Half-point EV', half.expectedValue, 100 * (p.get(46) ?? 0))
+  }
+
+  // Home -3 / Away +7: home margin 3 and 7 push, 4-6 wins both
+  const spreads = detectSpreadMiddles(game([
+    { bookmaker: 'book_a', homeSpread: -3, awaySpread: 3, spreadHomeOdds: 100, spreadAwayOdds: -120 },
+    { bookmaker: 'book_b', homeSpread: -7, awaySpread: 7, spreadHomeOdds: -120, spreadAwayOdds: 100 }
+  ]), NOW)
+  const spread = spreads[0]?.middle
+  expect('Spread middle', spreads.length === 1, `${spreads.length} found`)
+  if (spread) {
+    expect('Spread window', spread.window.from === 3 && spread.window.to === 7, spread.label)
+    const p = outcomeProbabilities('nfl', 'margin', 5)
+    const ev = 50 * (p.get(3) ?? 0) + 100 * ((p.get(4) ?? 0) + (p.get(5) ?? 0) + (p.get(6) ?? 0)) + 50 * (p.get(7) ?? 0)
+    check('Spread EV with pushes', spread.expectedValue, ev)
+  }
+
+  // Same number at both books leaves no gap
+  const none = detectTotalsMiddles(game([
+    { bookmaker: 'book_a', totalLine: 46, overOdds: 100, underOdds: -120 },
+    { bookmaker: 'book_b', totalLine: 46, overOdds: -120, underOdds: 100 }
+  ]), NOW)
+  expect('No middle on one number', none.length === 0, `${none.length} found`)
+}
+
+function testFairOddsAndKelly() {
+  // -110 / -110 devigs to a coin flip
+  const flip = devig([1.9091, 1.9091], 'multiplicative')
+  check('Devig symmetric', flip[0], 0.5, 0.0001)
+
+  // 1.80 / 2.10: implied 55.56% + 47.62% = 103.17%
+  const multiplicative = devig([1.8, 2.1], 'multiplicative')
+  check('Devig multiplicative', multiplicative[0], 0.5385, 0.0001)
+  const additive = devig([1.8, 2.1], 'additive')
+  check('Devig additive', additive[0], 0.5397, 0.0001)
+  for (const method of ['power', 'shin'] as const) {
+    const fair = devig([1.8, 2.1], method)
+    check(`Devig ${method} sums to 1`, fair[0] + fair[1], 1, 0.0001)
+  }
+
+  // 55% at evens: (0.55 * 2 - 1) / 1 = 10%; no edge stakes nothing
+  check('Kelly edge', kellyFraction(0.55, 2), 0.1, 0.0001)
+  check('Kelly underdog', kellyFraction(0.3, 4), (0.3 * 4 - 1) / 3, 0.0001)
+  check('Kelly no edge', kellyFraction(0.45, 2), 0, 0)
+}
+
+function runTests() {
+  console.log('')
+  console.log('Pricing math check')
+  console.log('════════════════════════════════════════════════════════════════════')
+  console.log('')
+
+  testSolver()
+  testCommissionAndLay()
+  testMiddles()
+  testFairOddsAndKelly()
+
+  console.log('')
+  console.log('════════════════════════════════════════════════════════════════════')
+
+  const passed = results.filter(r => r.status === 'pass').length
+  const failed = results.filter(r => r.status === 'fail').length
+
+  console.log(`Results: ${passed} passed, ${failed} failed`)
+  console.log('')
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+runTests()
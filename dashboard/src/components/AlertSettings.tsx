@@ -7,8 +7,10 @@ interface AlertStatus {
   discord: { configured: boolean }
   settings: {
     arbitrageAlerts: boolean
+    middleAlerts?: boolean
     steamMoveAlerts: boolean
     minProfit: number
+    minMiddleEv?: number
     minSteamChange: number
   }
 }
@@ -218,6 +220,20 @@ export default function AlertSettings() {
             </button>
           </div>
 
+          <div className="flex items-center justify-between">
+            <span className="text-gray-300">Middle Alerts</span>
+            <button
+              onClick={() => updateSettings('middleAlerts', !status?.settings.middleAlerts)}
+              className={`w-12 h-6 rounded-full transition-colors ${
+                status?.settings.middleAlerts ? 'bg-green-500' : 'bg-gray-600'
+              }`}
+            >
+              <div className={`w-5 h-5 rounded-full bg-white transition-transform ${
+                status?.settings.middleAlerts ? 'translate-x-6' : 'translate-x-0.5'
+              }`} />
+            </button>
+          </div>
+
           <div className="flex items-center justify-between">
             <span className="text-gray-300">Steam Move Alerts</span>
             <button
@@ -243,6 +259,17 @@ export default function AlertSettings() {
             />
           </div>
 
+          <div className="flex items-center justify-between">
+            <span className="text-gray-300">Min Middle EV (%)</span>
+            <input
+              type="number"
+              step="0.1"
+              value={status?.settings.minMiddleEv || 1}
+              onChange={(e) => updateSettings('minMiddleEv', parseFloat(e.target.value))}
+              className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm text-center"
+            />
+          </div>
+
           <div className="flex items-center justify-between">
             <span className="text-gray-300">Min Steam Move (points)</span>
             <input
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react'
 import { DollarSign, AlertTriangle, Calculator } from 'lucide-react'
+import { QuoteConfidence } from './QuoteConfidence'
+import { StakePlanner } from './StakePlanner'
 
 const API_BASE = import.meta.env.VITE_API_URL || 'https://sport-intel-production.up.railway.app'
 
@@ -7,9 +9,13 @@ interface ArbitrageOpportunity {
   id: string
   game: string
   profit: number
-  book1: { name: string; bet: string; odds: number; stake: number }
-  book2: { name: string; bet: string; odds: number; stake: number }
+  legs: { book: string; bet: string; odds: number; stake: number; side?: 'lay'; commission?: number; maxStake?: number }[]
+  middle?: { label: string; worstCase: number; expectedValue: number; hitProbability: number }
   expiresIn: string
+  quoteAgeMs?: number
+  quoteConfidence?: number
+  staleBooks?: string[]
+  liquidity?: number
 }
 
 interface ArbitrageScannerProps {
@@ -22,6 +28,10 @@ export default function ArbitrageScanner({ sport }: ArbitrageScannerProps) {
   const [lastScan, setLastScan] = useState<Date | null>(null)
   const [stakeAmount, setStakeAmount] = useState(1000)
   const [scannedGames, setScannedGames] = useState(0)
+  const [planningId, setPlanningId] = useState<string | null>(null)
+
+  // Exchange legs can only take what's offered at the quoted price
+  const stakeFor = (arb: ArbitrageOpportunity) => Math.min(stakeAmount, arb.liquidity ?? Infinity)
 
   const runScan = async () => {
     setScanning(true)
@@ -120,15 +130,33 @@ export default function ArbitrageScanner({ sport }: ArbitrageScannerProps) {
             <div key={arb.id} className="glass-card p-6 border-green-500/30 border-2">
               <div className="flex justify-between items-start mb-4">
                 <div>
-                  <h3 className="text-lg font-semibold text-white">{arb.game}</h3>
-                  <p className="text-sm text-gray-400">{arb.expiresIn}</p>
-                </div>
-                <div className="text-right">
-                  <div className="text-2xl font-bold text-green-400">+{arb.profit.toFixed(2)}%</div>
-                  <div className="text-sm text-gray-400">
-                    ${((arb.profit / 100) * stakeAmount).toFixed(2)} guaranteed profit
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-semibold text-white">{arb.game}</h3>
+                    <QuoteConfidence
+                      confidence={arb.quoteConfidence}
+                      quoteAgeMs={arb.quoteAgeMs}
+                      staleBooks={arb.staleBooks}
+                    />
                   </div>
+                  <p className="text-sm text-gray-400">
+                    {arb.middle ? `Middle: ${arb.middle.label} • ${arb.middle.hitProbability.toFixed(1)}% to hit` : arb.expiresIn}
+                  </p>
                 </div>
+                {arb.middle ? (
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-blue-400">EV +{arb.middle.expectedValue.toFixed(2)}%</div>
+                    <div className="text-sm text-gray-400">
+                      ${((arb.middle.worstCase / 100) * stakeFor(arb)).toFixed(2)} worst case
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-green-400">+{arb.profit.toFixed(2)}%</div>
+                    <div className="text-sm text-gray-400">
+                      ${((arb.profit / 100) * stakeFor(arb)).toFixed(2)} guaranteed profit
+                    </div>
+                  </div>
+                )}
               </div>
               
               <table className="w-full">
@@ -141,20 +169,30 @@ export default function ArbitrageScanner({ sport }: ArbitrageScannerProps) {
                   </tr>
                 </thead>
                 <tbody className="text-white">
-                  <tr>
-                    <td className="py-2 font-medium capitalize">{arb.book1.name}</td>
-                    <td className="py-2">{arb.book1.bet}</td>
-                    <td className="py-2 text-center text-green-400">{arb.book1.odds > 0 ? '+' : ''}{arb.book1.odds}</td>
-                    <td className="py-2 text-right">${((arb.book1.stake / 100) * stakeAmount).toFixed(2)}</td>
-                  </tr>
-                  <tr>
-                    <td className="py-2 font-medium capitalize">{arb.book2.name}</td>
-                    <td className="py-2">{arb.book2.bet}</td>
-                    <td className="py-2 text-center text-green-400">{arb.book2.odds > 0 ? '+' : ''}{arb.book2.odds}</td>
-                    <td className="py-2 text-right">${((arb.book2.stake / 100) * stakeAmount).toFixed(2)}</td>
-                  </tr>
+                  {arb.legs.map((leg) => (
+                    <tr key={`${leg.book}-${leg.bet}`}>
+                      <td className="py-2 font-medium capitalize">{leg.book}</td>
+                      <td className="py-2">
+                        {leg.bet}
+                        {leg.side === 'lay' && <span className="ml-2 text-xs text-pink-400">lay (liability)</span>}
+                      </td>
+                      <td className="py-2 text-center text-green-400">{leg.odds > 0 ? '+' : ''}{leg.odds}</td>
+                      <td className="py-2 text-right">${((leg.stake / 100) * stakeFor(arb)).toFixed(2)}</td>
+                    </tr>
+                  ))}
                 </tbody>
               </table>
+
+              <button
+                onClick={() => setPlanningId(planningId === arb.id ? null : arb.id)}
+                className="mt-3 text-sm text-green-400 hover:text-green-300 flex items-center gap-1"
+              >
+                <Calculator className="w-4 h-4" />
+                {planningId === arb.id ? 'Hide stake planner' : 'Plan stakes'}
+              </button>
+              {planningId === arb.id && (
+                <StakePlanner legs={arb.legs} bankroll={stakeAmount} middle={!!arb.middle} />
+              )}
             </div>
           ))}
         </div>
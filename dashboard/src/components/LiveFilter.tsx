@@ -0,0 +1,50 @@
+import { Radio } from 'lucide-react'
+
+export type LiveFilterValue = 'all' | 'live' | 'pregame'
+
+/**
+ * Pulsing badge for in-play games and arbs
+ */
+export function LiveBadge({ live }: { live?: boolean }) {
+  if (!live) return null
+
+  return (
+    <span className="text-xs px-2 py-0.5 rounded flex items-center gap-1 bg-red-500/20 text-red-400 font-semibold">
+      <Radio className="w-3 h-3 animate-pulse" />
+      LIVE
+    </span>
+  )
+}
+
+interface LiveFilterProps {
+  value: LiveFilterValue
+  onChange: (value: LiveFilterValue) => void
+  liveCount?: number
+}
+
+/**
+ * All / Live / Pregame toggle
+ */
+export function LiveFilter({ value, onChange, liveCount }: LiveFilterProps) {
+  const options: { value: LiveFilterValue; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'live', label: liveCount !== undefined ? `Live (${liveCount})` : 'Live' },
+    { value: 'pregame', label: 'Pregame' }
+  ]
+
+  return (
+    <div className="flex items-center gap-1 bg-gray-800 rounded-lg p-1">
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 rounded text-sm transition-colors ${
+            value === option.value ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
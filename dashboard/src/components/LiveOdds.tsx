@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
 import { Clock } from 'lucide-react'
+import { LiveBadge, LiveFilter, type LiveFilterValue } from './LiveFilter'
 
 const API_BASE = import.meta.env.VITE_API_URL || 'https://sport-intel-production.up.railway.app'
 
@@ -9,6 +10,7 @@ interface OddsData {
   homeTeam: string
   awayTeam: string
   startTime: string
+  isLive: boolean
   odds: {
     draftkings?: { home: number; away: number; spread?: number }
     fanduel?: { home: number; away: number; spread?: number }
@@ -45,6 +47,7 @@ export default function LiveOdds({ sport }: LiveOddsProps) {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [remaining, setRemaining] = useState<number | null>(null)
+  const [liveFilter, setLiveFilter] = useState<LiveFilterValue>('all')
 
   useEffect(() => {
     const fetchOdds = async () => {
@@ -73,6 +76,7 @@ export default function LiveOdds({ sport }: LiveOddsProps) {
             homeTeam: game.homeTeam,
             awayTeam: game.awayTeam,
             startTime: new Date(game.startTime).toLocaleString(),
+            isLive: !!game.isLive,
             odds
           }
         })
@@ -118,15 +122,29 @@ export default function LiveOdds({ sport }: LiveOddsProps) {
     )
   }
 
+  const liveCount = odds.filter(g => g.isLive).length
+  const visibleOdds = odds.filter(g =>
+    liveFilter === 'all' || (liveFilter === 'live' ? g.isLive : !g.isLive)
+  )
+
   return (
     <div className="space-y-4">
-      {typeof remaining === 'number' && remaining >= 0 && (
-        <div className="text-sm text-gray-400 text-right">
-          API Requests Remaining: <span className="text-green-400 font-medium">{(remaining ?? 0).toLocaleString()}</span>
+      <div className="flex items-center justify-between">
+        <LiveFilter value={liveFilter} onChange={setLiveFilter} liveCount={liveCount} />
+        {typeof remaining === 'number' && remaining >= 0 && (
+          <div className="text-sm text-gray-400 text-right">
+            API Requests Remaining: <span className="text-green-400 font-medium">{(remaining ?? 0).toLocaleString()}</span>
+          </div>
+        )}
+      </div>
+
+      {visibleOdds.length === 0 && (
+        <div className="glass-card p-8 text-center">
+          <p className="text-gray-400">No {liveFilter === 'live' ? 'live' : 'pregame'} {sport.toUpperCase()} games</p>
         </div>
       )}
-      
-      {odds.map((game, index) => {
+
+      {visibleOdds.map((game, index) => {
         const bestHome = getBestOdds(game, 'home')
         const bestAway = getBestOdds(game, 'away')
 
@@ -134,7 +152,10 @@ export default function LiveOdds({ sport }: LiveOddsProps) {
           <div key={game.id || `game-${index}`} className="glass-card p-6 hover:border-green-500/30 transition-all">
             <div className="flex justify-between items-start mb-4">
               <div>
-                <h3 className="text-lg font-semibold text-white">{game.game}</h3>
+                <div className="flex items-center gap-2">
+                  <h3 className="text-lg font-semibold text-white">{game.game}</h3>
+                  <LiveBadge live={game.isLive} />
+                </div>
                 <div className="flex items-center gap-2 text-sm text-gray-400 mt-1">
                   <Clock className="w-4 h-4" />
                   <span>{game.startTime}</span>
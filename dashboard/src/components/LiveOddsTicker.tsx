@@ -97,7 +97,7 @@ export default function LiveOddsTicker() {
                 type: 'arb',
                 sport,
                 title: `ARB +${arb.profit.toFixed(1)}%`,
-                detail: `${arb.book1?.name} vs ${arb.book2?.name}`,
+                detail: arb.legs?.map((leg: { book: string }) => leg.book).join(' vs '),
                 value: `+${arb.profit.toFixed(2)}%`,
                 icon: 'arb',
                 timestamp: arb.detectedAt || Date.now()
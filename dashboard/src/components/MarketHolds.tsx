@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Percent, RefreshCw, ArrowUpDown, AlertTriangle } from 'lucide-react'
+
+const API_BASE = import.meta.env.VITE_API_URL || 'https://sport-intel-production.up.railway.app'
+
+type HoldMarket = 'moneyline' | 'spread' | 'total'
+
+interface HoldPrice {
+  bet: string
+  book: string
+  odds: number
+}
+
+interface MarketHold {
+  id: string
+  game: string
+  market: HoldMarket
+  line?: number
+  bestHold: number
+  totalImplied: number
+  best: HoldPrice[]
+  books: { book: string; hold: number; prices: HoldPrice[] }[]
+  isLive: boolean
+}
+
+interface BookHoldSummary {
+  book: string
+  market: HoldMarket
+  markets: number
+  avgHold: number
+  minHold: number
+}
+
+interface MarketHoldsProps {
+  sport: string
+}
+
+type SortKey = 'game' | 'market' | 'bestHold' | 'bookHold' | 'books'
+
+const formatOdds = (odds: number) => `${odds > 0 ? '+' : ''}${odds}`
+
+// Lowest single-book hold on a market
+const bookHoldOf = (hold: MarketHold) => hold.books[0]?.hold ?? Infinity
+
+const SORTERS: Record<SortKey, (a: MarketHold, b: MarketHold) => number> = {
+  game: (a, b) => a.game.localeCompare(b.game),
+  market: (a, b) => a.market.localeCompare(b.market) || (a.line ?? 0) - (b.line ?? 0),
+  bestHold: (a, b) => a.bestHold - b.bestHold,
+  bookHold: (a, b) => bookHoldOf(a) - bookHoldOf(b),
+  books: (a, b) => a.books.length - b.books.length
+}
+
+const holdColor = (hold: number) =>
+  hold <= 0 ? 'text-green-400' : hold < 2 ? 'text-emerald-300' : hold < 4 ? 'text-yellow-400' : 'text-red-400'
+
+export default function MarketHolds({ sport }: MarketHoldsProps) {
+  const [markets, setMarkets] = useState<MarketHold[]>([])
+  const [books, setBooks] = useState<BookHoldSummary[]>([])
+  const [market, setMarket] = useState<HoldMarket | ''>('')
+  const [sortKey, setSortKey] = useState<SortKey>('bestHold')
+  const [ascending, setAscending] = useState(true)
+  const [loading, setLoading] = useState(false)
+
+  const fetchHolds = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: '100' })
+      if (market) params.set('market', market)
+      const response = await fetch(`${API_BASE}/api/holds/${sport}?${params}`)
+      const data = await response.json()
+      setMarkets(data.markets || [])
+      setBooks(data.books || [])
+    } catch (err) {
+      console.error('Failed to fetch market holds:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [sport, market])
+
+  useEffect(() => {
+    fetchHolds()
+  }, [fetchHolds])
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending)
+    } else {
+      setSortKey(key)
+      setAscending(true)
+    }
+  }
+
+  const sorted = [...markets].sort((a, b) => (ascending ? 1 : -1) * SORTERS[sortKey](a, b))
+
+  const header = (key: SortKey, label: string, align = 'text-left') => (
+    <th className={`${align} py-2 px-2`}>
+      <button onClick={() => sortBy(key)} className="inline-flex items-center gap-1 hover:text-white">
+        {label}
+        <ArrowUpDown className={`w-3 h-3 ${sortKey === key ? 'text-cyan-400' : ''}`} />
+      </button>
+    </th>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="glass-card p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Percent className="w-6 h-6 text-cyan-500" />
+              Market Hold
+            </h2>
+            <p className="text-gray-400 text-sm mt-1">
+              Best achievable hold per {sport.toUpperCase()} market across books - a negative hold is an arb
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={market}
+              onChange={(e) => setMarket(e.target.value as HoldMarket | '')}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm"
+            >
+              <option value="">All markets</option>
+              <option value="moneyline">Moneyline</option>
+              <option value="spread">Spread</option>
+              <option value="total">Total</option>
+            </select>
+            <button
+              onClick={fetchHolds}
+              disabled={loading}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {markets.length === 0 && !loading ? (
+        <div className="glass-card p-8 text-center">
+          <AlertTriangle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-white mb-2">No Markets Priced</h3>
+          <p className="text-gray-400">A market needs at least two books quoting the same line.</p>
+        </div>
+      ) : (
+        <div className="glass-card p-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                {header('game', 'Game')}
+                {header('market', 'Market')}
+                <th className="text-left py-2 px-2">Best Prices</th>
+                {header('bestHold', 'Best Hold', 'text-right')}
+                {header('bookHold', 'Lowest Book', 'text-right')}
+                {header('books', 'Books', 'text-right')}
+              </tr>
+            </thead>
+            <tbody className="text-white">
+              {sorted.map(hold => (
+                <tr key={hold.id} className="border-b border-gray-800">
+                  <td className="py-2 px-2">
+                    {hold.game}
+                    {hold.isLive && <span className="ml-2 text-xs text-red-400">LIVE</span>}
+                  </td>
+                  <td className="py-2 px-2 capitalize text-gray-300">
+                    {hold.market}
+                    {hold.line !== undefined && ` ${hold.market === 'spread' ? formatOdds(hold.line) : hold.line}`}
+                  </td>
+                  <td className="py-2 px-2 text-gray-300">
+                    {hold.best.map(price => (
+                      <div key={price.bet}>
+                        {price.bet} <span className="text-green-400">{formatOdds(price.odds)}</span>{' '}
+                        <span className="text-gray-500 capitalize">{price.book}</span>
+                      </div>
+                    ))}
+                  </td>
+                  <td className={`py-2 px-2 text-right font-semibold ${holdColor(hold.bestHold)}`}>
+                    {hold.bestHold.toFixed(2)}%
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-300">
+                    {hold.books[0] && (
+                      <>
+                        {hold.books[0].hold.toFixed(2)}% <span className="text-gray-500 capitalize">{hold.books[0].book}</span>
+                      </>
+                    )}
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-400">{hold.books.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Book vig */}
+      {books.length > 0 && (
+        <div className="glass-card p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">Average Hold by Book</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                <th className="text-left py-2">Book</th>
+                <th className="text-left py-2">Market</th>
+                <th className="text-right py-2">Markets</th>
+                <th className="text-right py-2">Avg Hold</th>
+                <th className="text-right py-2">Min Hold</th>
+              </tr>
+            </thead>
+            <tbody className="text-white">
+              {books.map(book => (
+                <tr key={`${book.book}-${book.market}`}>
+                  <td className="py-1 capitalize">{book.book}</td>
+                  <td className="py-1 capitalize text-gray-300">{book.market}</td>
+                  <td className="py-1 text-right text-gray-400">{book.markets}</td>
+                  <td className={`py-1 text-right ${holdColor(book.avgHold)}`}>{book.avgHold.toFixed(2)}%</td>
+                  <td className="py-1 text-right text-gray-300">{book.minHold.toFixed(2)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -243,7 +243,7 @@ export default function NetworkDashboard({ token }: NetworkDashboardProps) {
               <div className="space-y-2">
                 {[
                   { key: 'steamChaser', label: 'Steam Chaser', desc: 'Track sharp line moves' },
-                  { key: 'sniper', label: 'Arb Sniper', desc: 'Auto-validate arbs' },
+                  { key: 'sniper', label: 'Arb Sniper', desc: 'Validate and size arbs and +EV bets' },
                   { key: 'evHunter', label: 'EV Hunter', desc: 'Find +EV plays' }
                 ].map(({ key, label, desc }) => (
                   <label key={key} className="flex items-center gap-3 cursor-pointer group">
@@ -294,6 +294,33 @@ export default function NetworkDashboard({ token }: NetworkDashboardProps) {
                     className="w-full mt-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
                   />
                 </div>
+                <div>
+                  <label className="text-xs text-gray-500">Sniper Bankroll ($)</label>
+                  <input
+                    type="number"
+                    value={config.settings.bankroll}
+                    onChange={(e) => handleConfigUpdate({
+                      settings: { ...config.settings, bankroll: parseFloat(e.target.value) || 0 }
+                    })}
+                    step="100"
+                    min="0"
+                    className="w-full mt-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">Kelly Fraction</label>
+                  <input
+                    type="number"
+                    value={config.settings.kellyFraction}
+                    onChange={(e) => handleConfigUpdate({
+                      settings: { ...config.settings, kellyFraction: parseFloat(e.target.value) || 0 }
+                    })}
+                    step="0.05"
+                    min="0"
+                    max="1"
+                    className="w-full mt-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                  />
+                </div>
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
                     type="checkbox"
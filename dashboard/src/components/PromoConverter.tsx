@@ -0,0 +1,253 @@
+import { useState } from 'react'
+import { Gift, AlertTriangle, Calculator } from 'lucide-react'
+
+const API_BASE = import.meta.env.VITE_API_URL || 'https://sport-intel-production.up.railway.app'
+
+type PromoType = 'bet_credit' | 'profit_boost' | 'no_sweat'
+
+interface PromoLeg {
+  book: string
+  bet: string
+  odds: number
+  stake: number
+  side?: 'lay'
+  layStake?: number
+}
+
+interface PromoOption {
+  game: string
+  gameId: string
+  market: 'moneyline' | 'spread' | 'total'
+  promo: PromoLeg
+  hedges: PromoLeg[]
+  hedgeTotal: number
+  profit: number
+  conversion: number
+}
+
+interface PromoConverterProps {
+  sport: string
+}
+
+const PROMO_TYPES: { value: PromoType; label: string; hint: string }[] = [
+  { value: 'bet_credit', label: 'Bet Credit', hint: 'Stake not returned - only the winnings pay out' },
+  { value: 'profit_boost', label: 'Profit Boost', hint: 'Real-money bet with boosted winnings' },
+  { value: 'no_sweat', label: 'No-Sweat Bet', hint: 'Refunded as a bet credit if it loses' }
+]
+
+const BOOKS = ['', 'draftkings', 'fanduel', 'betmgm', 'caesars', 'pointsbet', 'bovada']
+
+const formatOdds = (odds: number) => `${odds > 0 ? '+' : ''}${odds}`
+
+export default function PromoConverter({ sport }: PromoConverterProps) {
+  const [type, setType] = useState<PromoType>('bet_credit')
+  const [amount, setAmount] = useState(100)
+  const [book, setBook] = useState('')
+  const [boost, setBoost] = useState(50)
+  const [refundConversion, setRefundConversion] = useState(70)
+  const [minOdds, setMinOdds] = useState('')
+  const [options, setOptions] = useState<PromoOption[] | null>(null)
+  const [scannedGames, setScannedGames] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const convert = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`${API_BASE}/api/promos/convert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sport,
+          type,
+          amount,
+          book: book || undefined,
+          boost: type === 'profit_boost' ? boost / 100 : undefined,
+          refundConversion: type === 'no_sweat' ? refundConversion / 100 : undefined,
+          minOdds: minOdds ? Number(minOdds) : undefined,
+          limit: 10
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setOptions(null)
+        setError(data.error || 'Conversion failed')
+      } else {
+        setOptions(data.options)
+        setScannedGames(data.scannedGames || 0)
+      }
+    } catch (err) {
+      console.error('Promo conversion failed:', err)
+      setError('Conversion failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Promo Inputs */}
+      <div className="glass-card p-6 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Gift className="w-6 h-6 text-pink-500" />
+            Promo Converter
+          </h2>
+          <p className="text-gray-400 text-sm mt-1">
+            Best hedge for a promo across every {sport.toUpperCase()} book and market, ranked by guaranteed conversion
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {PROMO_TYPES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setType(option.value)}
+              title={option.hint}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                type === option.value
+                  ? 'bg-pink-500/20 text-pink-400 border border-pink-500/50'
+                  : 'text-gray-400 hover:text-white hover:bg-gray-800'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2 text-gray-400">
+            {type === 'bet_credit' ? 'Credit' : 'Stake'} $
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(Number(e.target.value))}
+              className="w-24 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-gray-400">
+            Book
+            <select
+              value={book}
+              onChange={(e) => setBook(e.target.value)}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white capitalize"
+            >
+              {BOOKS.map(b => (
+                <option key={b} value={b}>{b || 'Any book'}</option>
+              ))}
+            </select>
+          </label>
+          {type === 'profit_boost' && (
+            <label className="flex items-center gap-2 text-gray-400">
+              Boost %
+              <input
+                type="number"
+                value={boost}
+                onChange={(e) => setBoost(Number(e.target.value))}
+                className="w-20 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white"
+              />
+            </label>
+          )}
+          {type === 'no_sweat' && (
+            <label className="flex items-center gap-2 text-gray-400">
+              Refund worth %
+              <input
+                type="number"
+                value={refundConversion}
+                onChange={(e) => setRefundConversion(Number(e.target.value))}
+                className="w-20 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white"
+              />
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-gray-400">
+            Min odds
+            <input
+              type="number"
+              placeholder="e.g. -200"
+              value={minOdds}
+              onChange={(e) => setMinOdds(e.target.value)}
+              className="w-24 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white"
+            />
+          </label>
+          <button
+            onClick={convert}
+            disabled={loading}
+            className="px-4 py-2 bg-pink-500 hover:bg-pink-600 disabled:bg-gray-600 text-white font-medium rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Calculator className="w-4 h-4" />
+            {loading ? 'Converting...' : 'Find Hedges'}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      {/* Results */}
+      {options && options.length === 0 && (
+        <div className="glass-card p-8 text-center">
+          <AlertTriangle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-white mb-2">No Hedge Found</h3>
+          <p className="text-gray-400 max-w-md mx-auto">
+            Scanned {scannedGames} games. A hedge needs the promo book and at least one other book quoting the same market.
+          </p>
+        </div>
+      )}
+
+      {options && options.length > 0 && (
+        <div className="space-y-4">
+          {options.map((option, i) => (
+            <div key={`${option.gameId}-${option.promo.book}-${option.promo.bet}`} className="glass-card p-6 border-pink-500/30 border-2">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-white">
+                    #{i + 1} {option.game}
+                  </h3>
+                  <span className="text-xs px-2 py-0.5 bg-gray-700 rounded text-gray-300 uppercase">{option.market}</span>
+                </div>
+                <div className="text-right">
+                  <div className="text-2xl font-bold text-pink-400">{option.conversion.toFixed(1)}%</div>
+                  <div className="text-sm text-gray-400">${option.profit.toFixed(2)} guaranteed</div>
+                </div>
+              </div>
+
+              <table className="w-full">
+                <thead>
+                  <tr className="text-gray-400 text-sm border-b border-gray-700">
+                    <th className="text-left py-2">Book</th>
+                    <th className="text-left py-2">Bet</th>
+                    <th className="text-center py-2">Odds</th>
+                    <th className="text-right py-2">Stake</th>
+                  </tr>
+                </thead>
+                <tbody className="text-white">
+                  <tr>
+                    <td className="py-2 font-medium capitalize">
+                      {option.promo.book} <span className="text-xs text-pink-400">promo</span>
+                    </td>
+                    <td className="py-2">{option.promo.bet}</td>
+                    <td className="py-2 text-center text-green-400">{formatOdds(option.promo.odds)}</td>
+                    <td className="py-2 text-right">${option.promo.stake.toFixed(2)}</td>
+                  </tr>
+                  {option.hedges.map(hedge => (
+                    <tr key={`${hedge.book}-${hedge.bet}`}>
+                      <td className="py-2 font-medium capitalize">{hedge.book}</td>
+                      <td className="py-2">
+                        {hedge.bet}
+                        {hedge.side === 'lay' && hedge.layStake !== undefined && (
+                          <span className="ml-2 text-xs text-pink-400">backer's stake ${hedge.layStake.toFixed(2)}</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-center text-green-400">{formatOdds(hedge.odds)}</td>
+                      <td className="py-2 text-right">${hedge.stake.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
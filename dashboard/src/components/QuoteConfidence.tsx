@@ -0,0 +1,33 @@
+import { ShieldCheck, ShieldAlert } from 'lucide-react'
+
+interface QuoteConfidenceProps {
+  confidence?: number
+  quoteAgeMs?: number
+  staleBooks?: string[]
+}
+
+/**
+ * Badge showing how fresh the quotes behind an arbitrage are
+ */
+export function QuoteConfidence({ confidence, quoteAgeMs, staleBooks = [] }: QuoteConfidenceProps) {
+  if (confidence === undefined) return null
+
+  const stale = staleBooks.length > 0
+  const color = stale || confidence < 40
+    ? 'bg-red-500/20 text-red-400'
+    : confidence < 70
+    ? 'bg-yellow-500/20 text-yellow-400'
+    : 'bg-green-500/20 text-green-400'
+
+  const title = [
+    quoteAgeMs !== undefined ? `Oldest quote ${Math.round(quoteAgeMs / 1000)}s` : null,
+    stale ? `Stale: ${staleBooks.join(', ')}` : null
+  ].filter(Boolean).join(' • ')
+
+  return (
+    <span className={`text-xs px-2 py-0.5 rounded flex items-center gap-1 ${color}`} title={title}>
+      {stale ? <ShieldAlert className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />}
+      {stale ? 'Stale quote' : `${confidence}% fresh`}
+    </span>
+  )
+}
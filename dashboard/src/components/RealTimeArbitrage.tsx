@@ -7,13 +7,23 @@
 
 import { useState, useEffect } from 'react'
 import { DollarSign, Zap, Clock, TrendingUp, Wifi, WifiOff } from 'lucide-react'
-import { useSocket } from '../hooks/useSocket'
+import { useSocket, type ArbitrageOpportunity } from '../hooks/useSocket'
 import { useAuth } from '../hooks/useAuth'
+import { QuoteConfidence } from './QuoteConfidence'
+import { LiveBadge, LiveFilter, type LiveFilterValue } from './LiveFilter'
 
 interface RealTimeArbitrageProps {
   sport?: string
 }
 
+// "player_points" -> "Points", "batter_total_bases" -> "Total Bases"
+const propLabel = (market: string) =>
+  market
+    .replace(/^(player|batter|pitcher)_/, '')
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+
 export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
   const { token } = useAuth()
   const {
@@ -28,6 +38,10 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
 
   const [stakeAmount, setStakeAmount] = useState(1000)
   const [showNotification, setShowNotification] = useState(false)
+  const [liveFilter, setLiveFilter] = useState<LiveFilterValue>('all')
+
+  // Exchange legs can only take what's offered at the quoted price
+  const stakeFor = (arb: ArbitrageOpportunity) => Math.min(stakeAmount, arb.liquidity ?? Infinity)
 
   // Subscribe to sport when it changes
   useEffect(() => {
@@ -55,10 +69,13 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
     }
   }, [lastArbitrage])
 
-  // Filter by sport if specified
-  const filteredArbs = sport
+  // Filter by sport if specified, then by live/pregame
+  const sportArbs = sport
     ? arbitrages.filter(a => a.sport === sport)
     : arbitrages
+  const filteredArbs = sportArbs.filter(a =>
+    liveFilter === 'all' || (liveFilter === 'live' ? a.isLive : !a.isLive)
+  )
 
   // Format time ago
   const timeAgo = (timestamp: number) => {
@@ -90,6 +107,12 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
           </div>
 
           <div className="flex items-center gap-4">
+            <LiveFilter
+              value={liveFilter}
+              onChange={setLiveFilter}
+              liveCount={sportArbs.filter(a => a.isLive).length}
+            />
+
             {/* Connection Status */}
             <div className={`flex items-center gap-2 px-3 py-1.5 rounded-full ${
               connected ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
@@ -143,7 +166,9 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
                 <DollarSign className="w-5 h-5 text-green-400" />
               </div>
               <div>
-                <p className="text-white font-semibold">New Arbitrage Found!</p>
+                <p className="text-white font-semibold">
+                  {lastArbitrage.isLive ? 'New Live Arbitrage!' : 'New Arbitrage Found!'}
+                </p>
                 <p className="text-green-400 text-sm">
                   {lastArbitrage.game} • +{lastArbitrage.profit.toFixed(2)}%
                 </p>
@@ -190,7 +215,9 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
             <div
               key={arb.id}
               className={`glass-card p-6 border-2 transition-all ${
-                arb.profit >= 2
+                arb.middle
+                  ? 'border-blue-500/30'
+                  : arb.profit >= 2
                   ? 'border-red-500/50 shadow-lg shadow-red-500/10'
                   : arb.profit >= 1
                   ? 'border-yellow-500/30'
@@ -202,29 +229,57 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
                   <div className="flex items-center gap-2">
                     <h3 className="text-lg font-semibold text-white">{arb.game}</h3>
                     <span className="text-xs px-2 py-0.5 bg-gray-700 rounded text-gray-300 uppercase">
-                      {arb.type}
+                      {arb.middle ? `${arb.middle.market} middle` : arb.type}
                     </span>
+                    <LiveBadge live={arb.isLive} />
                     {arb.delayed && (
                       <span className="text-xs px-2 py-0.5 bg-yellow-500/20 text-yellow-400 rounded">
                         Delayed
                       </span>
                     )}
+                    <QuoteConfidence
+                      confidence={arb.quoteConfidence}
+                      quoteAgeMs={arb.quoteAgeMs}
+                      staleBooks={arb.staleBooks}
+                    />
                   </div>
+                  {arb.prop && (
+                    <p className="text-sm text-purple-400 mt-1">
+                      {arb.prop.player} • {propLabel(arb.prop.market)} •{' '}
+                      {arb.prop.underLine !== undefined ? `${arb.prop.line} / ${arb.prop.underLine}` : arb.prop.line}
+                    </p>
+                  )}
                   <p className="text-sm text-gray-400 flex items-center gap-1 mt-1">
                     <Clock className="w-3 h-3" />
                     {timeAgo(arb.detectedAt)}
                   </p>
+                  {arb.middle && (
+                    <p className="text-sm text-blue-400 mt-1">
+                      Middle: {arb.middle.label} • {arb.middle.hitProbability.toFixed(1)}% to hit
+                    </p>
+                  )}
                 </div>
-                <div className="text-right">
-                  <div className={`text-2xl font-bold ${
-                    arb.profit >= 2 ? 'text-red-400' : arb.profit >= 1 ? 'text-yellow-400' : 'text-green-400'
-                  }`}>
-                    +{arb.profit.toFixed(2)}%
+                {arb.middle ? (
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-blue-400">
+                      EV +{arb.middle.expectedValue.toFixed(2)}%
+                    </div>
+                    <div className="text-sm text-gray-400">
+                      ${((arb.middle.worstCase / 100) * stakeFor(arb)).toFixed(2)} worst • +${((arb.middle.bestCase / 100) * stakeFor(arb)).toFixed(2)} if it hits
+                    </div>
                   </div>
-                  <div className="text-sm text-gray-400">
-                    ${((arb.profit / 100) * stakeAmount).toFixed(2)} profit
+                ) : (
+                  <div className="text-right">
+                    <div className={`text-2xl font-bold ${
+                      arb.profit >= 2 ? 'text-red-400' : arb.profit >= 1 ? 'text-yellow-400' : 'text-green-400'
+                    }`}>
+                      +{arb.profit.toFixed(2)}%
+                    </div>
+                    <div className="text-sm text-gray-400">
+                      ${((arb.profit / 100) * stakeFor(arb)).toFixed(2)} profit
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
 
               <table className="w-full">
@@ -238,39 +293,38 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
                   </tr>
                 </thead>
                 <tbody className="text-white">
-                  <tr>
-                    <td className="py-2 font-medium capitalize">{arb.book1.name}</td>
-                    <td className="py-2">{arb.book1.bet}</td>
-                    <td className="py-2 text-center text-green-400">
-                      {arb.book1.odds > 0 ? '+' : ''}{arb.book1.odds}
-                    </td>
-                    <td className="py-2 text-right">
-                      ${((arb.book1.stake / 100) * stakeAmount).toFixed(2)}
-                    </td>
-                    <td className="py-2 text-right text-gray-400">
-                      ${(((arb.book1.stake / 100) * stakeAmount) * arb.book1.decimalOdds).toFixed(2)}
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="py-2 font-medium capitalize">{arb.book2.name}</td>
-                    <td className="py-2">{arb.book2.bet}</td>
-                    <td className="py-2 text-center text-green-400">
-                      {arb.book2.odds > 0 ? '+' : ''}{arb.book2.odds}
-                    </td>
-                    <td className="py-2 text-right">
-                      ${((arb.book2.stake / 100) * stakeAmount).toFixed(2)}
-                    </td>
-                    <td className="py-2 text-right text-gray-400">
-                      ${(((arb.book2.stake / 100) * stakeAmount) * arb.book2.decimalOdds).toFixed(2)}
-                    </td>
-                  </tr>
+                  {arb.legs.map((leg) => (
+                    <tr key={`${leg.book}-${leg.bet}`}>
+                      <td className="py-2 font-medium capitalize">{leg.book}</td>
+                      <td className="py-2">
+                        {leg.bet}
+                        {leg.side === 'lay' && leg.layStake !== undefined && (
+                          <span className="ml-2 text-xs text-pink-400">
+                            lay, backer's stake ${((leg.layStake / 100) * stakeFor(arb)).toFixed(2)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 text-center text-green-400">
+                        {leg.odds > 0 ? '+' : ''}{leg.odds}
+                        {leg.commission !== undefined && (
+                          <span className="block text-xs text-gray-500">{(leg.commission * 100).toFixed(1)}% comm.</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        ${((leg.stake / 100) * stakeFor(arb)).toFixed(2)}
+                      </td>
+                      <td className="py-2 text-right text-gray-400">
+                        ${(((leg.stake / 100) * stakeFor(arb)) * leg.decimalOdds).toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
                 </tbody>
                 <tfoot className="border-t border-gray-700">
                   <tr className="text-white font-semibold">
-                    <td className="py-2" colSpan={3}>Total</td>
-                    <td className="py-2 text-right">${stakeAmount.toFixed(2)}</td>
+                    <td className="py-2" colSpan={3}>{arb.middle ? 'Total (one side wins)' : 'Total'}</td>
+                    <td className="py-2 text-right">${stakeFor(arb).toFixed(2)}</td>
                     <td className="py-2 text-right text-green-400">
-                      ${(stakeAmount * (1 + arb.profit / 100)).toFixed(2)}
+                      ${(stakeFor(arb) * (1 + arb.profit / 100)).toFixed(2)}
                     </td>
                   </tr>
                 </tfoot>
@@ -280,9 +334,12 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
               <div className="mt-4 pt-4 border-t border-gray-700 flex items-center justify-between text-sm">
                 <span className="text-gray-500">
                   Combined implied: {arb.totalImplied}%
+                  {arb.liquidity !== undefined && arb.liquidity < stakeAmount && (
+                    <> • capped at ${arb.liquidity.toFixed(0)} by liquidity</>
+                  )}
                 </span>
                 <span className="text-yellow-400">
-                  ⚡ Act fast - odds change quickly
+                  {arb.isLive ? '⚡ In-play - gone within seconds' : '⚡ Act fast - odds change quickly'}
                 </span>
               </div>
             </div>
@@ -301,7 +358,7 @@ export default function RealTimeArbitrage({ sport }: RealTimeArbitrageProps) {
               Avg profit: +{(filteredArbs.reduce((sum, a) => sum + a.profit, 0) / filteredArbs.length).toFixed(2)}%
             </span>
             <span>
-              Potential: ${filteredArbs.reduce((sum, a) => sum + (a.profit / 100) * stakeAmount, 0).toFixed(2)}
+              Potential: ${filteredArbs.reduce((sum, a) => sum + (a.profit / 100) * stakeFor(a), 0).toFixed(2)}
             </span>
           </div>
         </div>
@@ -0,0 +1,201 @@
+import { useState } from 'react'
+import { Calculator, Lock } from 'lucide-react'
+
+const API_BASE = import.meta.env.VITE_API_URL || 'https://sport-intel-production.up.railway.app'
+
+interface StakePlannerProps {
+  legs: { book: string; bet: string; odds: number; side?: 'lay'; commission?: number; maxStake?: number }[]
+  bankroll: number
+  middle?: boolean
+}
+
+interface StakePlan {
+  stakes: { book: string; bet: string; odds: number; stake: number; payout: number; side?: 'lay'; layStake?: number }[]
+  totalStake: number
+  worstCase: number
+  bestCase: number
+  worstCasePct: number
+  bestCasePct: number
+  binding: { type: 'bankroll' | 'balance' | 'maxBet' | 'liquidity'; book?: string; limit: number }
+  roundingCost: number
+}
+
+const ROUNDING_OPTIONS = [
+  { value: 0.01, label: 'Cents' },
+  { value: 1, label: '$1' },
+  { value: 5, label: '$5' },
+  { value: 10, label: '$10' },
+  { value: 25, label: '$25' }
+]
+
+const BINDING_LABELS = { maxBet: 'max bet', balance: 'balance', liquidity: 'liquidity', bankroll: 'bankroll' }
+
+const signed = (n: number) => `${n < 0 ? '-' : '+'}$${Math.abs(n).toFixed(2)}`
+
+/**
+ * Dollar stakes for an arb within bankroll, per-book balances / max bets and rounding
+ */
+export function StakePlanner({ legs, bankroll, middle }: StakePlannerProps) {
+  const books = Array.from(new Set(legs.map(leg => leg.book)))
+  const [rounding, setRounding] = useState(5)
+  const [limits, setLimits] = useState<Record<string, { balance: string; maxBet: string }>>({})
+  const [plan, setPlan] = useState<StakePlan | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const setLimit = (book: string, field: 'balance' | 'maxBet', value: string) => {
+    setLimits(prev => ({ ...prev, [book]: { ...(prev[book] || { balance: '', maxBet: '' }), [field]: value } }))
+  }
+
+  const calculate = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const bookLimits: Record<string, { balance?: number; maxBet?: number }> = {}
+      for (const [book, limit] of Object.entries(limits)) {
+        bookLimits[book] = {
+          balance: limit.balance ? Number(limit.balance) : undefined,
+          maxBet: limit.maxBet ? Number(limit.maxBet) : undefined
+        }
+      }
+
+      const response = await fetch(`${API_BASE}/api/arbitrage/stake-plan`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          legs: legs.map(({ book, bet, odds, side, commission, maxStake }) => ({ book, bet, odds, side, commission, maxStake })),
+          bankroll,
+          books: bookLimits,
+          rounding,
+          middle
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setPlan(null)
+        setError(data.error || 'Stake plan failed')
+      } else {
+        setPlan(data)
+      }
+    } catch (err) {
+      console.error('Stake plan failed:', err)
+      setError('Stake plan failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const bindingLabel = plan
+    ? plan.binding.type === 'bankroll'
+      ? `Bankroll ($${plan.binding.limit})`
+      : `${plan.binding.book} ${BINDING_LABELS[plan.binding.type]} ($${plan.binding.limit})`
+    : ''
+
+  return (
+    <div className="mt-4 p-4 bg-gray-800/50 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-white flex items-center gap-2">
+          <Calculator className="w-4 h-4 text-green-500" />
+          Stake Planner • ${bankroll.toFixed(0)} bankroll
+        </h4>
+        <div className="flex items-center gap-2">
+          <span className="text-gray-400 text-sm">Round to</span>
+          <select
+            value={rounding}
+            onChange={(e) => setRounding(Number(e.target.value))}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+          >
+            {ROUNDING_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {books.map(book => (
+          <div key={book} className="flex items-center gap-2 text-sm">
+            <span className="w-28 text-gray-300 capitalize">{book}</span>
+            <input
+              type="number"
+              placeholder="Balance"
+              value={limits[book]?.balance || ''}
+              onChange={(e) => setLimit(book, 'balance', e.target.value)}
+              className="w-28 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white"
+            />
+            <input
+              type="number"
+              placeholder="Max bet"
+              value={limits[book]?.maxBet || ''}
+              onChange={(e) => setLimit(book, 'maxBet', e.target.value)}
+              className="w-28 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white"
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={calculate}
+        disabled={loading}
+        className="px-3 py-1.5 bg-green-500 hover:bg-green-600 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
+      >
+        {loading ? 'Planning...' : 'Plan Stakes'}
+      </button>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {plan && (
+        <div className="space-y-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                <th className="text-left py-1">Book</th>
+                <th className="text-left py-1">Bet</th>
+                <th className="text-right py-1">Stake</th>
+                <th className="text-right py-1">Payout</th>
+              </tr>
+            </thead>
+            <tbody className="text-white">
+              {plan.stakes.map((stake) => (
+                <tr key={`${stake.book}-${stake.bet}`}>
+                  <td className="py-1 capitalize">{stake.book}</td>
+                  <td className="py-1">
+                    {stake.bet}
+                    {stake.side === 'lay' && stake.layStake !== undefined && (
+                      <span className="ml-2 text-xs text-pink-400">lay, backer's stake ${stake.layStake.toFixed(2)}</span>
+                    )}
+                  </td>
+                  <td className="py-1 text-right font-medium">${stake.stake.toFixed(2)}</td>
+                  <td className="py-1 text-right text-gray-400">${stake.payout.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="text-gray-400">
+              Total staked <span className="text-white font-medium">${plan.totalStake.toFixed(2)}</span>
+            </div>
+            <div className="text-gray-400 flex items-center gap-1">
+              <Lock className="w-3 h-3" />
+              Limited by <span className="text-yellow-400 capitalize">{bindingLabel}</span>
+            </div>
+            <div className="text-gray-400">
+              Worst case{' '}
+              <span className={plan.worstCase >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {signed(plan.worstCase)} ({plan.worstCasePct}%)
+              </span>
+            </div>
+            <div className="text-gray-400">
+              Best case <span className="text-green-400">{signed(plan.bestCase)} ({plan.bestCasePct}%)</span>
+            </div>
+          </div>
+
+          {plan.roundingCost > 0 && (
+            <p className="text-xs text-gray-500">Rounding costs ${plan.roundingCost.toFixed(2)} of worst-case profit</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
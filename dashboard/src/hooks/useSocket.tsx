@@ -10,28 +10,54 @@ import { io, Socket } from 'socket.io-client'
 // WebSocket connects directly to API server (not through Vite proxy)
 const SOCKET_URL = 'http://localhost:8080'
 
+export interface ArbLeg {
+  book: string
+  bet: string
+  odds: number
+  stake: number           // % of total (liability for lay legs)
+  decimalOdds: number     // Net of commission
+  side?: 'lay'
+  layStake?: number       // Lay legs: backer's stake, % of total
+  commission?: number
+  maxStake?: number       // $ available on this leg
+}
+
+export interface MiddleDetails {
+  market: 'spread' | 'total' | 'prop'
+  window: { from: number; to: number }
+  label: string
+  worstCase: number
+  bestCase: number
+  hitProbability: number
+  expectedValue: number
+  mean: number
+  stdDev: number
+}
+
+export interface PropDetails {
+  player: string
+  market: string          // e.g. player_points
+  line: number            // Over line on a middle
+  underLine?: number      // Middles only
+}
+
 export interface ArbitrageOpportunity {
   id: string
-  type: 'moneyline' | 'spread' | 'total' | 'prop'
+  type: 'moneyline' | 'spread' | 'total' | 'prop' | 'outright' | 'middle'
   game: string
   gameId: string
   sport: string
   profit: number
-  book1: {
-    name: string
-    bet: string
-    odds: number
-    stake: number
-    decimalOdds: number
-  }
-  book2: {
-    name: string
-    bet: string
-    odds: number
-    stake: number
-    decimalOdds: number
-  }
+  margin: number
+  legs: ArbLeg[]
+  middle?: MiddleDetails  // Type 'middle' only; profit is then the worst case
+  prop?: PropDetails      // Player prop arbs and prop middles
   totalImplied: number
+  quoteAgeMs?: number
+  quoteConfidence?: number
+  staleBooks?: string[]
+  isLive?: boolean
+  liquidity?: number      // Largest total stake the quoted sizes absorb ($)
   detectedAt: number
   expiresAt: number
   delayed?: boolean
@@ -47,6 +73,102 @@ export interface SteamMove {
   significance: 'low' | 'medium' | 'high' | 'steam'
 }
 
+export interface OddsBook {
+  bookmaker: string
+  homeOdds: number
+  awayOdds: number
+  drawOdds?: number
+  homeSpread?: number
+  awaySpread?: number
+  spreadHomeOdds?: number
+  spreadAwayOdds?: number
+  totalLine?: number
+  overOdds?: number
+  underOdds?: number
+  timestamp: number
+  source?: string
+  stale?: boolean
+  // Exchanges only, keyed by price field (homeOdds, overOdds...)
+  lay?: Record<string, number>
+  available?: Record<string, number>
+  layAvailable?: Record<string, number>
+}
+
+export interface OddsGame {
+  gameId: string
+  game: string
+  homeTeam: string
+  awayTeam: string
+  sport: string
+  startTime: string
+  books: OddsBook[]
+  isLive?: boolean
+  stale?: boolean
+}
+
+interface OddsSnapshot {
+  sport: string
+  seq: number
+  timestamp: number
+  games: OddsGame[]
+}
+
+interface OddsDelta {
+  sport: string
+  seq: number
+  timestamp: number
+  games: OddsGame[]
+  removed: string[]
+  books: {
+    gameId: string
+    bookmaker: string
+    fields?: Partial<Record<keyof OddsBook, number | string | boolean | Record<string, number> | null>>
+    removed?: boolean
+  }[]
+}
+
+/**
+ * Apply a server delta to a sport's game list
+ */
+function applyOddsDelta(games: OddsGame[], delta: OddsDelta): OddsGame[] {
+  const removed = new Set(delta.removed)
+  const replaced = new Map(delta.games.map(g => [g.gameId, g]))
+  const next = new Map<string, OddsGame>()
+
+  for (const game of games) {
+    if (!removed.has(game.gameId) && !replaced.has(game.gameId)) {
+      next.set(game.gameId, game)
+    }
+  }
+  for (const game of delta.games) {
+    next.set(game.gameId, game)
+  }
+
+  for (const patch of delta.books) {
+    const game = next.get(patch.gameId)
+    if (!game) continue
+
+    const books = patch.removed
+      ? game.books.filter(b => b.bookmaker !== patch.bookmaker)
+      : game.books.some(b => b.bookmaker === patch.bookmaker)
+        ? game.books.map(b => (b.bookmaker === patch.bookmaker ? mergeBook(b, patch.fields) : b))
+        : [...game.books, mergeBook({ bookmaker: patch.bookmaker, homeOdds: 0, awayOdds: 0, timestamp: delta.timestamp }, patch.fields)]
+
+    next.set(game.gameId, { ...game, books })
+  }
+
+  return Array.from(next.values())
+}
+
+function mergeBook(book: OddsBook, fields: OddsDelta['books'][number]['fields'] = {}): OddsBook {
+  const merged: Record<string, unknown> = { ...book }
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === null) delete merged[field]
+    else merged[field] = value
+  }
+  return merged as unknown as OddsBook
+}
+
 export interface SocketState {
   connected: boolean
   tier: 'free' | 'pro' | 'premium'
@@ -63,6 +185,9 @@ export function useSocket(token?: string | null) {
   const [arbitrages, setArbitrages] = useState<ArbitrageOpportunity[]>([])
   const [lastArbitrage, setLastArbitrage] = useState<ArbitrageOpportunity | null>(null)
   const [steamMoves, setSteamMoves] = useState<SteamMove[]>([])
+  const [odds, setOdds] = useState<Record<string, OddsGame[]>>({})
+  const oddsSeqRef = useRef<Map<string, number>>(new Map())
+  const sportsRef = useRef<Set<string>>(new Set())
   const pingIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const lastPingRef = useRef<number>(0)
 
@@ -85,6 +210,12 @@ export function useSocket(token?: string | null) {
 
       // Subscribe to arbitrage updates
       socket.emit('subscribe:arbitrage')
+
+      // Rooms don't survive a reconnect - resubscribe and start from fresh snapshots
+      oddsSeqRef.current.clear()
+      for (const sport of sportsRef.current) {
+        socket.emit('subscribe:sport', sport)
+      }
     })
 
     socket.on('disconnect', () => {
@@ -123,6 +254,25 @@ export function useSocket(token?: string | null) {
       setArbitrages(prev => prev.filter(a => a.id !== arbId))
     })
 
+    // Odds stream: full snapshot, then sequenced deltas
+    socket.on('odds:snapshot', (snapshot: OddsSnapshot) => {
+      oddsSeqRef.current.set(snapshot.sport, snapshot.seq)
+      setOdds(prev => ({ ...prev, [snapshot.sport]: snapshot.games }))
+    })
+
+    socket.on('odds:delta', (delta: OddsDelta) => {
+      const seq = oddsSeqRef.current.get(delta.sport) ?? 0
+
+      // Missed a delta - drop it and ask for the full snapshot
+      if (delta.seq !== seq + 1) {
+        if (delta.seq > seq) socket.emit('odds:resync', delta.sport)
+        return
+      }
+
+      oddsSeqRef.current.set(delta.sport, delta.seq)
+      setOdds(prev => ({ ...prev, [delta.sport]: applyOddsDelta(prev[delta.sport] || [], delta) }))
+    })
+
     // Steam move events
     socket.on('steam:move', (move: SteamMove) => {
       console.log('[WS] Steam move:', move.game, move.change)
@@ -160,6 +310,7 @@ export function useSocket(token?: string | null) {
 
   // Subscribe to sport
   const subscribeSport = useCallback((sport: string) => {
+    sportsRef.current.add(sport.toLowerCase())
     if (socketRef.current?.connected) {
       socketRef.current.emit('subscribe:sport', sport)
     }
@@ -167,6 +318,8 @@ export function useSocket(token?: string | null) {
 
   // Unsubscribe from sport
   const unsubscribeSport = useCallback((sport: string) => {
+    sportsRef.current.delete(sport.toLowerCase())
+    oddsSeqRef.current.delete(sport.toLowerCase())
     if (socketRef.current?.connected) {
       socketRef.current.emit('unsubscribe:sport', sport)
     }
@@ -188,6 +341,7 @@ export function useSocket(token?: string | null) {
     arbitrages,
     lastArbitrage,
     steamMoves,
+    odds,
     subscribeSport,
     unsubscribeSport,
     clearArbitrages,
@@ -33,6 +33,9 @@ export interface Signal {
     description: string
     confidence: number
     ttl: number
+    game?: string
+    evPercent?: number
+    bookmaker?: string
   }
   evidence: {
     books: string[]
@@ -42,6 +45,12 @@ export interface Signal {
     profit?: number
     timestamp: number
   }
+  analysis?: {          // EV signals: the offered price against fair
+    fairOdds: number
+    currentOdds: number
+    edge: number
+    model: string
+  }
   createdAt: number
   expiresAt: number
 }
@@ -60,9 +69,19 @@ export interface NodeConfig {
     minArbProfit: number
     minSteamDelta: number
     autoPublish: boolean
+    bankroll: number
+    kellyFraction: number   // 0.25 = quarter Kelly
+    maxStakePercent: number // Cap per bet, % of bankroll
   }
 }
 
+// A sized bet from the bankroll strategy
+export interface SniperStake {
+  stake: number
+  fullKelly?: number
+  capped: boolean
+}
+
 export interface NetworkStats {
   activeNodes: number
   signalsToday: number
@@ -88,11 +107,6 @@ function getNodeId(): string {
 }
 
 function getNodeConfig(): NodeConfig {
-  const stored = localStorage.getItem(NODE_CONFIG_KEY)
-  if (stored) {
-    return JSON.parse(stored)
-  }
-
   const defaultConfig: NodeConfig = {
     watching: {
       sports: ['nba', 'nfl'],
@@ -106,10 +120,20 @@ function getNodeConfig(): NodeConfig {
     settings: {
       minArbProfit: 1.0,
       minSteamDelta: 2.0,
-      autoPublish: true
+      autoPublish: true,
+      bankroll: 1000,
+      kellyFraction: 0.25,
+      maxStakePercent: 5
     }
   }
 
+  const stored = localStorage.getItem(NODE_CONFIG_KEY)
+  if (stored) {
+    // Configs saved before a setting existed get its default
+    const config = JSON.parse(stored) as NodeConfig
+    return { ...config, settings: { ...defaultConfig.settings, ...config.settings } }
+  }
+
   localStorage.setItem(NODE_CONFIG_KEY, JSON.stringify(defaultConfig))
   return defaultConfig
 }
@@ -412,8 +436,8 @@ export class AgentNode {
       this.steamChaserWorkflow(signal)
     }
 
-    // Sniper workflow (for arb signals)
-    if (signal.type === 'arb' && this.config.agents.sniper) {
+    // Sniper workflow (for arb and +EV signals)
+    if ((signal.type === 'arb' || signal.type === 'ev') && this.config.agents.sniper) {
       this.sniperWorkflow(signal)
     }
   }
@@ -432,12 +456,18 @@ export class AgentNode {
     }
   }
 
-  private sniperWorkflow(signal: Signal): void {
+  private async sniperWorkflow(signal: Signal): Promise<void> {
     // TODO: Validate odds still live
-    // TODO: Check bankroll strategy
     // TODO: Execute via browser automation
 
-    console.log(`[SNIPER] Processing arb signal: ${signal.payload.description}`)
+    console.log(`[SNIPER] Processing ${signal.type} signal: ${signal.payload.description}`)
+
+    const sized = await this.sizeStake(signal)
+    if (!sized || sized.stake <= 0) {
+      console.log('[SNIPER] No stake under bankroll strategy, skipping')
+      return
+    }
+    console.log(`[SNIPER] Stake $${sized.stake.toFixed(2)}${sized.capped ? ' (capped)' : ''}`)
 
     if (signal.evidence.profit && signal.evidence.profit >= 2) {
       console.log(`[SNIPER] HIGH VALUE ARB: ${signal.evidence.profit}%`)
@@ -445,6 +475,42 @@ export class AgentNode {
     }
   }
 
+  /**
+   * Bankroll strategy: +EV bets are sized with fractional Kelly by the API,
+   * arbs carry no risk so they take the per-bet cap
+   */
+  private async sizeStake(signal: Signal): Promise<SniperStake | null> {
+    const { bankroll, kellyFraction, maxStakePercent } = this.config.settings
+
+    if (signal.type === 'arb') {
+      return { stake: Math.round(bankroll * maxStakePercent) / 100, capped: true }
+    }
+    if (!signal.analysis) return null
+
+    try {
+      const response = await fetch(`${API_URL}/api/sizing/kelly`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bankroll,
+          fraction: kellyFraction,
+          maxStakePercent,
+          bets: [{ bet: signal.payload.description, odds: signal.analysis.currentOdds, fairOdds: signal.analysis.fairOdds }]
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        console.warn('[SNIPER] Kelly sizing rejected:', data.error)
+        return null
+      }
+      const [sized] = data.stakes
+      return { stake: sized.stake, fullKelly: sized.fullKelly, capped: sized.capped }
+    } catch (err) {
+      console.error('[SNIPER] Kelly sizing failed:', err)
+      return null
+    }
+  }
+
   // ============================================
   // CONFIG & STATE
   // ============================================
@@ -1,18 +1,20 @@
 import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
-import { Activity, TrendingUp, DollarSign, Bell, RefreshCw, User, LogOut, Users, Home } from 'lucide-react'
+import { Activity, TrendingUp, DollarSign, Bell, RefreshCw, User, LogOut, Users, Home, Gift, Percent } from 'lucide-react'
 import Logo from '../components/Logo'
 import LiveOdds from '../components/LiveOdds'
 import ArbitrageScanner from '../components/ArbitrageScanner'
 import LineMovement from '../components/LineMovement'
 import AlertSettings from '../components/AlertSettings'
 import PlayerProps from '../components/PlayerProps'
+import PromoConverter from '../components/PromoConverter'
+import MarketHolds from '../components/MarketHolds'
 import LiveOddsTicker from '../components/LiveOddsTicker'
 import AuthModal from '../components/AuthModal'
 import { useAuth } from '../hooks/useAuth'
 
 type Sport = 'nba' | 'nfl' | 'mlb' | 'nhl'
-type Tab = 'odds' | 'arbitrage' | 'movement' | 'props' | 'alerts'
+type Tab = 'odds' | 'arbitrage' | 'movement' | 'props' | 'promos' | 'holds' | 'alerts'
 
 export default function DashboardPage() {
   const [sport, setSport] = useState<Sport>('nba')
@@ -195,6 +197,28 @@ export default function DashboardPage() {
             <Users className="w-4 h-4" />
             Player Props
           </button>
+          <button
+            onClick={() => setActiveTab('promos')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all whitespace-nowrap ${
+              activeTab === 'promos'
+                ? 'bg-pink-500/20 text-pink-400 border border-pink-500/50'
+                : 'text-gray-400 hover:text-white hover:bg-gray-800'
+            }`}
+          >
+            <Gift className="w-4 h-4" />
+            Promos
+          </button>
+          <button
+            onClick={() => setActiveTab('holds')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all whitespace-nowrap ${
+              activeTab === 'holds'
+                ? 'bg-cyan-500/20 text-cyan-400 border border-cyan-500/50'
+                : 'text-gray-400 hover:text-white hover:bg-gray-800'
+            }`}
+          >
+            <Percent className="w-4 h-4" />
+            Hold
+          </button>
           <button
             onClick={() => setActiveTab('alerts')}
             className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all whitespace-nowrap ${
@@ -215,6 +239,8 @@ export default function DashboardPage() {
         {activeTab === 'arbitrage' && <ArbitrageScanner sport={sport} />}
         {activeTab === 'movement' && <LineMovement sport={sport} />}
         {activeTab === 'props' && <PlayerProps sport={sport} token={token} />}
+        {activeTab === 'promos' && <PromoConverter sport={sport} />}
+        {activeTab === 'holds' && <MarketHolds sport={sport} />}
         {activeTab === 'alerts' && <AlertSettings />}
       </main>
 
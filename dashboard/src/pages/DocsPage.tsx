@@ -375,8 +375,16 @@ export default function DocsPage() {
   auth: { token: 'your-access-token' }
 })
 
-socket.on('odds:update', (data) => {
-  console.log('New odds:', data)
+socket.emit('subscribe:sport', 'nba')
+
+// Full game list on subscribe, then only changed prices
+socket.on('odds:snapshot', (snapshot) => {
+  console.log('Odds snapshot:', snapshot.seq, snapshot.games)
+})
+
+socket.on('odds:delta', (delta) => {
+  // Apply in order; on a sequence gap request a fresh snapshot
+  console.log('Odds changes:', delta.seq, delta.books)
 })
 
 socket.on('arbitrage:alert', (data) => {
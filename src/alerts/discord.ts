@@ -11,14 +11,7 @@ interface DiscordEmbed {
 interface ArbitrageAlert {
   game: string;
   profit: number;
-  book1: string;
-  bet1: string;
-  odds1: number;
-  stake1: number;
-  book2: string;
-  bet2: string;
-  odds2: number;
-  stake2: number;
+  legs: { book: string; bet: string; odds: number; stake: number }[];
 }
 
 // Affiliate link mapping
@@ -77,21 +70,20 @@ export class DiscordService {
   }
 
   async sendArbitrageAlert(arb: ArbitrageAlert): Promise<boolean> {
-    const link1 = getAffiliateLink(arb.book1);
-    const link2 = getAffiliateLink(arb.book2);
-    const bonus1 = getSignupBonus(arb.book1);
-    const bonus2 = getSignupBonus(arb.book2);
-
     const fields = [
-      { name: arb.book1, value: `${arb.bet1}\n${arb.odds1} (${arb.stake1}%)`, inline: true },
-      { name: arb.book2, value: `${arb.bet2}\n${arb.odds2} (${arb.stake2}%)`, inline: true },
+      ...arb.legs.map(leg => ({ name: leg.book, value: `${leg.bet}\n${leg.odds} (${leg.stake}%)`, inline: true })),
       { name: 'Guaranteed Profit', value: `${arb.profit.toFixed(2)}%`, inline: false }
     ];
 
     // Add affiliate links field
+    const seenLinks = new Set<string>();
     let signupLinks = '';
-    if (link1) signupLinks += `[${arb.book1} - ${bonus1}](${link1})\n`;
-    if (link2 && link2 !== link1) signupLinks += `[${arb.book2} - ${bonus2}](${link2})`;
+    for (const leg of arb.legs) {
+      const link = getAffiliateLink(leg.book);
+      if (!link || seenLinks.has(link)) continue;
+      seenLinks.add(link);
+      signupLinks += `[${leg.book} - ${getSignupBonus(leg.book)}](${link})\n`;
+    }
 
     if (signupLinks) {
       fields.push({ name: '💎 New User Bonuses', value: signupLinks, inline: false });
@@ -10,12 +10,7 @@ interface AlertPayload {
 interface ArbitrageAlert {
   game: string;
   profit: number;
-  book1: string;
-  bet1: string;
-  odds1: number;
-  book2: string;
-  bet2: string;
-  odds2: number;
+  legs: { book: string; bet: string; odds: number }[];
 }
 
 // Affiliate link mapping
@@ -83,21 +78,21 @@ export class TelegramService {
   }
 
   async sendArbitrageAlert(arb: ArbitrageAlert): Promise<boolean> {
-    const link1 = getAffiliateLink(arb.book1);
-    const link2 = getAffiliateLink(arb.book2);
-    const bonus1 = getSignupBonus(arb.book1);
-    const bonus2 = getSignupBonus(arb.book2);
+    const seenLinks = new Set<string>();
 
     let affiliateSection = '\n\n💎 *New to these books?*\n';
-    if (link1) affiliateSection += `• [${arb.book1} - ${bonus1}](${link1})\n`;
-    if (link2 && link2 !== link1) affiliateSection += `• [${arb.book2} - ${bonus2}](${link2})\n`;
+    for (const leg of arb.legs) {
+      const link = getAffiliateLink(leg.book);
+      if (!link || seenLinks.has(link)) continue;
+      seenLinks.add(link);
+      affiliateSection += `• [${leg.book} - ${getSignupBonus(leg.book)}](${link})\n`;
+    }
 
     return this.sendAlert({
       type: 'arbitrage',
       title: `💰 ${arb.profit.toFixed(2)}% Arbitrage Found!`,
       body: `*${arb.game}*\n\n` +
-        `📍 ${arb.book1}: ${arb.bet1} @ ${arb.odds1}\n` +
-        `📍 ${arb.book2}: ${arb.bet2} @ ${arb.odds2}\n\n` +
+        arb.legs.map(leg => `📍 ${leg.book}: ${leg.bet} @ ${leg.odds}\n`).join('') + '\n' +
         `_Act fast - window closes quickly!_` +
         affiliateSection,
       urgency: arb.profit > 3 ? 'high' : 'medium'
@@ -6,8 +6,14 @@ import {
   Tool
 } from "@modelcontextprotocol/sdk/types.js";
 import { OddsApiService, ArbitrageOpportunity, FormattedOdds } from "./services/odds-api.js";
+import { OddsProviderRegistry } from "./services/odds-providers.js";
 import { PlayerPropsService, PlayerProp, PlayerPropComparison } from "./services/player-props.js";
 import { TimescaleService, LineMovement } from "./services/timescale.js";
+import { StakePlanner, StakeLegInput, BookLimits } from "./services/stake-planner.js";
+import { PromoConverter, PromoType } from "./services/promo-converter.js";
+import { KellySizer, KellyScenario } from "./services/kelly.js";
+import { BallDontLieService } from "./services/balldontlie.js";
+import { PropProjector, PropPricing } from "./services/projections.js";
 import { TelegramService } from "./alerts/telegram.js";
 import { DiscordService } from "./alerts/discord.js";
 import dotenv from "dotenv";
@@ -16,10 +22,23 @@ dotenv.config();
 
 // Initialize services
 const oddsApi = new OddsApiService();
+const oddsProviders = new OddsProviderRegistry().register(oddsApi);
 const propsService = new PlayerPropsService();
 const timescale = new TimescaleService();
 const telegram = new TelegramService();
 const discord = new DiscordService();
+const stakePlanner = new StakePlanner();
+const promoConverter = new PromoConverter();
+const kellySizer = new KellySizer();
+const ballDontLie = new BallDontLieService();
+const projector = new PropProjector();
+
+// Apify scrapers are optional; apify-client is only loaded when a token is set
+if (process.env.APIFY_TOKEN) {
+  import("./services/apify.js")
+    .then(({ ApifyIntegration }) => oddsProviders.register(new ApifyIntegration()))
+    .catch(error => console.error("Apify provider unavailable:", error.message));
+}
 
 // Connect to TimescaleDB
 timescale.connect().catch(() => console.error('TimescaleDB unavailable'));
@@ -50,14 +69,114 @@ const AVAILABLE_TOOLS: Tool[] = [
       required: ["sport"]
     }
   },
+  {
+    name: "size_bet",
+    description: "Size +EV bets with full, fractional and capped Kelly from fair win probability, offered odds and bankroll. Bets on the same game are sized together (simultaneous Kelly).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        bets: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              bet: { type: "string" },
+              odds: { type: "number", description: "Offered American odds" },
+              probability: { type: "number", description: "Fair win probability (0-1)" },
+              fair_odds: { type: "number", description: "Fair American odds, instead of probability" },
+              commission: { type: "number", description: "Exchange commission on net winnings, e.g. 0.02" }
+            },
+            required: ["odds"]
+          }
+        },
+        bankroll: { type: "number" },
+        fraction: { type: "number", default: 0.25, description: "Kelly fraction (0.25 = quarter Kelly)" },
+        max_stake_percent: { type: "number", default: 5, description: "Cap per bet, % of bankroll" },
+        max_total_percent: { type: "number", description: "Cap across all bets, % of bankroll" },
+        correlation: { type: "string", enum: ["independent", "exclusive"], default: "independent", description: "exclusive = outcomes of the same result (at most one wins)" },
+        scenarios: {
+          type: "array",
+          description: "Joint outcomes for correlated bets: probability and indexes of the bets that win (the remainder is all bets losing)",
+          items: {
+            type: "object",
+            properties: {
+              probability: { type: "number" },
+              wins: { type: "array", items: { type: "number" } }
+            },
+            required: ["probability", "wins"]
+          }
+        }
+      },
+      required: ["bets", "bankroll"]
+    }
+  },
+  {
+    name: "plan_stakes",
+    description: "Plan exact dollar stakes for an arbitrage given bankroll, per-book balances/max bets, exchange commission, liquidity and rounding",
+    inputSchema: {
+      type: "object",
+      properties: {
+        legs: {
+          type: "array",
+          description: "One entry per outcome",
+          items: {
+            type: "object",
+            properties: {
+              book: { type: "string" },
+              bet: { type: "string" },
+              odds: { type: "number", description: "American odds (the lay price for lay legs)" },
+              side: { type: "string", enum: ["back", "lay"], default: "back", description: "lay = lay the other outcome on an exchange" },
+              max_stake: { type: "number", description: "Liquidity available at this price ($, liability for lays)" }
+            },
+            required: ["book", "odds"]
+          }
+        },
+        bankroll: { type: "number", description: "Total to stake across all legs" },
+        book_limits: {
+          type: "object",
+          description: "Per book: { balance, max_bet, commission }",
+          additionalProperties: {
+            type: "object",
+            properties: {
+              balance: { type: "number" },
+              max_bet: { type: "number" },
+              commission: { type: "number", description: "Exchange commission on net winnings, e.g. 0.02" }
+            }
+          }
+        },
+        rounding: { type: "number", default: 1, description: "Stake multiple in dollars (1 = whole dollars, 5 = $5s)" }
+      },
+      required: ["legs", "bankroll"]
+    }
+  },
+  {
+    name: "convert_promo",
+    description: "Find the best hedge for a bet credit, profit boost or no-sweat bet across all books and markets, ranked by guaranteed conversion rate",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sport: { type: "string", enum: ["nfl", "nba", "mlb", "nhl", "ncaaf", "ncaab"] },
+        promo_type: { type: "string", enum: ["bet_credit", "profit_boost", "no_sweat"] },
+        amount: { type: "number", description: "Credit amount, or max stake for boosts / no-sweat bets" },
+        book: { type: "string", description: "Book offering the promo (all books if omitted)" },
+        boost: { type: "number", description: "Profit boost as a fraction (0.5 = 50%)" },
+        refund_conversion: { type: "number", default: 0.7, description: "No-sweat: expected conversion of the refunded credit" },
+        min_odds: { type: "number", description: "Shortest American odds the promo terms allow" },
+        limit: { type: "number", default: 5 }
+      },
+      required: ["sport", "promo_type", "amount"]
+    }
+  },
   {
     name: "analyze_player",
-    description: "Player analysis with real-time odds from DraftKings/FanDuel via Apify",
+    description: "Project a player's stats from their game logs and minutes, and rank their props by edge at the best available price",
     inputSchema: {
       type: "object",
       properties: {
         player_name: { type: "string" },
-        sport: { type: "string", enum: ["nfl", "nba", "mlb", "nhl"] }
+        sport: { type: "string", enum: ["nfl", "nba", "mlb", "nhl"] },
+        minutes: { type: "number", description: "Expected minutes (defaults to the recent average)" },
+        games: { type: "number", default: 20, description: "Most recent games to fit on" }
       },
       required: ["player_name", "sport"]
     }
@@ -148,7 +267,7 @@ class SportIntelMCPServer {
   private async executeTool(name: string, args: Record<string, unknown>) {
     switch (name) {
       case "get_live_odds": {
-        const odds = await oddsApi.getLiveOdds(args.sport as string);
+        const odds = await oddsProviders.getLiveOdds(args.sport as string);
         const remaining = oddsApi.getRemainingRequests();
         
         // Store in TimescaleDB for historical tracking
@@ -205,7 +324,8 @@ class SportIntelMCPServer {
 
       case "find_arbitrage": {
         const minProfit = (args.min_profit as number) || 1;
-        const arbs = await oddsApi.findArbitrage(args.sport as string, minProfit);
+        const odds = await oddsProviders.getLiveOdds(args.sport as string);
+        const arbs = oddsApi.findArbitrageInOdds(odds, minProfit);
         const remaining = oddsApi.getRemainingRequests();
         
         if (arbs.length === 0) {
@@ -219,23 +339,15 @@ class SportIntelMCPServer {
 
         // Send alerts for found arbitrage
         for (const a of arbs) {
-          await telegram.sendArbitrageAlert({
-            game: a.game, profit: a.profit,
-            book1: a.book1.name, bet1: a.book1.bet, odds1: a.book1.odds,
-            book2: a.book2.name, bet2: a.book2.bet, odds2: a.book2.odds
-          });
-          await discord.sendArbitrageAlert({
-            game: a.game, profit: a.profit,
-            book1: a.book1.name, bet1: a.book1.bet, odds1: a.book1.odds, stake1: a.stake1Pct,
-            book2: a.book2.name, bet2: a.book2.bet, odds2: a.book2.odds, stake2: a.stake2Pct
-          });
+          const legs = a.legs.map(leg => ({ book: leg.name, bet: leg.bet, odds: leg.odds, stake: leg.stakePct }));
+          await telegram.sendArbitrageAlert({ game: a.game, profit: a.profit, legs });
+          await discord.sendArbitrageAlert({ game: a.game, profit: a.profit, legs });
         }
 
         const arbText = arbs.map((a: ArbitrageOpportunity) => 
-          `### ${a.game}\n💰 **${a.profit}% Profit**\n\n` +
+          `### ${a.game}\n💰 **${a.profit}% Profit** (${a.type})\n\n` +
           `| Book | Bet | Odds | Stake |\n|------|-----|------|-------|\n` +
-          `| ${a.book1.name} | ${a.book1.bet} | ${a.book1.odds} | ${a.stake1Pct}% |\n` +
-          `| ${a.book2.name} | ${a.book2.bet} | ${a.book2.odds} | ${a.stake2Pct}% |`
+          a.legs.map(leg => `| ${leg.name} | ${leg.bet} | ${leg.odds} | ${leg.stakePct}% |`).join('\n')
         ).join('\n\n---\n\n');
 
         return {
@@ -246,7 +358,208 @@ class SportIntelMCPServer {
         };
       }
 
-      case "analyze_player":
+      case "size_bet": {
+        const bets = (args.bets as { bet?: string; odds: number; probability?: number; fair_odds?: number; commission?: number }[])
+          .map(bet => ({
+            bet: bet.bet,
+            odds: bet.odds,
+            probability: bet.probability,
+            fairOdds: bet.fair_odds,
+            commission: bet.commission
+          }));
+
+        const result = kellySizer.size({
+          bankroll: args.bankroll as number,
+          bets,
+          fraction: args.fraction as number | undefined,
+          maxStakePercent: args.max_stake_percent as number | undefined,
+          maxTotalPercent: args.max_total_percent as number | undefined,
+          correlation: args.correlation as 'independent' | 'exclusive' | undefined,
+          scenarios: args.scenarios as KellyScenario[] | undefined
+        });
+
+        const rows = result.stakes.map(s =>
+          `| ${s.bet} | ${s.odds > 0 ? '+' : ''}${s.odds} | ${s.probability}% | ${s.edge > 0 ? '+' : ''}${s.edge}% | $${s.fullKelly.toFixed(2)} | $${s.fractionalKelly.toFixed(2)} | $${s.stake.toFixed(2)}${s.capped ? ' (capped)' : ''} |`
+        ).join('\n');
+
+        return {
+          content: [{
+            type: "text",
+            text: `## 📐 Kelly Sizing (${result.fraction}x Kelly${result.simultaneous ? ', simultaneous' : ''})\n\n` +
+              `| Bet | Odds | Fair Prob | Edge | Full Kelly | Fractional | Stake |\n|-----|------|-----------|------|------------|------------|-------|\n${rows}\n\n` +
+              `**Total Staked:** $${result.totalStake.toFixed(2)}\n` +
+              `**Expected Profit:** $${result.expectedProfit.toFixed(2)}\n` +
+              `**Expected Growth:** ${result.expectedGrowth}% of bankroll (log)`
+          }]
+        };
+      }
+
+      case "plan_stakes": {
+        const limits = (args.book_limits || {}) as Record<string, { balance?: number; max_bet?: number; commission?: number }>;
+        const books: Record<string, BookLimits> = {};
+        for (const [book, limit] of Object.entries(limits)) {
+          books[book] = { balance: limit.balance, maxBet: limit.max_bet, commission: limit.commission };
+        }
+
+        const legs = (args.legs as { book: string; bet?: string; odds: number; side?: string; max_stake?: number }[])
+          .map((leg): StakeLegInput => ({
+            book: leg.book,
+            bet: leg.bet,
+            odds: leg.odds,
+            side: leg.side === 'lay' ? 'lay' : undefined,
+            maxStake: leg.max_stake
+          }));
+
+        const plan = stakePlanner.plan({
+          legs,
+          bankroll: args.bankroll as number,
+          books,
+          rounding: (args.rounding as number) ?? 1
+        });
+
+        const binding = plan.binding.type === 'bankroll'
+          ? `bankroll ($${plan.binding.limit})`
+          : `${plan.binding.book} ${{ maxBet: 'max bet', balance: 'balance', liquidity: 'liquidity' }[plan.binding.type]} ($${plan.binding.limit})`;
+        const signed = (n: number) => `${n < 0 ? '-' : '+'}$${Math.abs(n).toFixed(2)}`;
+        const rows = plan.stakes.map(s =>
+          `| ${s.book} | ${s.bet}${s.layStake !== undefined ? ` (lay, backer's stake $${s.layStake.toFixed(2)})` : ''} | ${s.odds > 0 ? '+' : ''}${s.odds} | $${s.stake.toFixed(2)} | $${s.payout.toFixed(2)} |`
+        ).join('\n');
+
+        return {
+          content: [{
+            type: "text",
+            text: `## 💵 Stake Plan\n\n` +
+              `| Book | Bet | Odds | Stake | Payout |\n|------|-----|------|-------|--------|\n${rows}\n\n` +
+              `**Total Staked:** $${plan.totalStake.toFixed(2)}\n` +
+              `**Worst Case:** ${signed(plan.worstCase)} (${plan.worstCasePct}%)\n` +
+              `**Best Case:** ${signed(plan.bestCase)} (${plan.bestCasePct}%)\n` +
+              `**Binding Constraint:** ${binding}\n` +
+              (plan.roundingCost > 0 ? `\n*Rounding cost $${plan.roundingCost.toFixed(2)} of worst-case profit*` : '')
+          }]
+        };
+      }
+
+      case "convert_promo": {
+        const odds = await oddsProviders.getLiveOdds(args.sport as string);
+        const options = promoConverter.convert(odds, {
+          type: args.promo_type as PromoType,
+          amount: args.amount as number,
+          book: args.book as string | undefined,
+          boost: args.boost as number | undefined,
+          refundConversion: args.refund_conversion as number | undefined,
+          minOdds: args.min_odds as number | undefined,
+          limit: (args.limit as number) || 5
+        });
+
+        const title = `## 🎁 Promo Conversion: $${args.amount} ${(args.promo_type as string).replace('_', ' ')}`;
+        if (options.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: `${title}\n\nNo hedge found${args.book ? ` for ${args.book}` : ''}. Needs the promo book and at least one other book quoting the same market.`
+            }]
+          };
+        }
+
+        const optionText = options.map((o, i) =>
+          `### ${i + 1}. ${o.game} - ${o.market}\n` +
+          `💰 **${o.conversion}% conversion** ($${o.profit.toFixed(2)} guaranteed)\n\n` +
+          `| Book | Bet | Odds | Stake |\n|------|-----|------|-------|\n` +
+          `| ${o.promo.book} (promo) | ${o.promo.bet} | ${o.promo.odds > 0 ? '+' : ''}${o.promo.odds} | $${o.promo.stake.toFixed(2)} |\n` +
+          o.hedges.map(h => `| ${h.book} | ${h.bet} | ${h.odds > 0 ? '+' : ''}${h.odds} | $${h.stake.toFixed(2)} |`).join('\n')
+        ).join('\n\n---\n\n');
+
+        return {
+          content: [{
+            type: "text",
+            text: `${title}\n\n${optionText}`
+          }]
+        };
+      }
+
+      case "analyze_player": {
+        const sport = args.sport as string;
+        const playerName = args.player_name as string;
+        const formatOdds = (odds: number) => `${odds > 0 ? '+' : ''}${odds}`;
+
+        // Game logs come from BallDontLie, which only covers the NBA
+        if (sport !== 'nba') {
+          return {
+            content: [{
+              type: "text",
+              text: `## 🎯 Player Analysis: ${playerName}\n\n` +
+                `Projections are built from NBA game logs; no stats source for ${sport.toUpperCase()} yet.\n\n` +
+                `💡 *Use \`get_player_props\` to compare ${sport.toUpperCase()} prop prices across books*`
+            }]
+          };
+        }
+
+        try {
+          const analysis = await ballDontLie.analyzePlayer(playerName);
+          if (!analysis) {
+            return {
+              content: [{ type: "text", text: `## 🎯 Player Analysis\n\nNo NBA player found matching "${playerName}".` }]
+            };
+          }
+
+          const fullName = `${analysis.player.first_name} ${analysis.player.last_name}`;
+          const options = { minutes: args.minutes as number | undefined, games: args.games as number | undefined };
+          const props = (await propsService.getPlayerProps(sport, { playerName: fullName }))
+            .filter(p => p.player.toLowerCase() === fullName.toLowerCase());
+          const pricings = projector.priceProps(analysis.gameLogs, props, options);
+
+          const projections = projector.getSupportedMarkets()
+            .map(market => projector.project(analysis.gameLogs, market, options))
+            .filter(p => p !== null);
+
+          if (projections.length === 0) {
+            return {
+              content: [{
+                type: "text",
+                text: `## 🎯 Player Analysis: ${fullName}\n\nNot enough games with minutes this season to project.`
+              }]
+            };
+          }
+
+          const projectionText = `| Stat | Projection | 10th-90th | Distribution |\n|------|------------|-----------|--------------|\n` +
+            projections.map(p =>
+              `| ${p.stat} | ${p.mean} | ${projector.quantile(p, 0.1)}-${projector.quantile(p, 0.9)} | ${p.distribution.replace('_', ' ')} |`
+            ).join('\n');
+
+          const price = (pricing: PropPricing, side: 'over' | 'under') => {
+            const best = side === 'over' ? pricing.bestOver : pricing.bestUnder;
+            return best ? `${formatOdds(best.odds)} ${best.book}` : '-';
+          };
+          const propText = pricings.length > 0
+            ? `| Prop | Line | Proj | Over | Under | Best Over | Best Under | Play | Edge |\n` +
+              `|------|------|------|------|-------|-----------|------------|------|------|\n` +
+              pricings.slice(0, 10).map(p =>
+                `| ${p.marketLabel} | ${p.line} | ${p.projection.mean} | ${p.overProbability}% | ${p.underProbability}% | ` +
+                `${price(p, 'over')} | ${price(p, 'under')} | ${p.side === 'over' ? 'Over' : 'Under'} | ` +
+                `${p.edge > 0 ? '+' : ''}${p.edge}% |`
+              ).join('\n')
+            : `No props posted for ${fullName} yet.`;
+
+          return {
+            content: [{
+              type: "text",
+              text: `## 🎯 Player Analysis: ${fullName} (${analysis.player.team.abbreviation})\n\n` +
+                `**Form:** ${analysis.trend} | **Minutes:** ${projections[0].minutes} | **Games fitted:** ${projections[0].games}\n\n` +
+                `### Projections\n${projectionText}\n\n` +
+                `### Props by Edge\n${propText}\n\n` +
+                `💡 *Edge is expected profit per $1 at the best price; whole-number lines return the stake on a push*`
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `## 🎯 Player Analysis\n\n⚠️ ${error instanceof Error ? error.message : 'Analysis failed'}`
+            }]
+          };
+        }
+      }
+
       case "get_player_props": {
         const playerName = args.player_name as string | undefined;
 
@@ -329,7 +642,7 @@ class SportIntelMCPServer {
       }
 
       case "optimize_lineup": {
-        const odds = await oddsApi.getLiveOdds(args.sport as string);
+        const odds = await oddsProviders.getLiveOdds(args.sport as string);
         
         const valueText = odds.slice(0, 5).map((g: FormattedOdds) => {
           const dk = g.odds.draftkings;
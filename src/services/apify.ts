@@ -1,4 +1,6 @@
 import { ApifyClient } from 'apify-client';
+import { FormattedOdds } from './odds-api.js';
+import { OddsProvider } from './odds-providers.js';
 
 const client = new ApifyClient({
   token: process.env.APIFY_TOKEN || 'demo-token'
@@ -15,6 +17,9 @@ export interface PlayerProp {
 export interface OddsData {
   sport: string;
   game: string;
+  homeTeam?: string;
+  awayTeam?: string;
+  startTime?: string;
   odds: {
     home: number;
     away: number;
@@ -27,28 +32,95 @@ export interface ArbitrageOpportunity {
   profit: number;
 }
 
-export class ApifyIntegration {
+export class ApifyIntegration implements OddsProvider {
+  readonly name = 'apify';
+  readonly priority = 5;
+
   private actors = {
     draftkings: 'syntellect_ai/draftkings-api-actor',
     fanduel: 'syntellect_ai/fanduel-scraper',
     prizepicks: 'syntellect_ai/prizepicks-api'
   };
 
+  isConfigured(): boolean {
+    return !!process.env.APIFY_TOKEN;
+  }
+
   async getDraftKingsOdds(sport: string): Promise<OddsData[]> {
     try {
-      const run = await client.actor(this.actors.draftkings).call({
-        sport: sport.toUpperCase(),
-        includePlayerProps: true
-      });
-
-      const { items } = await client.dataset(run.defaultDatasetId).listItems();
-      return items as OddsData[];
+      return await this.runActor(this.actors.draftkings, sport);
     } catch (error) {
       // Return mock data if no API key
       return this.getMockOdds(sport);
     }
   }
 
+  // Provider contract: real scraper output only, never mock data
+  async getLiveOdds(sport: string): Promise<FormattedOdds[]> {
+    const [dk, fd] = await Promise.all([
+      this.runActor(this.actors.draftkings, sport),
+      this.runActor(this.actors.fanduel, sport)
+    ]);
+
+    const games = new Map<string, FormattedOdds>();
+
+    for (const [book, items] of [['draftkings', dk], ['fanduel', fd]] as const) {
+      for (const item of items) {
+        const teams = this.getTeams(item);
+        if (!teams) continue;
+        const { homeTeam, awayTeam } = teams;
+
+        // No start time leaves startTime empty, so events match on teams alone
+        const start = item.startTime ? new Date(item.startTime) : null;
+        const hasStart = start !== null && !isNaN(start.getTime());
+
+        const id = `${awayTeam}-${homeTeam}`.toLowerCase().replace(/\s+/g, '-');
+        if (!games.has(id)) {
+          games.set(id, {
+            id,
+            game: `${awayTeam} @ ${homeTeam}`,
+            homeTeam,
+            awayTeam,
+            startTime: hasStart ? start!.toLocaleString() : '',
+            timestamp: hasStart ? start!.getTime() : Date.now(),
+            odds: {}
+          });
+        }
+
+        // Scrapers don't report when the book last moved - no updatedAt, so priority decides
+        games.get(id)!.odds[book] = {
+          home: item.odds.home,
+          away: item.odds.away
+        };
+      }
+    }
+
+    return Array.from(games.values());
+  }
+
+  /**
+   * Home and away for a scraped event: explicit fields when the actor gives
+   * them, else an "Away @ Home" title. "A vs B" titles don't say which side
+   * is home, so those events are skipped rather than risk flipping prices.
+   */
+  private getTeams(item: OddsData): { homeTeam: string; awayTeam: string } | null {
+    if (item.homeTeam && item.awayTeam) return { homeTeam: item.homeTeam, awayTeam: item.awayTeam };
+
+    const [awayTeam, homeTeam, extra] = (item.game || '').split(/\s+@\s+/);
+    if (!awayTeam || !homeTeam || extra !== undefined) return null;
+    return { homeTeam: homeTeam.trim(), awayTeam: awayTeam.trim() };
+  }
+
+  private async runActor(actor: string, sport: string): Promise<OddsData[]> {
+    const run = await client.actor(actor).call({
+      sport: sport.toUpperCase(),
+      includePlayerProps: true
+    });
+
+    const { items } = await client.dataset(run.defaultDatasetId).listItems();
+    return items as OddsData[];
+  }
+
   async findArbitrage(sport: string): Promise<ArbitrageOpportunity[]> {
     const [dk, fd] = await Promise.all([
       this.getDraftKingsOdds(sport),
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { PropProjector, GameLogEntry, MIN_GAMES } from './projections.js';
 
 const BALLDONTLIE_API_KEY = process.env.BALLDONTLIE_API_KEY || '';
 const BALLDONTLIE_API_URL = process.env.BALLDONTLIE_API_URL || 'https://api.balldontlie.io/v1';
@@ -63,6 +64,7 @@ export interface PlayerAnalysis {
   player: Player;
   seasonAvg: SeasonAverages | null;
   last5Games: PlayerStats[];
+  gameLogs: GameLogEntry[];
   trend: 'hot' | 'cold' | 'stable';
   projections: {
     pts: { low: number; mid: number; high: number };
@@ -71,9 +73,15 @@ export interface PlayerAnalysis {
   };
 }
 
+// NBA seasons tip off in October and are named for the year they start in
+export function currentSeason(now: Date = new Date()): number {
+  return now.getMonth() >= 9 ? now.getFullYear() : now.getFullYear() - 1;
+}
+
 export class BallDontLieService {
   private apiKey: string;
   private baseUrl: string;
+  private projector = new PropProjector();
 
   constructor() {
     this.apiKey = BALLDONTLIE_API_KEY;
@@ -108,7 +116,7 @@ export class BallDontLieService {
     return response.data;
   }
 
-  async getPlayerStats(playerId: number, season: number = 2024): Promise<PlayerStats[]> {
+  async getPlayerStats(playerId: number, season: number = currentSeason()): Promise<PlayerStats[]> {
     const response = await this.request<{ data: PlayerStats[] }>('/stats', {
       player_ids: playerId,
       seasons: season,
@@ -117,7 +125,7 @@ export class BallDontLieService {
     return response.data;
   }
 
-  async getSeasonAverages(playerId: number, season: number = 2024): Promise<SeasonAverages | null> {
+  async getSeasonAverages(playerId: number, season: number = currentSeason()): Promise<SeasonAverages | null> {
     const response = await this.request<{ data: SeasonAverages[] }>('/season_averages', {
       player_id: playerId,
       season
@@ -125,7 +133,7 @@ export class BallDontLieService {
     return response.data[0] || null;
   }
 
-  async analyzePlayer(playerName: string): Promise<PlayerAnalysis | null> {
+  async analyzePlayer(playerName: string, season: number = currentSeason()): Promise<PlayerAnalysis | null> {
     // Search for player
     const players = await this.searchPlayer(playerName);
     if (players.length === 0) return null;
@@ -133,11 +141,16 @@ export class BallDontLieService {
     const player = players[0];
     
     // Get season averages and recent stats in parallel
-    const [seasonAvg, allStats] = await Promise.all([
-      this.getSeasonAverages(player.id),
-      this.getPlayerStats(player.id)
+    const [seasonAvg, seasonStats] = await Promise.all([
+      this.getSeasonAverages(player.id, season),
+      this.getPlayerStats(player.id, season)
     ]);
 
+    // Too early in the season to fit on - lean on last season's games too
+    const allStats = this.toGameLogs(seasonStats).length < MIN_GAMES
+      ? [...seasonStats, ...await this.getPlayerStats(player.id, season - 1)]
+      : seasonStats;
+
     // Get last 5 games
     const last5Games = allStats
       .sort((a, b) => new Date(b.game.date).getTime() - new Date(a.game.date).getTime())
@@ -146,13 +159,15 @@ export class BallDontLieService {
     // Calculate trend
     const trend = this.calculateTrend(last5Games, seasonAvg);
 
-    // Generate projections based on recent performance
-    const projections = this.generateProjections(last5Games, seasonAvg);
+    // Fit projections to the game logs
+    const gameLogs = this.toGameLogs(allStats);
+    const projections = this.generateProjections(gameLogs);
 
     return {
       player,
       seasonAvg,
       last5Games,
+      gameLogs,
       trend,
       projections
     };
@@ -170,25 +185,37 @@ export class BallDontLieService {
     return 'stable';
   }
 
-  private generateProjections(last5: PlayerStats[], seasonAvg: SeasonAverages | null) {
-    const calcRange = (stat: 'pts' | 'reb' | 'ast') => {
-      const recentAvg = last5.length > 0 
-        ? last5.reduce((sum, g) => sum + g[stat], 0) / last5.length 
-        : 0;
-      const seasonVal = seasonAvg?.[stat] || recentAvg;
-      const mid = Math.round((recentAvg * 0.6 + seasonVal * 0.4) * 10) / 10;
-      
+  // Games played, with minutes as a number ('34:12' -> 34.2)
+  private toGameLogs(stats: PlayerStats[]): GameLogEntry[] {
+    return stats
+      .map(g => {
+        const [mins, secs] = (g.min || '0').split(':');
+        return {
+          date: g.game.date,
+          minutes: (parseInt(mins) || 0) + (parseInt(secs) || 0) / 60,
+          stats: { pts: g.pts, reb: g.reb, ast: g.ast, stl: g.stl, blk: g.blk, turnover: g.turnover, fg3m: g.fg3m }
+        };
+      })
+      .filter(log => log.minutes > 0);
+  }
+
+  // Mean with a 10th-90th percentile range from each stat's fitted distribution
+  private generateProjections(logs: GameLogEntry[]) {
+    const calcRange = (market: string) => {
+      const projection = this.projector.project(logs, market);
+      if (!projection) return { low: 0, mid: 0, high: 0 };
+
       return {
-        low: Math.round((mid * 0.75) * 10) / 10,
-        mid,
-        high: Math.round((mid * 1.25) * 10) / 10
+        low: this.projector.quantile(projection, 0.1),
+        mid: projection.mean,
+        high: this.projector.quantile(projection, 0.9)
       };
     };
 
     return {
-      pts: calcRange('pts'),
-      reb: calcRange('reb'),
-      ast: calcRange('ast')
+      pts: calcRange('player_points'),
+      reb: calcRange('player_rebounds'),
+      ast: calcRange('player_assists')
     };
   }
 }
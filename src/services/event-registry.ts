@@ -0,0 +1,308 @@
+import fs from 'fs';
+import path from 'path';
+import { FormattedOdds, BookOdds } from './odds-api.js';
+
+// Providers disagree on commence time by minutes, occasionally hours
+const COMMENCE_WINDOW_MS = 3 * 60 * 60 * 1000;
+// Events are forgotten this long after they start (or were last quoted)
+const EVENT_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+// Minimum fuzzy score - one token unique to the team
+const MIN_FUZZY_SCORE = 1;
+
+// Canonical name first, then abbreviation, then other aliases. One table,
+// shared with the API's registry; found from src/services or the dist bundle.
+function loadTeamAliases(): Record<string, string[][]> {
+  const candidates = [
+    path.join(__dirname, '../../api/lib/team-aliases.json'),
+    path.join(__dirname, '../api/lib/team-aliases.json')
+  ];
+  const file = candidates.find(candidate => fs.existsSync(candidate));
+  if (!file) {
+    console.error('team-aliases.json not found, team names will not be canonicalized');
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+const TEAM_ALIASES = loadTeamAliases();
+
+// ============== INTERFACES ==============
+
+export interface CanonicalEvent {
+  id: string;
+  sport: string;
+  homeTeam: string;
+  awayTeam: string;
+  commenceTime: number | null;
+  lastSeen: number;
+}
+
+export interface EventResolution {
+  event: CanonicalEvent;
+  swapped: boolean; // Provider listed home/away the other way round
+}
+
+interface TeamIndex {
+  aliases: Map<string, string>;
+  tokens: Map<string, Set<string>>;
+  abbreviations: Map<string, string>;
+}
+
+// ============== HELPERS ==============
+
+export function normalizeName(name: string): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// ============== REGISTRY ==============
+
+/**
+ * Resolves the same game from different odds providers to one canonical
+ * event. Teams go through per-sport alias tables (fuzzy token match as a
+ * fallback) and events match on teams plus commence time, giving stable
+ * ids like nba-20250114-bos-lal that every provider's quotes merge under.
+ */
+export class EventRegistry {
+  private indexes: Map<string, TeamIndex> = new Map();
+  private events: Map<string, CanonicalEvent> = new Map();
+  private providerIds: Map<string, string> = new Map();
+
+  normalizeTeamName(sport: string, name: string): string {
+    const index = this.getTeamIndex(sport);
+    if (!index) return (name || '').trim();
+
+    const normalized = normalizeName(name);
+    return index.aliases.get(normalized) || this.fuzzyMatch(index, normalized) || (name || '').trim();
+  }
+
+  resolveEvent(
+    sport: string,
+    homeTeam: string,
+    awayTeam: string,
+    commenceTime: number | null,
+    providerEventId?: string,
+    now: number = Date.now()
+  ): EventResolution {
+    const key = sport.toLowerCase();
+    const home = this.normalizeTeamName(key, homeTeam);
+    const away = this.normalizeTeamName(key, awayTeam);
+
+    const knownId = providerEventId ? this.providerIds.get(providerEventId) : undefined;
+    const known = knownId ? this.events.get(knownId) : undefined;
+    if (known) {
+      known.lastSeen = now;
+      return { event: known, swapped: known.homeTeam === away && known.awayTeam === home };
+    }
+
+    let match: EventResolution | null = null;
+    let matchDistance = Infinity;
+
+    for (const event of this.events.values()) {
+      if (event.sport !== key) continue;
+
+      const straight = event.homeTeam === home && event.awayTeam === away;
+      const swapped = event.homeTeam === away && event.awayTeam === home;
+      if (!straight && !swapped) continue;
+
+      // Unknown start times match on teams alone
+      const distance = event.commenceTime === null || commenceTime === null
+        ? COMMENCE_WINDOW_MS
+        : Math.abs(event.commenceTime - commenceTime);
+      if (distance > COMMENCE_WINDOW_MS) continue;
+
+      const score = distance + (swapped ? 1 : 0);
+      if (score < matchDistance) {
+        match = { event, swapped: !straight };
+        matchDistance = score;
+      }
+    }
+
+    if (!match) {
+      this.pruneEvents(now);
+
+      const date = new Date(commenceTime ?? Date.now()).toISOString().slice(0, 10).replace(/-/g, '');
+      const baseId = `${key}-${date}-${this.teamSlug(key, away)}-${this.teamSlug(key, home)}`;
+      let id = baseId;
+      for (let n = 2; this.events.has(id); n++) {
+        id = `${baseId}-${n}`;
+      }
+
+      const event: CanonicalEvent = { id, sport: key, homeTeam: home, awayTeam: away, commenceTime, lastSeen: now };
+      this.events.set(id, event);
+      match = { event, swapped: false };
+    } else {
+      match.event.lastSeen = now;
+      if (match.event.commenceTime === null) match.event.commenceTime = commenceTime;
+    }
+
+    if (providerEventId && providerEventId !== match.event.id) {
+      this.providerIds.set(providerEventId, match.event.id);
+    }
+
+    return match;
+  }
+
+  /**
+   * Canonical id for a known provider event id; unknown ids pass through
+   */
+  resolveGameId(gameId: string): string {
+    if (this.events.has(gameId)) return gameId;
+    return this.providerIds.get(gameId) || gameId;
+  }
+
+  /**
+   * Rewrite a provider's games onto canonical events, flipping home/away
+   * prices when the provider listed the teams reversed
+   */
+  canonicalize(sport: string, games: FormattedOdds[]): FormattedOdds[] {
+    return games.map(game => {
+      // Providers without a start time leave startTime empty
+      const commence = game.startTime ? game.timestamp : null;
+      const { event, swapped } = this.resolveEvent(sport, game.homeTeam, game.awayTeam, commence, game.id);
+
+      const odds: Record<string, BookOdds> = {};
+      for (const [book, bookOdds] of Object.entries(game.odds as Record<string, BookOdds | undefined>)) {
+        if (!bookOdds) continue;
+        odds[book] = swapped
+          ? {
+              ...bookOdds,
+              home: bookOdds.away,
+              away: bookOdds.home,
+              spread: bookOdds.spread !== undefined ? -bookOdds.spread : undefined
+            }
+          : bookOdds;
+      }
+
+      return {
+        ...game,
+        id: event.id,
+        game: `${event.awayTeam} @ ${event.homeTeam}`,
+        homeTeam: event.homeTeam,
+        awayTeam: event.awayTeam,
+        odds
+      };
+    });
+  }
+
+  /**
+   * Forget events long finished, and the provider ids pointing at them
+   */
+  private pruneEvents(now: number): void {
+    for (const [id, event] of this.events) {
+      const reference = event.commenceTime === null ? event.lastSeen : Math.max(event.commenceTime, event.lastSeen);
+      if (now - reference >= EVENT_RETENTION_MS) this.events.delete(id);
+    }
+
+    for (const [providerEventId, id] of this.providerIds) {
+      if (!this.events.has(id)) this.providerIds.delete(providerEventId);
+    }
+  }
+
+  private getTeamIndex(sport: string): TeamIndex | null {
+    const key = sport.toLowerCase();
+    const table = TEAM_ALIASES[key];
+    if (!table) return null;
+
+    const cached = this.indexes.get(key);
+    if (cached) return cached;
+
+    const index: TeamIndex = { aliases: new Map(), tokens: new Map(), abbreviations: new Map() };
+
+    for (const [canonical, abbreviation, ...others] of table) {
+      index.abbreviations.set(canonical, abbreviation.toLowerCase());
+
+      for (const alias of [canonical, abbreviation, ...others]) {
+        const normalized = normalizeName(alias);
+        index.aliases.set(normalized, canonical);
+        // Abbreviations only count as exact matches
+        if (alias === abbreviation) continue;
+
+        for (const token of normalized.split(' ')) {
+          if (!index.tokens.has(token)) index.tokens.set(token, new Set());
+          index.tokens.get(token)!.add(canonical);
+        }
+      }
+    }
+
+    this.indexes.set(key, index);
+    return index;
+  }
+
+  /**
+   * Each input token scores 1 / (teams sharing it), one typo allowed on
+   * longer tokens. The best team must be unique.
+   */
+  private fuzzyMatch(index: TeamIndex, normalized: string): string | null {
+    const scores = new Map<string, number>();
+
+    for (const token of normalized.split(' ')) {
+      let teams = index.tokens.get(token);
+
+      if (!teams && token.length >= 5) {
+        for (const [candidate, candidateTeams] of index.tokens) {
+          if (candidate.length >= 5 && withinOneEdit(token, candidate)) {
+            teams = candidateTeams;
+            break;
+          }
+        }
+      }
+      if (!teams) continue;
+
+      for (const team of teams) {
+        scores.set(team, (scores.get(team) || 0) + 1 / teams.size);
+      }
+    }
+
+    let best: string | null = null;
+    let bestScore = 0;
+    let tied = false;
+
+    for (const [team, score] of scores) {
+      if (score > bestScore) {
+        best = team;
+        bestScore = score;
+        tied = false;
+      } else if (score === bestScore) {
+        tied = true;
+      }
+    }
+
+    return best && !tied && bestScore >= MIN_FUZZY_SCORE ? best : null;
+  }
+
+  private teamSlug(sport: string, canonical: string): string {
+    return this.getTeamIndex(sport)?.abbreviations.get(canonical) || normalizeName(canonical).replace(/ /g, '');
+  }
+}
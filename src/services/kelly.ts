@@ -0,0 +1,218 @@
+/**
+ * Kelly Sizer
+ *
+ * Sizes +EV bets from a fair win probability, offered odds and a bankroll:
+ * full Kelly, a fraction of it, and stakes capped per bet and in total.
+ * Several bets on the same game are solved together (simultaneous Kelly)
+ * over every way they can land, so correlated bets aren't each sized as if
+ * they were the only one.
+ */
+
+export interface KellyBetInput {
+  bet?: string;
+  odds: number;           // American, as offered
+  probability?: number;   // Fair win probability (0-1)
+  fairOdds?: number;      // ...or the fair price, American
+  commission?: number;    // Exchange commission on net winnings, e.g. 0.02
+}
+
+// One way the bets can land: its probability and the bets that win
+export interface KellyScenario {
+  probability: number;
+  wins: number[];         // Indexes into bets
+}
+
+export interface KellyInput {
+  bankroll: number;
+  bets: KellyBetInput[];
+  fraction?: number;        // 0.25 = quarter Kelly
+  maxStakePercent?: number; // Cap per bet, % of bankroll
+  maxTotalPercent?: number; // Cap across all bets, % of bankroll
+  correlation?: 'independent' | 'exclusive';
+  scenarios?: KellyScenario[];
+}
+
+export interface KellyStake {
+  bet: string;
+  odds: number;
+  probability: number;    // %
+  edge: number;           // % expected profit per $1 staked
+  kellyPercent: number;   // Full Kelly for this bet alone, % of bankroll
+  fullKelly: number;      // $ (solved jointly with the other bets)
+  fractionalKelly: number;
+  stake: number;          // $ after caps
+  capped: boolean;
+}
+
+export interface KellyResult {
+  stakes: KellyStake[];
+  totalStake: number;
+  fraction: number;
+  simultaneous: boolean;
+  expectedProfit: number;
+  expectedGrowth: number; // % expected log growth of the bankroll
+}
+
+// Independent bets are expanded into every win/lose combination
+const MAX_INDEPENDENT_BETS = 10;
+const MAX_SWEEPS = 500;
+const TOLERANCE = 1e-10;
+
+export class KellySizer {
+  size(input: KellyInput): KellyResult {
+    const { bankroll, bets } = input;
+    const fraction = input.fraction ?? 0.25;
+    const maxStakePercent = input.maxStakePercent ?? 5;
+    const maxTotalPercent = input.maxTotalPercent ?? 100;
+
+    if (!(bankroll > 0)) throw new Error('Bankroll must be positive');
+    if (!Array.isArray(bets) || bets.length === 0) throw new Error('At least one bet required');
+    if (!(fraction > 0 && fraction <= 1)) throw new Error('Fraction must be between 0 and 1');
+    if (bets.some(bet => !bet.odds || Math.abs(bet.odds) < 100)) {
+      throw new Error('Each bet needs American odds (e.g. -110, +150)');
+    }
+
+    const decimals = bets.map(bet => 1 + (this.americanToDecimal(bet.odds) - 1) * (1 - (bet.commission ?? 0)));
+    const probabilities = bets.map((bet, i) => {
+      if (input.scenarios?.length) {
+        return this.sum(input.scenarios.filter(s => s.wins.includes(i)).map(s => s.probability));
+      }
+      const probability = bet.probability ?? (bet.fairOdds ? 1 / this.americanToDecimal(bet.fairOdds) : undefined);
+      if (probability === undefined || !(probability > 0 && probability < 1)) {
+        throw new Error('Each bet needs a probability between 0 and 1, or fair odds');
+      }
+      return probability;
+    });
+
+    const alone = probabilities.map((p, i) => Math.max(0, (p * decimals[i] - 1) / (decimals[i] - 1)));
+    const simultaneous = bets.length > 1;
+    const scenarios = simultaneous
+      ? this.scenarios(input, probabilities)
+      : [{ probability: probabilities[0], wins: [0] }, { probability: 1 - probabilities[0], wins: [] }];
+    const returns = scenarios.map(s => decimals.map((d, i) => (s.wins.includes(i) ? d - 1 : -1)));
+
+    const full = simultaneous ? this.solve(returns, scenarios.map(s => s.probability)) : alone;
+
+    // Fractional Kelly, then the per-bet and total caps
+    const fractional = full.map(f => f * fraction);
+    let capped = fractional.map(f => Math.min(f, maxStakePercent / 100));
+    const total = this.sum(capped);
+    if (total > maxTotalPercent / 100) capped = capped.map(f => f * (maxTotalPercent / 100) / total);
+
+    const stakes: KellyStake[] = bets.map((bet, i) => ({
+      bet: bet.bet ?? `Bet ${i + 1}`,
+      odds: bet.odds,
+      probability: this.toCents(probabilities[i] * 100),
+      edge: this.toCents((probabilities[i] * decimals[i] - 1) * 100),
+      kellyPercent: this.toCents(alone[i] * 100),
+      fullKelly: this.toCents(full[i] * bankroll),
+      fractionalKelly: this.toCents(fractional[i] * bankroll),
+      stake: this.toCents(capped[i] * bankroll),
+      capped: capped[i] < fractional[i] - 1e-12
+    }));
+
+    const growth = this.sum(scenarios.map((s, k) =>
+      s.probability * Math.log(1 + this.sum(capped.map((f, i) => f * returns[k][i])))
+    ));
+
+    return {
+      stakes,
+      totalStake: this.toCents(this.sum(stakes.map(s => s.stake))),
+      fraction,
+      simultaneous,
+      expectedProfit: this.toCents(this.sum(capped.map((f, i) => f * bankroll * (probabilities[i] * decimals[i] - 1)))),
+      expectedGrowth: Math.round(growth * 100 * 10000) / 10000
+    };
+  }
+
+  // Joint outcomes: given scenarios (the rest is every bet losing),
+  // mutually exclusive results, or independent bets
+  private scenarios(input: KellyInput, probabilities: number[]): KellyScenario[] {
+    const n = input.bets.length;
+
+    if (input.scenarios?.length) {
+      const total = this.sum(input.scenarios.map(s => s.probability));
+      if (input.scenarios.some(s => !(s.probability >= 0) || s.wins.some(i => !(i >= 0 && i < n)))) {
+        throw new Error('Each scenario needs a probability and the indexes of the bets that win');
+      }
+      if (total > 1 + 1e-6) throw new Error('Scenario probabilities sum to more than 1');
+      return total < 1 ? [...input.scenarios, { probability: 1 - total, wins: [] }] : input.scenarios;
+    }
+
+    if (input.correlation === 'exclusive') {
+      const total = this.sum(probabilities);
+      if (total > 1 + 1e-6) throw new Error('Exclusive bets can\'t have probabilities summing to more than 1');
+      return [
+        ...probabilities.map((probability, i) => ({ probability, wins: [i] })),
+        ...(total < 1 ? [{ probability: 1 - total, wins: [] }] : [])
+      ];
+    }
+
+    if (n > MAX_INDEPENDENT_BETS) throw new Error(`At most ${MAX_INDEPENDENT_BETS} bets can be sized together`);
+
+    const scenarios: KellyScenario[] = [];
+    for (let mask = 0; mask < 1 << n; mask++) {
+      const wins = probabilities.map((_, i) => i).filter(i => mask & (1 << i));
+      const probability = probabilities.reduce((p, q, i) => p * (mask & (1 << i) ? q : 1 - q), 1);
+      if (probability > 0) scenarios.push({ probability, wins });
+    }
+    return scenarios;
+  }
+
+  // Coordinate ascent on expected log wealth; each stake's optimum is where
+  // its (decreasing) slope crosses zero
+  private solve(returns: number[][], probabilities: number[]): number[] {
+    const n = returns[0].length;
+    const fractions: number[] = new Array(n).fill(0);
+
+    for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+      let moved = 0;
+
+      for (let i = 0; i < n; i++) {
+        const base = returns.map(r => 1 + this.sum(r.map((ri, j) => (j === i ? 0 : fractions[j] * ri))));
+        const slope = (x: number) => this.sum(returns.map((r, s) => probabilities[s] * r[i] / (base[s] + x * r[i])));
+
+        let upper = 1 - this.sum(fractions) + fractions[i];
+        returns.forEach((r, s) => {
+          if (r[i] < 0) upper = Math.min(upper, base[s] / -r[i]);
+        });
+        upper = Math.max(0, upper * (1 - 1e-9));
+
+        let next: number;
+        if (upper === 0 || slope(0) <= 0) {
+          next = 0;
+        } else if (slope(upper) >= 0) {
+          next = upper;
+        } else {
+          let lo = 0;
+          let hi = upper;
+          for (let k = 0; k < 60; k++) {
+            const mid = (lo + hi) / 2;
+            if (slope(mid) > 0) lo = mid;
+            else hi = mid;
+          }
+          next = (lo + hi) / 2;
+        }
+
+        moved = Math.max(moved, Math.abs(next - fractions[i]));
+        fractions[i] = next;
+      }
+
+      if (moved < TOLERANCE) break;
+    }
+
+    return fractions;
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, v) => total + v, 0);
+  }
+
+  private toCents(n: number): number {
+    return Math.round(n * 100) / 100;
+  }
+
+  private americanToDecimal(odds: number): number {
+    return odds > 0 ? (odds / 100) + 1 : (100 / Math.abs(odds)) + 1;
+  }
+}
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { OddsProvider } from './odds-providers.js';
 
 const ODDS_API_KEY = process.env.ODDS_API_KEY || '';
 const ODDS_API_URL = process.env.ODDS_API_URL || 'https://api.the-odds-api.com/v4';
@@ -49,6 +50,7 @@ export interface OddsApiGame {
 export interface Bookmaker {
   key: string;
   title: string;
+  last_update?: string;
   markets: Market[];
 }
 
@@ -81,8 +83,15 @@ export interface FormattedOdds {
 export interface BookOdds {
   home: number;
   away: number;
-  spread?: number;
+  draw?: number;      // Three-way markets (soccer) only
+  spread?: number;    // Home spread
+  spreadHomeOdds?: number;
+  spreadAwayOdds?: number;
   total?: number;
+  overOdds?: number;
+  underOdds?: number;
+  updatedAt?: number; // When the book last changed these prices
+  source?: string;    // Provider that supplied the quote
 }
 
 export interface PlayerProp {
@@ -98,14 +107,19 @@ export interface PlayerProp {
   timestamp: number;
 }
 
+export interface ArbitrageLeg {
+  name: string;
+  bet: string;
+  odds: number;
+  stakePct: number;
+}
+
 export interface ArbitrageOpportunity {
   game: string;
   type: string;
-  book1: { name: string; bet: string; odds: number };
-  book2: { name: string; bet: string; odds: number };
+  legs: ArbitrageLeg[];
   profit: number;
-  stake1Pct: number;
-  stake2Pct: number;
+  margin: number;     // 1 - sum of implied probabilities (%)
 }
 
 export interface PropComparison {
@@ -119,7 +133,9 @@ export interface PropComparison {
 
 // ============== MAIN SERVICE CLASS ==============
 
-export class OddsApiService {
+export class OddsApiService implements OddsProvider {
+  readonly name = 'odds-api';
+  readonly priority = 10;
   private apiKey: string;
   private baseUrl: string;
   private remainingRequests: number = 500;
@@ -129,6 +145,10 @@ export class OddsApiService {
     this.baseUrl = ODDS_API_URL;
   }
 
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
   // ============== LIVE ODDS ==============
   async getLiveOdds(sport: string): Promise<FormattedOdds[]> {
     const sportKey = SPORT_KEYS[sport.toLowerCase()] || sport;
@@ -243,40 +263,69 @@ export class OddsApiService {
   // ============== ARBITRAGE ==============
   async findArbitrage(sport: string, minProfit: number = 1): Promise<ArbitrageOpportunity[]> {
     const odds = await this.getLiveOdds(sport);
+    return this.findArbitrageInOdds(odds, minProfit);
+  }
+
+  // Scan already-fetched odds (e.g. merged from several providers)
+  findArbitrageInOdds(odds: FormattedOdds[], minProfit: number = 1): ArbitrageOpportunity[] {
     const opportunities: ArbitrageOpportunity[] = [];
 
     for (const game of odds) {
-      const books = Object.entries(game.odds);
-      
-      for (let i = 0; i < books.length; i++) {
-        for (let j = i + 1; j < books.length; j++) {
-          const [book1Name, book1Odds] = books[i];
-          const [book2Name, book2Odds] = books[j];
-          
-          if (!book1Odds || !book2Odds) continue;
-
-          // Check both directions
-          const arb1 = this.calculateArbitrage(book1Odds.home, book2Odds.away);
-          if (arb1 && arb1.profit >= minProfit) {
-            opportunities.push({
-              game: game.game,
-              type: 'Moneyline',
-              book1: { name: book1Name, bet: game.homeTeam, odds: book1Odds.home },
-              book2: { name: book2Name, bet: game.awayTeam, odds: book2Odds.away },
-              ...arb1
-            });
-          }
+      const books = Object.entries(game.odds).filter((entry): entry is [string, BookOdds] => !!entry[1]);
 
-          const arb2 = this.calculateArbitrage(book1Odds.away, book2Odds.home);
-          if (arb2 && arb2.profit >= minProfit) {
-            opportunities.push({
-              game: game.game,
-              type: 'Moneyline',
-              book1: { name: book1Name, bet: game.awayTeam, odds: book1Odds.away },
-              book2: { name: book2Name, bet: game.homeTeam, odds: book2Odds.home },
-              ...arb2
-            });
+      // Two-way among books without a draw price, three-way among books with one
+      const markets = [
+        {
+          type: 'Moneyline',
+          books: books.filter(([, b]) => !b.draw),
+          outcomes: [
+            { bet: game.homeTeam, price: (b: BookOdds) => b.home },
+            { bet: game.awayTeam, price: (b: BookOdds) => b.away }
+          ]
+        },
+        {
+          type: 'Moneyline (3-way)',
+          books: books.filter(([, b]) => !!b.draw),
+          outcomes: [
+            { bet: game.homeTeam, price: (b: BookOdds) => b.home },
+            { bet: 'Draw', price: (b: BookOdds) => b.draw || 0 },
+            { bet: game.awayTeam, price: (b: BookOdds) => b.away }
+          ]
+        }
+      ];
+
+      for (const market of markets) {
+        // Best price per outcome across books
+        const best = market.outcomes.map(outcome => {
+          let pick: { name: string; odds: number } | null = null;
+          for (const [name, bookOdds] of market.books) {
+            const price = outcome.price(bookOdds);
+            if (!price) continue;
+            if (!pick || this.americanToDecimal(price) > this.americanToDecimal(pick.odds)) {
+              pick = { name, odds: price };
+            }
           }
+          return pick;
+        });
+
+        if (best.some(pick => !pick)) continue;
+        const picks = best as { name: string; odds: number }[];
+        if (new Set(picks.map(p => p.name)).size < 2) continue;
+
+        const arb = this.calculateArbitrage(picks.map(p => p.odds));
+        if (arb && arb.profit >= minProfit) {
+          opportunities.push({
+            game: game.game,
+            type: market.type,
+            legs: picks.map((pick, i) => ({
+              name: pick.name,
+              bet: market.outcomes[i].bet,
+              odds: pick.odds,
+              stakePct: arb.stakePcts[i]
+            })),
+            profit: arb.profit,
+            margin: arb.margin
+          });
         }
       }
     }
@@ -307,14 +356,22 @@ export class OddsApiService {
           const homeOutcome = h2h.outcomes.find(o => o.name === game.home_team);
           const awayOutcome = h2h.outcomes.find(o => o.name === game.away_team);
           const spreadOutcome = spreads?.outcomes.find(o => o.name === game.home_team);
+          const awaySpreadOutcome = spreads?.outcomes.find(o => o.name === game.away_team);
           const totalOutcome = totals?.outcomes.find(o => o.name === 'Over');
+          const underOutcome = totals?.outcomes.find(o => o.name === 'Under');
           
           const key = bookmaker.key as 'draftkings' | 'fanduel' | 'bovada';
           formatted.odds[key] = {
             home: homeOutcome?.price || 0,
             away: awayOutcome?.price || 0,
+            draw: h2h.outcomes.find(o => o.name === 'Draw')?.price,
             spread: spreadOutcome?.point,
-            total: totalOutcome?.point
+            spreadHomeOdds: spreadOutcome?.price,
+            spreadAwayOdds: awaySpreadOutcome?.price,
+            total: totalOutcome?.point,
+            overOdds: totalOutcome?.price,
+            underOdds: underOutcome?.price,
+            updatedAt: bookmaker.last_update ? new Date(bookmaker.last_update).getTime() : undefined
           };
         }
       }
@@ -387,18 +444,16 @@ export class OddsApiService {
     return props;
   }
 
-  private calculateArbitrage(odds1: number, odds2: number): { profit: number; stake1Pct: number; stake2Pct: number } | null {
-    const dec1 = this.americanToDecimal(odds1);
-    const dec2 = this.americanToDecimal(odds2);
-    const imp1 = 1 / dec1;
-    const imp2 = 1 / dec2;
-    const totalImplied = imp1 + imp2;
+  // N-outcome arbitrage: stake each outcome in proportion to its implied probability
+  private calculateArbitrage(odds: number[]): { profit: number; margin: number; stakePcts: number[] } | null {
+    const implied = odds.map(o => 1 / this.americanToDecimal(o));
+    const totalImplied = implied.reduce((sum, p) => sum + p, 0);
 
     if (totalImplied < 1) {
       return {
         profit: Math.round(((1 / totalImplied) - 1) * 10000) / 100,
-        stake1Pct: Math.round((imp1 / totalImplied) * 10000) / 100,
-        stake2Pct: Math.round((imp2 / totalImplied) * 10000) / 100
+        margin: Math.round((1 - totalImplied) * 10000) / 100,
+        stakePcts: implied.map(p => Math.round((p / totalImplied) * 10000) / 100)
       };
     }
     return null;
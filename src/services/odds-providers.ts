@@ -0,0 +1,159 @@
+import { FormattedOdds, BookOdds } from './odds-api.js';
+import { EventRegistry } from './event-registry.js';
+
+// Quotes this close together are treated as equally fresh
+const FRESHNESS_TOLERANCE_MS = 5000;
+
+// ============== INTERFACES ==============
+
+export interface OddsProvider {
+  readonly name: string;
+  readonly priority: number; // Higher wins when quotes are equally fresh
+  isConfigured(): boolean;
+  getLiveOdds(sport: string): Promise<FormattedOdds[]>;
+}
+
+export interface ProviderResult {
+  provider: OddsProvider;
+  games: FormattedOdds[];
+  error?: string;
+}
+
+// ============== REGISTRY ==============
+
+/**
+ * Registry of odds sources. MCP tools read merged odds from here instead
+ * of calling a single service, so a new source only needs to implement
+ * OddsProvider and be registered.
+ *
+ * Each provider's games are resolved to canonical events first, so the
+ * same game merges under one stable id. When two providers quote the same
+ * book for the same game, the fresher quote wins each market (moneyline,
+ * spread, total) separately; quotes within FRESHNESS_TOLERANCE_MS, or
+ * without an update time, go to the higher priority.
+ */
+export class OddsProviderRegistry {
+  private providers: Map<string, OddsProvider> = new Map();
+  readonly events = new EventRegistry();
+
+  register(provider: OddsProvider): this {
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  list(): OddsProvider[] {
+    return Array.from(this.providers.values()).sort((a, b) => b.priority - a.priority);
+  }
+
+  async fetchAll(sport: string): Promise<ProviderResult[]> {
+    const active = this.list().filter(p => p.isConfigured());
+
+    return Promise.all(active.map(async provider => {
+      try {
+        const games = await provider.getLiveOdds(sport);
+        return { provider, games: this.events.canonicalize(sport, games) };
+      } catch (error) {
+        return {
+          provider,
+          games: [],
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    }));
+  }
+
+  async getLiveOdds(sport: string): Promise<FormattedOdds[]> {
+    const results = await this.fetchAll(sport);
+    const succeeded = results.filter(r => !r.error);
+
+    // Surface the error only when every provider failed
+    if (results.length > 0 && succeeded.length === 0) {
+      throw new Error(results.map(r => `${r.provider.name}: ${r.error}`).join('; '));
+    }
+
+    return mergeProviderOdds(succeeded);
+  }
+}
+
+// ============== MERGE ==============
+
+type Market = 'moneyline' | 'spread' | 'total';
+
+// Fields each market reads off a quote
+const MARKET_FIELDS: Record<Market, (keyof BookOdds)[]> = {
+  moneyline: ['home', 'away', 'draw'],
+  spread: ['spread', 'spreadHomeOdds', 'spreadAwayOdds'],
+  total: ['total', 'overOdds', 'underOdds']
+};
+
+function quotesMarket(odds: BookOdds, market: Market): boolean {
+  if (market === 'moneyline') return !!(odds.home || odds.away);
+  if (market === 'spread') return odds.spread !== undefined;
+  return odds.total !== undefined;
+}
+
+/**
+ * One book put together from the quote that won each market, so one
+ * provider's moneyline and another's spreads and totals both survive
+ */
+function composeBook(winners: Partial<Record<Market, BookOdds>>): BookOdds {
+  const quotes = Object.values(winners);
+  const freshest = quotes.reduce((a, b) => ((b.updatedAt ?? -Infinity) > (a.updatedAt ?? -Infinity) ? b : a));
+  const composed: BookOdds = { home: 0, away: 0, updatedAt: freshest.updatedAt, source: freshest.source };
+
+  for (const [market, quote] of Object.entries(winners) as [Market, BookOdds][]) {
+    for (const field of MARKET_FIELDS[market]) {
+      if (quote[field] !== undefined) (composed as any)[field] = quote[field];
+    }
+  }
+
+  return composed;
+}
+
+export function mergeProviderOdds(results: ProviderResult[]): FormattedOdds[] {
+  const priorityOf = new Map(results.map(r => [r.provider.name, r.provider.priority]));
+
+  // Quotes without an update time can't be compared on freshness, so priority decides
+  const isBetter = (incoming: BookOdds, existing: BookOdds): boolean => {
+    if (incoming.updatedAt !== undefined && existing.updatedAt !== undefined) {
+      const age = incoming.updatedAt - existing.updatedAt;
+      if (Math.abs(age) > FRESHNESS_TOLERANCE_MS) return age > 0;
+    }
+    return (priorityOf.get(incoming.source || '') || 0) > (priorityOf.get(existing.source || '') || 0);
+  };
+
+  const merged = new Map<string, { game: FormattedOdds; books: Map<string, Partial<Record<Market, BookOdds>>> }>();
+  const ordered = [...results].sort((a, b) => b.provider.priority - a.provider.priority);
+
+  for (const { provider, games } of ordered) {
+    for (const game of games) {
+      if (!merged.has(game.id)) merged.set(game.id, { game, books: new Map() });
+      const { books } = merged.get(game.id)!;
+
+      for (const [book, bookOdds] of Object.entries(game.odds as Record<string, BookOdds | undefined>)) {
+        if (!bookOdds) continue;
+        const incoming = { ...bookOdds, source: bookOdds.source || provider.name };
+        if (!books.has(book)) books.set(book, {});
+        const winners = books.get(book)!;
+
+        for (const market of Object.keys(MARKET_FIELDS) as Market[]) {
+          if (!quotesMarket(incoming, market)) continue;
+          const current = winners[market];
+          if (!current || isBetter(incoming, current)) winners[market] = incoming;
+        }
+      }
+    }
+  }
+
+  return Array.from(merged.values()).map(({ game, books }) => {
+    const odds: Record<string, BookOdds> = {};
+    for (const [book, winners] of books) {
+      if (Object.keys(winners).length > 0) odds[book] = composeBook(winners);
+    }
+    return { ...game, odds };
+  });
+}
@@ -0,0 +1,295 @@
+/**
+ * Prop Projector
+ *
+ * Fits a distribution to each of a player's stats from their game logs and
+ * prices the prop lines books are offering against it. Production is
+ * modelled per minute, recent games weighted more, and scaled to the
+ * minutes the player is expected to play. Counting stats are Poisson, or
+ * negative binomial when they vary more than Poisson allows; points-based
+ * stats are normal.
+ */
+
+import { PlayerProp } from './player-props.js';
+
+export type StatDistribution = 'poisson' | 'negative_binomial' | 'normal';
+
+export interface GameLogEntry {
+  date: string;
+  minutes: number;
+  stats: Record<string, number>;   // e.g. { pts: 27, reb: 8, ast: 6 }
+}
+
+export interface StatProjection {
+  market: string;          // Prop market key, e.g. 'player_points'
+  stat: string;
+  mean: number;
+  stdDev: number;
+  perMinute: number;
+  minutes: number;         // Expected minutes the projection is scaled to
+  distribution: StatDistribution;
+  games: number;
+}
+
+export interface PropPrice {
+  book: string;
+  odds: number;
+  edge: number;            // % expected profit per $1 staked at this price
+}
+
+export interface PropPricing {
+  market: string;
+  marketLabel: string;
+  line: number;
+  projection: StatProjection;
+  overProbability: number;   // %
+  underProbability: number;  // %
+  pushProbability: number;   // % (whole-number lines only)
+  fairOver: number;          // American, ignoring pushes
+  fairUnder: number;
+  bestOver?: PropPrice;
+  bestUnder?: PropPrice;
+  side: 'over' | 'under';    // The side with the better edge
+  edge: number;
+}
+
+export interface ProjectionOptions {
+  minutes?: number;        // Expected minutes, instead of the recent average
+  games?: number;          // Most recent games used
+  halfLife?: number;       // Games until a log counts half as much
+}
+
+// Prop markets and the game log stats that settle them
+const MARKET_STATS: Record<string, string[]> = {
+  player_points: ['pts'],
+  player_rebounds: ['reb'],
+  player_assists: ['ast'],
+  player_threes: ['fg3m'],
+  player_steals: ['stl'],
+  player_blocks: ['blk'],
+  player_turnovers: ['turnover'],
+  player_points_rebounds_assists: ['pts', 'reb', 'ast']
+};
+
+// Scored in bunches and high enough to treat as continuous
+const NORMAL_MARKETS = ['player_points', 'player_points_rebounds_assists'];
+
+const DEFAULT_GAMES = 20;
+const DEFAULT_HALF_LIFE = 10;
+export const MIN_GAMES = 5;
+
+export class PropProjector {
+  getSupportedMarkets(): string[] {
+    return Object.keys(MARKET_STATS);
+  }
+
+  /**
+   * Fit one market's distribution. Null without enough games with minutes,
+   * or when the player hasn't recorded the stat in them.
+   */
+  project(logs: GameLogEntry[], market: string, options: ProjectionOptions = {}): StatProjection | null {
+    const stats = MARKET_STATS[market];
+    if (!stats) return null;
+
+    const games = logs
+      .filter(log => log.minutes > 0)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, options.games ?? DEFAULT_GAMES);
+    if (games.length < MIN_GAMES) return null;
+
+    const halfLife = options.halfLife ?? DEFAULT_HALF_LIFE;
+    const weights = games.map((_, i) => Math.pow(0.5, i / halfLife));
+    const totalWeight = this.sum(weights);
+    const values = games.map(log => this.sum(stats.map(stat => log.stats[stat] || 0)));
+    const minutes = games.map(log => log.minutes);
+
+    const avgMinutes = this.sum(minutes.map((m, i) => m * weights[i])) / totalWeight;
+    const perMinute = this.sum(values.map((v, i) => v * weights[i])) / (avgMinutes * totalWeight);
+    const expectedMinutes = options.minutes ?? avgMinutes;
+    const mean = perMinute * expectedMinutes;
+
+    // Never recorded in the window: nothing to fit, and no line is a lock
+    if (!(mean > 0)) return null;
+
+    // Game-to-game noise at a given workload (grows with minutes played),
+    // plus the spread that comes from the minutes themselves
+    const residual = this.sum(values.map((v, i) => weights[i] * (v - perMinute * minutes[i]) ** 2)) / totalWeight;
+    const minutesVariance = this.sum(minutes.map((m, i) => weights[i] * (m - avgMinutes) ** 2)) / totalWeight;
+    const variance = residual * (expectedMinutes / avgMinutes) + perMinute ** 2 * minutesVariance;
+
+    const distribution: StatDistribution = NORMAL_MARKETS.includes(market)
+      ? 'normal'
+      : variance > mean ? 'negative_binomial' : 'poisson';
+
+    return {
+      market,
+      stat: stats.join('+'),
+      mean: this.round(mean),
+      stdDev: this.round(distribution === 'poisson' ? Math.sqrt(mean) : Math.sqrt(variance)),
+      perMinute: Math.round(perMinute * 1000) / 1000,
+      minutes: this.round(expectedMinutes),
+      distribution,
+      games: games.length
+    };
+  }
+
+  /**
+   * Over, under and push probabilities at a line
+   */
+  probabilities(projection: StatProjection, line: number): { over: number; under: number; push: number } {
+    const overFrom = Math.floor(line) + 1;   // Smallest result that goes over
+    const underTo = Math.ceil(line) - 1;     // Largest result that stays under
+
+    if (projection.distribution === 'normal') {
+      // Results are whole numbers, so each one covers +/- 0.5. A player who
+      // put up the same number every game still isn't a certainty.
+      const mean = projection.mean;
+      const stdDev = Math.max(projection.stdDev, 1);
+      const over = 1 - this.normalCdf((overFrom - 0.5 - mean) / stdDev);
+      const under = this.normalCdf((underTo + 0.5 - mean) / stdDev);
+      return { over, under, push: Math.max(0, 1 - over - under) };
+    }
+
+    const under = this.sum(this.pmf(projection, Math.max(underTo, -1)));
+    const push = Number.isInteger(line) ? this.pmf(projection, line)[line] : 0;
+    return { over: Math.max(0, 1 - under - push), under, push };
+  }
+
+  /**
+   * Value at a cumulative probability, e.g. 0.1 for a floor and 0.9 for a ceiling
+   */
+  quantile(projection: StatProjection, probability: number): number {
+    if (projection.distribution === 'normal') {
+      return this.round(Math.max(0, projection.mean + this.normalQuantile(probability) * projection.stdDev));
+    }
+
+    const limit = Math.ceil(projection.mean + 10 * projection.stdDev + 10);
+    let cumulative = 0;
+    const pmf = this.pmf(projection, limit);
+    for (let k = 0; k <= limit; k++) {
+      cumulative += pmf[k];
+      if (cumulative >= probability) return k;
+    }
+    return limit;
+  }
+
+  /**
+   * Price every prop a player has against their projections: one entry per
+   * market and line, with the best price on each side across books, ranked
+   * by edge
+   */
+  priceProps(logs: GameLogEntry[], props: PlayerProp[], options: ProjectionOptions = {}): PropPricing[] {
+    const projections = new Map<string, StatProjection | null>();
+    const grouped = new Map<string, PlayerProp[]>();
+
+    for (const prop of props) {
+      if (!MARKET_STATS[prop.marketKey]) continue;
+      const key = `${prop.marketKey}|${prop.line}`;
+      grouped.set(key, [...(grouped.get(key) || []), prop]);
+    }
+
+    const pricings: PropPricing[] = [];
+
+    for (const [, group] of grouped) {
+      const { marketKey, marketLabel, line } = group[0];
+
+      if (!projections.has(marketKey)) projections.set(marketKey, this.project(logs, marketKey, options));
+      const projection = projections.get(marketKey);
+      if (!projection) continue;
+
+      const { over, under, push } = this.probabilities(projection, line);
+
+      // A push returns the stake
+      const priceAt = (book: string, odds: number, win: number, lose: number): PropPrice => ({
+        book,
+        odds,
+        edge: this.round((win * (this.americanToDecimal(odds) - 1) - lose) * 100)
+      });
+
+      const best = (side: 'overOdds' | 'underOdds', win: number, lose: number): PropPrice | undefined => {
+        const quoted = group.filter(prop => prop[side]);
+        if (quoted.length === 0) return undefined;
+        const top = quoted.reduce((a, b) => (this.americanToDecimal(b[side]) > this.americanToDecimal(a[side]) ? b : a));
+        return priceAt(top.bookmaker, top[side], win, lose);
+      };
+
+      const bestOver = best('overOdds', over, under);
+      const bestUnder = best('underOdds', under, over);
+      const side = (bestOver?.edge ?? -Infinity) >= (bestUnder?.edge ?? -Infinity) ? 'over' : 'under';
+      const decided = over + under;
+
+      pricings.push({
+        market: marketKey,
+        marketLabel,
+        line,
+        projection,
+        overProbability: this.round(over * 100),
+        underProbability: this.round(under * 100),
+        pushProbability: this.round(push * 100),
+        fairOver: this.decimalToAmerican(decided / over),
+        fairUnder: this.decimalToAmerican(decided / under),
+        bestOver,
+        bestUnder,
+        side,
+        edge: (side === 'over' ? bestOver?.edge : bestUnder?.edge) ?? 0
+      });
+    }
+
+    return pricings.sort((a, b) => b.edge - a.edge);
+  }
+
+  // Probabilities of 0..k for the count distributions
+  private pmf(projection: StatProjection, k: number): number[] {
+    const { mean, stdDev } = projection;
+    const pmf: number[] = [];
+    if (k < 0) return pmf;
+
+    if (projection.distribution === 'negative_binomial' && stdDev ** 2 > mean) {
+      // r successes with success probability p, matched to the mean and variance
+      const r = (mean * mean) / (stdDev ** 2 - mean);
+      const p = r / (r + mean);
+      pmf.push(Math.pow(p, r));
+      for (let i = 1; i <= k; i++) pmf.push(pmf[i - 1] * ((i - 1 + r) / i) * (1 - p));
+    } else {
+      pmf.push(Math.exp(-mean));
+      for (let i = 1; i <= k; i++) pmf.push(pmf[i - 1] * mean / i);
+    }
+
+    return pmf;
+  }
+
+  // Abramowitz-Stegun 7.1.26
+  private normalCdf(z: number): number {
+    const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-(z * z) / 2);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+
+  private normalQuantile(probability: number): number {
+    let lo = -10;
+    let hi = 10;
+    for (let i = 0; i < 100; i++) {
+      const mid = (lo + hi) / 2;
+      if (this.normalCdf(mid) < probability) lo = mid;
+      else hi = mid;
+    }
+    return (lo + hi) / 2;
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, v) => total + v, 0);
+  }
+
+  private round(n: number): number {
+    return Math.round(n * 100) / 100;
+  }
+
+  private americanToDecimal(odds: number): number {
+    return odds > 0 ? (odds / 100) + 1 : (100 / Math.abs(odds)) + 1;
+  }
+
+  private decimalToAmerican(decimal: number): number {
+    if (!isFinite(decimal) || decimal <= 1) return 0;
+    return decimal >= 2 ? Math.round((decimal - 1) * 100) : Math.round(-100 / (decimal - 1));
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Promo Converter
+ *
+ * Finds the best hedge for a sportsbook promo across every book and market:
+ * bet credits (stake not returned), profit boosts and no-sweat bets (a loss
+ * refunded as a credit, valued at an expected conversion rate). Each option
+ * is hedged to pay the same on every result and ranked by that guaranteed
+ * profit as a share of the promo amount.
+ */
+
+import { FormattedOdds, BookOdds } from './odds-api.js';
+
+export type PromoType = 'bet_credit' | 'profit_boost' | 'no_sweat';
+
+export interface PromoInput {
+  type: PromoType;
+  amount: number;             // Credit amount, or the stake for boosts / no-sweat bets
+  book?: string;              // Book offering the promo (every book when omitted)
+  boost?: number;             // Profit boosts: 0.5 = winnings paid 50% higher
+  refundConversion?: number;  // No-sweat: $ a refunded credit is worth per $1 (default 0.7)
+  minOdds?: number;           // Shortest American odds the promo terms allow
+  limit?: number;
+}
+
+export interface PromoLeg {
+  book: string;
+  bet: string;
+  odds: number;
+  stake: number;
+}
+
+export interface PromoOption {
+  game: string;
+  market: string;
+  promo: PromoLeg;
+  hedges: PromoLeg[];
+  hedgeTotal: number;
+  profit: number;             // $ locked in whatever the result
+  conversion: number;         // Profit as % of the promo amount
+}
+
+interface PromoMarket {
+  market: string;
+  books: [string, BookOdds][];
+  outcomes: { bet: string; price: (b: BookOdds) => number | undefined }[];
+}
+
+const DEFAULT_REFUND_CONVERSION = 0.7;
+
+export class PromoConverter {
+  convert(odds: FormattedOdds[], input: PromoInput): PromoOption[] {
+    if (!['bet_credit', 'profit_boost', 'no_sweat'].includes(input.type)) {
+      throw new Error('type must be bet_credit, profit_boost or no_sweat');
+    }
+    if (!(input.amount > 0)) throw new Error('amount must be positive');
+    if (input.type === 'profit_boost' && !(input.boost! > 0)) {
+      throw new Error('Profit boosts need a positive boost (0.5 = 50%)');
+    }
+
+    const minDecimal = input.minOdds ? this.americanToDecimal(input.minOdds) : 1;
+    const options: PromoOption[] = [];
+
+    for (const game of odds) {
+      for (const market of this.gameMarkets(game)) {
+        for (const [book, bookOdds] of market.books) {
+          if (input.book && book !== input.book) continue;
+
+          market.outcomes.forEach((outcome, i) => {
+            const price = outcome.price(bookOdds);
+            if (!price) return;
+
+            const decimal = this.americanToDecimal(price);
+            if (decimal < minDecimal) return;
+
+            // Best price on every other result, away from the promo book
+            const hedges = market.outcomes
+              .filter((_, j) => j !== i)
+              .map(other => this.bestPrice(market.books.filter(([name]) => name !== book), other));
+            if (hedges.some(h => !h)) return;
+
+            // Each hedge pays what the promo pays on a win
+            const { win, cost, refund } = this.payoffs(input, decimal);
+            const legs = (hedges as { book: string; bet: string; odds: number }[]).map(h => ({
+              ...h,
+              stake: this.toCents((win - refund) / this.americanToDecimal(h.odds))
+            }));
+            const hedgeTotal = legs.reduce((sum, leg) => sum + (win - refund) / this.americanToDecimal(leg.odds), 0);
+            const profit = win - cost - hedgeTotal;
+
+            options.push({
+              game: game.game,
+              market: market.market,
+              promo: { book, bet: outcome.bet, odds: price, stake: input.amount },
+              hedges: legs,
+              hedgeTotal: this.toCents(hedgeTotal),
+              profit: this.toCents(profit),
+              conversion: this.toCents((profit / input.amount) * 100)
+            });
+          });
+        }
+      }
+    }
+
+    return options
+      .sort((a, b) => b.conversion - a.conversion)
+      .slice(0, input.limit ?? 10);
+  }
+
+  // Returned on a win, paid up front, and given back on a loss
+  private payoffs(input: PromoInput, decimal: number): { win: number; cost: number; refund: number } {
+    const { type, amount } = input;
+    if (type === 'bet_credit') return { win: amount * (decimal - 1), cost: 0, refund: 0 };
+    if (type === 'profit_boost') {
+      return { win: amount * (1 + (decimal - 1) * (1 + (input.boost ?? 0))), cost: amount, refund: 0 };
+    }
+    return { win: amount * decimal, cost: amount, refund: amount * (input.refundConversion ?? DEFAULT_REFUND_CONVERSION) };
+  }
+
+  // Moneyline (two- or three-way), plus each spread / total line
+  private gameMarkets(game: FormattedOdds): PromoMarket[] {
+    const books = Object.entries(game.odds).filter((entry): entry is [string, BookOdds] => !!entry[1]);
+    const markets: PromoMarket[] = [
+      {
+        market: 'Moneyline',
+        books: books.filter(([, b]) => !b.draw),
+        outcomes: [
+          { bet: game.homeTeam, price: b => b.home },
+          { bet: game.awayTeam, price: b => b.away }
+        ]
+      },
+      {
+        market: 'Moneyline (3-way)',
+        books: books.filter(([, b]) => !!b.draw),
+        outcomes: [
+          { bet: game.homeTeam, price: b => b.home },
+          { bet: 'Draw', price: b => b.draw },
+          { bet: game.awayTeam, price: b => b.away }
+        ]
+      }
+    ];
+
+    for (const spread of new Set(books.map(([, b]) => b.spread).filter((s): s is number => s !== undefined))) {
+      markets.push({
+        market: 'Spread',
+        books: books.filter(([, b]) => b.spread === spread),
+        outcomes: [
+          { bet: `${game.homeTeam} ${spread > 0 ? '+' : ''}${spread}`, price: b => b.spreadHomeOdds },
+          { bet: `${game.awayTeam} ${-spread > 0 ? '+' : ''}${-spread}`, price: b => b.spreadAwayOdds }
+        ]
+      });
+    }
+
+    for (const total of new Set(books.map(([, b]) => b.total).filter((t): t is number => t !== undefined))) {
+      markets.push({
+        market: 'Total',
+        books: books.filter(([, b]) => b.total === total),
+        outcomes: [
+          { bet: `Over ${total}`, price: b => b.overOdds },
+          { bet: `Under ${total}`, price: b => b.underOdds }
+        ]
+      });
+    }
+
+    return markets.filter(m => m.books.length >= 2);
+  }
+
+  private bestPrice(
+    books: [string, BookOdds][],
+    outcome: PromoMarket['outcomes'][number]
+  ): { book: string; bet: string; odds: number } | null {
+    let best: { book: string; bet: string; odds: number } | null = null;
+    for (const [book, bookOdds] of books) {
+      const price = outcome.price(bookOdds);
+      if (!price) continue;
+      if (!best || this.americanToDecimal(price) > this.americanToDecimal(best.odds)) {
+        best = { book, bet: outcome.bet, odds: price };
+      }
+    }
+    return best;
+  }
+
+  private toCents(n: number): number {
+    return Math.round(n * 100) / 100;
+  }
+
+  private americanToDecimal(odds: number): number {
+    return odds > 0 ? (odds / 100) + 1 : (100 / Math.abs(odds)) + 1;
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Stake Planner
+ *
+ * Turns arb stake percentages into dollar bets: scales the total to the
+ * bankroll and per-book balances / max bets, rounds each stake to a multiple
+ * (whole dollars, $5...) and keeps the rounding with the best worst case.
+ * Exchange legs are priced net of commission (lays as the back bet they
+ * amount to, staked as liability) and capped at the quoted liquidity.
+ */
+
+export interface StakeLegInput {
+  book: string;
+  bet?: string;
+  odds: number;         // American odds (the lay price for lay legs)
+  side?: 'lay';         // Lay the other outcome on an exchange; stake is the liability
+  maxStake?: number;    // $ available at this price
+}
+
+export interface BookLimits {
+  balance?: number;     // Funds at the book, shared by every leg there
+  maxBet?: number;      // Largest single bet the book accepts
+  commission?: number;  // Rate on net winnings (exchanges), e.g. 0.02
+}
+
+export interface StakePlanInput {
+  legs: StakeLegInput[];
+  bankroll: number;
+  books?: Record<string, BookLimits>;
+  rounding?: number;    // Stake multiple in dollars (0.01 = cents, 1 = whole dollars, 5 = $5s)
+}
+
+export interface PlannedStake {
+  book: string;
+  bet: string;
+  odds: number;
+  stake: number;
+  payout: number;       // Returned (stake included) if this leg wins
+  layStake?: number;    // Lay legs: backer's stake to enter on the exchange
+}
+
+export type BindingConstraint =
+  | { type: 'bankroll'; limit: number }
+  | { type: 'balance' | 'maxBet' | 'liquidity'; book: string; limit: number };
+
+export interface StakePlan {
+  stakes: PlannedStake[];
+  totalStake: number;
+  worstCase: number;    // $ profit when the weakest leg wins
+  bestCase: number;
+  worstCasePct: number;
+  bestCasePct: number;
+  binding: BindingConstraint;
+  roundingCost: number; // $ of worst case given up to rounding
+}
+
+// Above this many legs, trying every up/down rounding gets too expensive
+const MAX_ROUNDING_SEARCH_LEGS = 8;
+
+export class StakePlanner {
+  plan(input: StakePlanInput): StakePlan {
+    const { legs, bankroll, books = {} } = input;
+    const step = input.rounding && input.rounding > 0 ? input.rounding : 0.01;
+
+    if (!Array.isArray(legs) || legs.length < 2) throw new Error('At least two legs required');
+    if (!(bankroll > 0)) throw new Error('Bankroll must be positive');
+    if (legs.some(leg => !leg.book || !leg.odds || Math.abs(leg.odds) < 100)) {
+      throw new Error('Every leg needs a book and American odds');
+    }
+
+    const decimals = legs.map(leg => this.effectiveDecimal(leg, books[leg.book]?.commission ?? 0));
+    const implied = decimals.map(d => 1 / d);
+    const totalImplied = implied.reduce((sum, p) => sum + p, 0);
+    const weights = implied.map(p => p / totalImplied);
+
+    // Largest total every limit allows
+    let total = bankroll;
+    let binding: BindingConstraint = { type: 'bankroll', limit: bankroll };
+
+    legs.forEach((leg, i) => {
+      const maxBet = books[leg.book]?.maxBet;
+      if (maxBet !== undefined && maxBet / weights[i] < total) {
+        total = maxBet / weights[i];
+        binding = { type: 'maxBet', book: leg.book, limit: maxBet };
+      }
+      if (leg.maxStake !== undefined && leg.maxStake / weights[i] < total) {
+        total = leg.maxStake / weights[i];
+        binding = { type: 'liquidity', book: leg.book, limit: leg.maxStake };
+      }
+    });
+
+    const bookShares = new Map<string, number>();
+    legs.forEach((leg, i) => bookShares.set(leg.book, (bookShares.get(leg.book) || 0) + weights[i]));
+    for (const [book, share] of bookShares) {
+      const balance = books[book]?.balance;
+      if (balance !== undefined && balance / share < total) {
+        total = balance / share;
+        binding = { type: 'balance', book, limit: balance };
+      }
+    }
+
+    const idealWorst = total / totalImplied - total;
+    const floors = weights.map(w => this.toCents(Math.floor((total * w) / step + 1e-9) * step));
+    const ceils = floors.map(x => this.toCents(x + step));
+
+    let chosen: number[] | null = null;
+    let chosenWorst = -Infinity;
+    let chosenBest = -Infinity;
+
+    // Every up/down combination for typical 2-3 way markets, floors only beyond that
+    const combinations = legs.length <= MAX_ROUNDING_SEARCH_LEGS ? 1 << legs.length : 1;
+    for (let mask = 0; mask < combinations; mask++) {
+      const stakes = floors.map((floor, i) => (mask & (1 << i) ? ceils[i] : floor));
+      if (!this.fits(stakes, legs, bankroll, books)) continue;
+
+      const staked = stakes.reduce((sum, stake) => sum + stake, 0);
+      const profits = stakes.map((stake, i) => stake * decimals[i] - staked);
+      const worst = Math.min(...profits);
+      const best = Math.max(...profits);
+
+      if (worst > chosenWorst + 1e-9 || (Math.abs(worst - chosenWorst) <= 1e-9 && best > chosenBest)) {
+        chosen = stakes;
+        chosenWorst = worst;
+        chosenBest = best;
+      }
+    }
+
+    if (!chosen) {
+      throw new Error(`Limits are too small to stake every leg in multiples of $${step}`);
+    }
+
+    const totalStake = chosen.reduce((sum, stake) => sum + stake, 0);
+    return {
+      stakes: legs.map((leg, i) => ({
+        book: leg.book,
+        bet: leg.bet || `Leg ${i + 1}`,
+        odds: leg.odds,
+        stake: chosen![i],
+        payout: this.toCents(chosen![i] * decimals[i]),
+        ...(leg.side === 'lay' && { layStake: this.toCents(chosen![i] / (this.americanToDecimal(leg.odds) - 1)) })
+      })),
+      totalStake: this.toCents(totalStake),
+      worstCase: this.toCents(chosenWorst),
+      bestCase: this.toCents(chosenBest),
+      worstCasePct: this.toCents((chosenWorst / totalStake) * 100),
+      bestCasePct: this.toCents((chosenBest / totalStake) * 100),
+      binding,
+      roundingCost: this.toCents(Math.max(0, idealWorst - chosenWorst))
+    };
+  }
+
+  private fits(stakes: number[], legs: StakeLegInput[], bankroll: number, books: Record<string, BookLimits>): boolean {
+    if (stakes.some(stake => stake <= 0)) return false;
+    if (stakes.reduce((sum, stake) => sum + stake, 0) > bankroll + 1e-9) return false;
+
+    const perBook = new Map<string, number>();
+    for (let i = 0; i < legs.length; i++) {
+      const limits = books[legs[i].book];
+      if (limits?.maxBet !== undefined && stakes[i] > limits.maxBet + 1e-9) return false;
+      if (legs[i].maxStake !== undefined && stakes[i] > legs[i].maxStake! + 1e-9) return false;
+      perBook.set(legs[i].book, (perBook.get(legs[i].book) || 0) + stakes[i]);
+    }
+    for (const [book, staked] of perBook) {
+      const balance = books[book]?.balance;
+      if (balance !== undefined && staked > balance + 1e-9) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Decimal odds net of commission. Laying risks (decimal - 1) per $1 of
+   * backer's stake to win that $1, so it pays like a back bet on "not it".
+   */
+  private effectiveDecimal(leg: StakeLegInput, commission: number): number {
+    const decimal = this.americanToDecimal(leg.odds);
+    if (leg.side === 'lay') return 1 + (1 - commission) / (decimal - 1);
+    return 1 + (decimal - 1) * (1 - commission);
+  }
+
+  private toCents(n: number): number {
+    return Math.round(n * 100) / 100;
+  }
+
+  private americanToDecimal(odds: number): number {
+    return odds > 0 ? (odds / 100) + 1 : (100 / Math.abs(odds)) + 1;
+  }
+}
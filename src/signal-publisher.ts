@@ -20,6 +20,7 @@
 import axios from 'axios';
 import dotenv from 'dotenv';
 import { OddsApiService, FormattedOdds, ArbitrageOpportunity } from './services/odds-api.js';
+import { OddsProviderRegistry } from './services/odds-providers.js';
 import {
   Signal,
   SteamSignal,
@@ -62,6 +63,7 @@ const SIGNAL_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 // Services
 const oddsApi = new OddsApiService();
+const oddsProviders = new OddsProviderRegistry().register(oddsApi);
 
 // ============== SIGNAL PUBLISHING ==============
 
@@ -203,20 +205,12 @@ function createArbitrageSignal(arb: ArbitrageOpportunity, sport: string): Arbitr
       ttl: 120,
       profitPercent: arb.profit
     },
-    bets: {
-      book1: {
-        name: arb.book1.name,
-        bet: arb.book1.bet,
-        odds: arb.book1.odds,
-        stakePercent: arb.stake1Pct
-      },
-      book2: {
-        name: arb.book2.name,
-        bet: arb.book2.bet,
-        odds: arb.book2.odds,
-        stakePercent: arb.stake2Pct
-      }
-    }
+    bets: arb.legs.map(leg => ({
+      name: leg.name,
+      bet: leg.bet,
+      odds: leg.odds,
+      stakePercent: leg.stakePct
+    }))
   };
 }
 
@@ -225,7 +219,7 @@ function createArbitrageSignal(arb: ArbitrageOpportunity, sport: string): Arbitr
 async function pollBettingLines(sport: string): Promise<void> {
   try {
     console.log(`📊 Polling ${sport.toUpperCase()} betting lines...`);
-    const odds = await oddsApi.getLiveOdds(sport);
+    const odds = await oddsProviders.getLiveOdds(sport);
 
     // Store snapshots for steam detection
     const now = Date.now();
@@ -281,7 +275,8 @@ async function pollBettingLines(sport: string): Promise<void> {
 async function pollArbitrage(sport: string): Promise<void> {
   try {
     console.log(`🎯 Scanning ${sport.toUpperCase()} for arbitrage...`);
-    const arbs = await oddsApi.findArbitrage(sport, THRESHOLDS.minArbProfit);
+    const odds = await oddsProviders.getLiveOdds(sport);
+    const arbs = oddsApi.findArbitrageInOdds(odds, THRESHOLDS.minArbProfit);
 
     for (const arb of arbs) {
       const signal = createArbitrageSignal(arb, sport);
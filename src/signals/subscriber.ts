@@ -192,8 +192,9 @@ async function handleArbitrage(signal: ArbitrageSignal): Promise<void> {
   console.log('\n🎯 Arbitrage Sniper Processing:');
   console.log(`   Game: ${payload.game}`);
   console.log(`   Profit: ${payload.profitPercent.toFixed(2)}%`);
-  console.log(`   Bet 1: ${bets.book1.name} - ${bets.book1.bet} @ ${bets.book1.odds} (${bets.book1.stakePercent.toFixed(1)}%)`);
-  console.log(`   Bet 2: ${bets.book2.name} - ${bets.book2.bet} @ ${bets.book2.odds} (${bets.book2.stakePercent.toFixed(1)}%)`);
+  bets.forEach((leg, i) => {
+    console.log(`   Bet ${i + 1}: ${leg.name} - ${leg.bet} @ ${leg.odds} (${leg.stakePercent.toFixed(1)}%)`);
+  });
 
   // Example logic:
   // - Verify odds are still available at both books
@@ -60,19 +60,11 @@ export interface ArbitrageSignal extends BaseSignal {
     profitPercent: number;
   };
   bets: {
-    book1: {
-      name: string;
-      bet: string;
-      odds: number;
-      stakePercent: number;
-    };
-    book2: {
-      name: string;
-      bet: string;
-      odds: number;
-      stakePercent: number;
-    };
-  };
+    name: string;
+    bet: string;
+    odds: number;
+    stakePercent: number;
+  }[];  // One entry per outcome (2 for moneylines, 3 with a draw)
 }
 
 // ============== EXPECTED VALUE SIGNAL ==============